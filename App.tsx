@@ -1,172 +1,563 @@
 
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { jsPDF } from 'jspdf';
 import html2canvas from 'html2canvas';
-import { extractFamilyData, discoverExtendedFamily, updateFamilyData, researchDeathRecords, askGemini, mergeChatInfo } from './services/geminiService';
-import { ExtractionResult, FamilyMember, GroundingSource } from './types';
+import { extractFamilyData, discoverExtendedFamily, findSubject, updateFamilyData, researchDeathRecords, askGemini, mergeChatInfo } from './services/geminiService';
+import { parseGedcom, toGedcom, GedcomVersion } from './services/gedcomService';
+import { readSpreadsheet, guessColumnMapping, buildMembersFromSheet, isFreeFormSheet, downloadSpreadsheet, SheetData, ColumnMapping } from './services/spreadsheetService';
+import { listProjects, getProject, saveProjectData, renameProject, duplicateProject, deleteProject, createProjectId, getLastProjectId, setLastProjectId } from './services/projectStore';
+import { mergeExtractionResults, describeMerge } from './services/mergeService';
+import { diffResults, applyDiff, TreeDiff } from './services/diffService';
+import { createMemberId, saveMember, deleteMember } from './services/editService';
+import { validateIntegrity, repairIntegrity, IntegrityFix, INTEGRITY_FIXES } from './services/validationService';
+import { checkPlausibility, groupWarningsByMember } from './services/plausibilityService';
+import { displayDate } from './services/dateService';
+import { eventLabel, removeEvent, saveEvent } from './services/eventService';
+import { citedFieldLabel, removeCitation, saveCitation } from './services/citationService';
+import { labelRelationships } from './services/kinshipService';
+import { EMPTY_FILTERS, filterMembers, MemberFilters, searchMembers } from './services/searchService';
+import { AiSettings, loadAiSettings, saveAiSettings } from './services/aiProvider';
+import { isCancelled, PROGRESS_STAGE_LABELS, RequestOptions, ResearchProgress, withStep } from './services/requestService';
+import { crawlFindings, createCrawlJob, CrawlJob, CrawlOptions, CRAWL_DIRECTION_LABELS, failCrawl, pauseCrawl, resumeCrawl, runCrawlTask, startCrawlTask, stopCrawl } from './services/crawlerService';
+import { TreeHistory, HistoryOperation, emptyHistory, resetHistory, pushHistory, undo, redo, jumpTo, addSnapshot, removeSnapshot, restoreSnapshot, canUndo, canRedo } from './services/historyService';
+import { ChatMessage, Citation, ExtractionResult, FamilyMember, GroundingSource, MemberEvent, SavedProject } from './types';
 import TreeVisualization from './components/TreeVisualization';
+import ColumnMappingModal from './components/ColumnMappingModal';
+import ProjectPicker from './components/ProjectPicker';
+import HistoryPanel from './components/HistoryPanel';
+import ReviewChangesModal from './components/ReviewChangesModal';
+import MemberEditorModal from './components/MemberEditorModal';
+import IntegrityPanel from './components/IntegrityPanel';
+import HeirshipPanel from './components/HeirshipPanel';
+import MemberSearchBar from './components/MemberSearchBar';
+import AiSettingsPanel from './components/AiSettingsPanel';
+import CachePanel from './components/CachePanel';
+import ResearchJobPanel from './components/ResearchJobPanel';
+
+// A failed research call, with the reason when there is one.
+const failureMessage = (summary: string, err: any) => err?.message ? `${summary} (${err.message})` : summary;
 
 const App: React.FC = () => {
   const [inputText, setInputText] = useState('');
   const [updateText, setUpdateText] = useState('');
+  const [allowRemovals, setAllowRemovals] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [isExporting, setIsExporting] = useState(false);
   const [showUpdateModal, setShowUpdateModal] = useState(false);
-  const [processingStatus, setProcessingStatus] = useState<'analyzing' | 'researching' | 'previewing' | 'updating' | 'chatting' | 'merging' | null>(null);
-  const [extractionResult, setExtractionResult] = useState<ExtractionResult | null>(null);
+  const [progress, setProgress] = useState<ResearchProgress | null>(null);
+  const [isChatting, setIsChatting] = useState(false);
+  const [chatProgress, setChatProgress] = useState<ResearchProgress | null>(null);
+  // The research request behind the processing overlay, so it can be cancelled.
+  const requestRef = useRef<AbortController | null>(null);
+  // Chat runs beside research, so it has its own request and no overlay.
+  const chatRequestRef = useRef<AbortController | null>(null);
+  const [crawl, setCrawl] = useState<CrawlJob | null>(null);
+  const [crawlProgress, setCrawlProgress] = useState<ResearchProgress | null>(null);
+  const [crawlPausing, setCrawlPausing] = useState(false);
+  const [crawlRootId, setCrawlRootId] = useState<string | null>(null);
+  const crawlRef = useRef<{ controller: AbortController, pausing: boolean } | null>(null);
+  const [history, setHistory] = useState<TreeHistory>(emptyHistory());
+  const [sidePanel, setSidePanel] = useState<'history' | 'integrity' | 'heirship' | 'research' | null>(null);
+  const [editingMember, setEditingMember] = useState<{ member: FamilyMember, isNew: boolean } | null>(null);
+  const [pendingReview, setPendingReview] = useState<{ base: ExtractionResult | null, proposed: ExtractionResult, diff: TreeDiff, operation: HistoryOperation, label: string } | null>(null);
+  const extractionResult = history.present?.result ?? null;
+  const integrityIssues = useMemo(() => validateIntegrity(extractionResult), [extractionResult]);
+  const dateWarnings = useMemo(() => groupWarningsByMember(checkPlausibility(extractionResult?.members || [])), [extractionResult]);
   const [error, setError] = useState<string | null>(null);
   const [activeTab, setActiveTab] = useState<'upload' | 'tree' | 'list'>('upload');
   const [isDragging, setIsDragging] = useState(false);
+  const [gedcomVersion, setGedcomVersion] = useState<GedcomVersion>('5.5.1');
+  const [pendingSheet, setPendingSheet] = useState<{ fileName: string, sheet: SheetData, mapping: ColumnMapping } | null>(null);
+
+  // Search and filters, shared by the tree and list views
+  const [searchQuery, setSearchQuery] = useState('');
+  const [memberFilters, setMemberFilters] = useState<MemberFilters>(EMPTY_FILTERS);
+  const [searchTarget, setSearchTarget] = useState<{ memberId: string, at: number } | null>(null);
+  const [aiSettings, setAiSettings] = useState<AiSettings>(loadAiSettings);
+  const [bypassCache, setBypassCache] = useState(false);
+  const searchResults = useMemo(() => searchMembers(extractionResult?.members || [], searchQuery), [extractionResult, searchQuery]);
+  const searchMatchIds = useMemo(() => new Set(searchResults.map(r => r.memberId)), [searchResults]);
+  const filteredOut = useMemo(() => filterMembers(extractionResult?.members || [], memberFilters), [extractionResult, memberFilters]);
   
   // Chat State
   const [chatQuery, setChatQuery] = useState('');
-  const [chatHistory, setChatHistory] = useState<{role: 'user' | 'ai', text: string, id: string, sources?: GroundingSource[]}[]>([]);
+  const [chatHistory, setChatHistory] = useState<ChatMessage[]>([]);
   const [isChatOpen, setIsChatOpen] = useState(false);
   const chatEndRef = useRef<HTMLDivElement>(null);
 
   const [previewImageData, setPreviewImageData] = useState<string | null>(null);
   const [showPreview, setShowPreview] = useState(false);
 
+  // Project State
+  const [projects, setProjects] = useState<SavedProject[]>([]);
+  const [currentProjectId, setCurrentProjectId] = useState<string | null>(null);
+  const lastSavedRef = useRef<{ data: ExtractionResult | null, chatHistory: ChatMessage[], snapshots: TreeHistory['snapshots'] }>({ data: null, chatHistory: [], snapshots: [] });
+
+  // Every change to the tree goes through here so it can be undone.
+  const commitResult = useCallback((update: ExtractionResult | ((prev: ExtractionResult | null) => ExtractionResult), operation: HistoryOperation, label: string) => {
+    setHistory(prev => pushHistory(prev, typeof update === 'function' ? update(prev.present?.result ?? null) : update, operation, label));
+  }, []);
+
+  const refreshProjects = useCallback(async () => {
+    try {
+      setProjects(await listProjects());
+    } catch (err) {
+      console.warn("Project storage unavailable", err);
+    }
+  }, []);
+
+  // A research job belongs to the tree it started from.
+  const discardCrawl = useCallback(() => {
+    crawlRef.current?.controller.abort();
+    crawlRef.current = null;
+    setCrawl(null);
+    setCrawlProgress(null);
+    setCrawlPausing(false);
+  }, []);
+
+  const openProject = useCallback(async (id: string) => {
+    try {
+      const project = await getProject(id);
+      if (!project) return;
+      discardCrawl();
+      const snapshots = project.snapshots || [];
+      lastSavedRef.current = { data: project.data, chatHistory: project.chatHistory, snapshots };
+      setHistory(resetHistory(project.data, snapshots));
+      setChatHistory(project.chatHistory);
+      setCurrentProjectId(project.id);
+      setLastProjectId(project.id);
+      setError(null);
+      setActiveTab('tree');
+    } catch (err) {
+      setError("This saved tree could not be opened.");
+    }
+  }, [discardCrawl]);
+
+  // Fresh searches and imports become a new project rather than overwriting the open one.
+  const startNewProject = useCallback(() => {
+    discardCrawl();
+    setCurrentProjectId(null);
+    setLastProjectId(null);
+    setHistory(emptyHistory());
+    setChatHistory([]);
+  }, [discardCrawl]);
+
+  useEffect(() => {
+    refreshProjects();
+    const lastId = getLastProjectId();
+    if (lastId) openProject(lastId);
+  }, [refreshProjects, openProject]);
+
+  // Autosave whenever the tree, chat or snapshots change.
+  const snapshots = history.snapshots;
+  useEffect(() => {
+    if (!extractionResult) return;
+    const last = lastSavedRef.current;
+    if (last.data === extractionResult && last.chatHistory === chatHistory && last.snapshots === snapshots) return;
+    lastSavedRef.current = { data: extractionResult, chatHistory, snapshots };
+    const id = currentProjectId || createProjectId();
+    if (!currentProjectId) {
+      setCurrentProjectId(id);
+      setLastProjectId(id);
+    }
+    saveProjectData(id, extractionResult, chatHistory, snapshots)
+      .then(refreshProjects)
+      .catch(err => console.warn("Autosave failed", err));
+  }, [extractionResult, chatHistory, snapshots, currentProjectId, refreshProjects]);
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey)) return;
+      if (e.target instanceof HTMLElement && e.target.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const key = e.key.toLowerCase();
+      if (key === 'z' && !e.shiftKey) {
+        e.preventDefault();
+        setHistory(undo);
+      } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+        e.preventDefault();
+        setHistory(redo);
+      }
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  // AI output is staged for field-by-field review instead of being committed directly.
+  const proposeChanges = useCallback((base: ExtractionResult | null, proposed: ExtractionResult, operation: HistoryOperation, label: string) => {
+    setPendingReview({ base, proposed, diff: diffResults(base, proposed), operation, label });
+  }, []);
+
+  const handleApplyReview = (accepted: Set<string>) => {
+    if (!pendingReview) return;
+    const { base, proposed, diff, operation, label } = pendingReview;
+    if (!base) startNewProject();
+    commitResult(applyDiff(base, proposed, diff, accepted), operation, label);
+    setPendingReview(null);
+    setActiveTab('tree');
+  };
+
+  const openMemberEditor = (memberId?: string) => {
+    if (!extractionResult) return;
+    const existing = memberId ? extractionResult.members.find(m => m.id === memberId) : undefined;
+    setEditingMember(existing
+      ? { member: existing, isNew: false }
+      : { member: { id: createMemberId(extractionResult.members), name: '', parents: [], partners: [] }, isNew: true });
+  };
+
+  const handleSaveMember = (member: FamilyMember) => {
+    if (!extractionResult || !editingMember) return;
+    commitResult(saveMember(extractionResult, member), 'manual-edit', `${editingMember.isNew ? 'Added' : 'Edited'} ${member.name}`);
+    setEditingMember(null);
+  };
+
+  const handleDeleteMember = (id: string) => {
+    if (!extractionResult) return;
+    const name = extractionResult.members.find(m => m.id === id)?.name || id;
+    commitResult(deleteMember(extractionResult, id), 'manual-edit', `Deleted ${name}`);
+    setEditingMember(null);
+  };
+
+  const handleSaveEvent = (memberId: string, event: MemberEvent, placeText: string) => {
+    if (!extractionResult) return;
+    const name = extractionResult.members.find(m => m.id === memberId)?.name || memberId;
+    commitResult(saveEvent(extractionResult, memberId, event, placeText), 'manual-edit', `${eventLabel(event.type)} for ${name}`);
+  };
+
+  const handleDeleteEvent = (memberId: string, eventId: string) => {
+    if (!extractionResult) return;
+    const member = extractionResult.members.find(m => m.id === memberId);
+    const event = member?.events?.find(e => e.id === eventId);
+    commitResult(removeEvent(extractionResult, memberId, eventId), 'manual-edit', `Removed ${event ? eventLabel(event.type).toLowerCase() : 'event'} for ${member?.name || memberId}`);
+  };
+
+  const handleSaveCitation = (memberId: string, citation: Citation, newSource?: GroundingSource) => {
+    if (!extractionResult) return;
+    const name = extractionResult.members.find(m => m.id === memberId)?.name || memberId;
+    commitResult(saveCitation(extractionResult, memberId, citation, newSource), 'manual-edit', `Cited ${citedFieldLabel(citation.field).toLowerCase()} for ${name}`);
+  };
+
+  const handleDeleteCitation = (memberId: string, citationId: string) => {
+    if (!extractionResult) return;
+    const name = extractionResult.members.find(m => m.id === memberId)?.name || memberId;
+    commitResult(removeCitation(extractionResult, memberId, citationId), 'manual-edit', `Removed a citation for ${name}`);
+  };
+
+  const handleSetHomePerson = (memberId: string) => {
+    if (!extractionResult) return;
+    const name = extractionResult.members.find(m => m.id === memberId)?.name || memberId;
+    commitResult(labelRelationships(extractionResult, memberId), 'manual-edit', `Relationships relative to ${name}`);
+  };
+
+  const handleRepair = (fixes: IntegrityFix[]) => {
+    if (!extractionResult) return;
+    const labels = INTEGRITY_FIXES.filter(f => fixes.includes(f.fix)).map(f => f.label.toLowerCase());
+    commitResult(repairIntegrity(extractionResult, fixes), 'repair', labels.join(', '));
+  };
+
+  const handleSaveSnapshot = () => {
+    const name = window.prompt("Snapshot name", `Snapshot ${history.snapshots.length + 1}`);
+    if (!name?.trim()) return;
+    setHistory(prev => addSnapshot(prev, name.trim()));
+  };
+
+  const handleRenameProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    const name = window.prompt("Rename tree", project?.name || '');
+    if (!name?.trim()) return;
+    try {
+      await renameProject(id, name.trim());
+      refreshProjects();
+    } catch (err) {
+      setError(failureMessage("This tree could not be renamed.", err));
+    }
+  };
+
+  const handleDuplicateProject = async (id: string) => {
+    try {
+      await duplicateProject(id);
+      refreshProjects();
+    } catch (err) {
+      setError(failureMessage("This tree could not be duplicated.", err));
+    }
+  };
+
+  const handleDeleteProject = async (id: string) => {
+    const project = projects.find(p => p.id === id);
+    if (!window.confirm(`Delete "${project?.name || 'this tree'}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(id);
+    } catch (err) {
+      setError(failureMessage("This tree could not be deleted.", err));
+      return;
+    }
+    if (id === currentProjectId) {
+      lastSavedRef.current = { data: null, chatHistory: [], snapshots: [] };
+      setCurrentProjectId(null);
+      setLastProjectId(null);
+      setHistory(emptyHistory());
+      setChatHistory([]);
+    }
+    refreshProjects();
+  };
+
   useEffect(() => {
     if (chatEndRef.current) {
       chatEndRef.current.scrollIntoView({ behavior: 'smooth' });
     }
   }, [chatHistory, isChatOpen]);
 
+  // The tree view pans to search results itself; the list scrolls to them.
+  useEffect(() => {
+    if (activeTab !== 'list' || !searchTarget) return;
+    document.getElementById(`member-card-${searchTarget.memberId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+  }, [searchTarget, activeTab]);
+
+  /**
+   * Show the processing overlay for a new research request and return the
+   * options that report its progress and let Cancel abort it.
+   */
+  const startResearch = useCallback((first: ResearchProgress): RequestOptions => {
+    requestRef.current?.abort();
+    const controller = new AbortController();
+    requestRef.current = controller;
+    setIsProcessing(true);
+    setProgress(first);
+    setError(null);
+    return { signal: controller.signal, bypassCache, onProgress: (next) => { if (!controller.signal.aborted) setProgress(next); } };
+  }, [bypassCache]);
+
+  // Hide the overlay, unless the request was cancelled or replaced already.
+  const finishResearch = useCallback((request: RequestOptions) => {
+    if (requestRef.current?.signal !== request.signal) return;
+    requestRef.current = null;
+    setIsProcessing(false);
+    setProgress(null);
+  }, []);
+
+  const cancelResearch = () => {
+    requestRef.current?.abort();
+    requestRef.current = null;
+    setIsProcessing(false);
+    setProgress(null);
+  };
+
   const handleChatSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!chatQuery.trim()) return;
+    if (!chatQuery.trim() || isChatting) return;
 
     const userMessage = chatQuery.trim();
     setChatQuery('');
     setChatHistory(prev => [...prev, { role: 'user', text: userMessage, id: Date.now().toString() }]);
     setIsChatOpen(true);
-    setProcessingStatus('chatting');
+    setIsChatting(true);
+    setChatProgress({ stage: 'searching', message: 'Looking for an answer...' });
+    const controller = new AbortController();
+    chatRequestRef.current = controller;
+    const request: RequestOptions = { signal: controller.signal, bypassCache, onProgress: (next) => { if (!controller.signal.aborted) setChatProgress(next); } };
 
     try {
-      const response = await askGemini(userMessage, extractionResult);
+      const response = await askGemini(userMessage, extractionResult, request);
       setChatHistory(prev => [...prev, { role: 'ai', text: response.text, id: (Date.now() + 1).toString(), sources: response.sources }]);
     } catch (err) {
-      setChatHistory(prev => [...prev, { role: 'ai', text: "Service is busy. Please try that again in a few seconds.", id: (Date.now() + 1).toString() }]);
+      if (!isCancelled(err)) setChatHistory(prev => [...prev, { role: 'ai', text: failureMessage("No answer could be found for this question.", err), id: (Date.now() + 1).toString() }]);
     } finally {
-      setProcessingStatus(null);
+      if (chatRequestRef.current === controller) chatRequestRef.current = null;
+      setIsChatting(false);
+      setChatProgress(null);
     }
   };
 
+  const cancelChat = () => {
+    chatRequestRef.current?.abort();
+  };
+
   const handleMergeChatResult = async (chatId: string, chatText: string) => {
-    setIsProcessing(true);
-    setProcessingStatus('merging');
+    const request = startResearch({ stage: 'extracting', message: 'Adding the answer to the tree...' });
     const chatIndex = chatHistory.findIndex(c => c.id === chatId);
     const userQuery = chatIndex > 0 ? chatHistory[chatIndex - 1].text : "Merge request";
     try {
-      const merged = await mergeChatInfo(extractionResult, chatText, userQuery);
-      setExtractionResult(merged);
-      setActiveTab('tree');
-    } catch (e) {
-      setError("Unable to update the tree with this new information.");
+      const proposed = await mergeChatInfo(extractionResult, chatText, userQuery, chatHistory[chatIndex]?.sources, request);
+      const outcome = mergeExtractionResults(extractionResult, proposed);
+      proposeChanges(extractionResult, outcome.result, 'merge', `Merged answer to "${userQuery}" (${describeMerge(outcome)})`);
+    } catch (err) {
+      if (!isCancelled(err)) setError(failureMessage("Unable to update the tree with this new information.", err));
     } finally {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
     }
   };
 
-  const processLineage = useCallback(async (initialResult: ExtractionResult, direction: 'forward' | 'backward', originalName: string) => {
-    setProcessingStatus('researching');
+  // Second step of a search or upload: widen the first result by one generation.
+  const processLineage = useCallback(async (initialResult: ExtractionResult, direction: 'forward' | 'backward', originalName: string, request: RequestOptions) => {
     try {
       if (!initialResult.members || initialResult.members.length === 0) {
         setError("No verifiable records found for this person.");
         return;
       }
-      const expandedResult = await discoverExtendedFamily(initialResult.members, direction);
+      const subject = findSubject(initialResult.members, originalName);
+      const expandedResult = await discoverExtendedFamily(initialResult.members, direction, subject?.id, withStep(request, 2, 2));
+      const merged = mergeExtractionResults(initialResult, expandedResult).result;
       const finalResult: ExtractionResult = {
-        ...expandedResult,
-        title: expandedResult.title || initialResult.title || `${originalName} Lineage`,
-        sources: [...(initialResult.sources || []), ...(expandedResult.sources || [])]
+        ...merged,
+        title: initialResult.title || expandedResult.title || `${originalName} Lineage`
       };
-      setExtractionResult(finalResult);
-      setActiveTab('tree');
+      proposeChanges(null, finalResult, 'search', `Traced ${direction === 'forward' ? 'heirs' : 'parents'} of ${originalName}`);
     } catch (err: any) {
-      setExtractionResult(initialResult);
-      setActiveTab('tree');
+      if (!isCancelled(err)) proposeChanges(null, initialResult, 'search', `Searched ${originalName}`);
     } finally {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
     }
-  }, []);
+  }, [proposeChanges, finishResearch]);
 
   const handleResearchAncestors = async (memberId?: string) => {
     if (!extractionResult?.members.length) return;
-    setIsProcessing(true);
-    setProcessingStatus('researching');
-    setError(null);
+    const request = startResearch({ stage: 'searching', message: 'Searching public records for ancestors...' });
     try {
-      const expandedResult = await discoverExtendedFamily(extractionResult.members, 'backward', memberId);
-      if (!expandedResult.members.length) throw new Error("No more records.");
-      setExtractionResult(prev => ({
-        ...expandedResult,
-        sources: [...(prev?.sources || []), ...(expandedResult.sources || [])]
-      }));
-      setActiveTab('tree');
+      const expandedResult = await discoverExtendedFamily(extractionResult.members, 'backward', memberId, request);
+      if (!expandedResult.members.length) {
+        setError("No deeper ancestors were found in public records for this profile.");
+        return;
+      }
+      const targetName = (memberId ? extractionResult.members.find(m => m.id === memberId) : findSubject(extractionResult.members))?.name;
+      const outcome = mergeExtractionResults(extractionResult, expandedResult);
+      proposeChanges(extractionResult, outcome.result, 'research', `Researched ancestors of ${targetName} (${describeMerge(outcome)})`);
     } catch (err: any) {
-      setError("No deeper ancestors were found in public records for this profile.");
+      if (!isCancelled(err)) setError(failureMessage("No deeper ancestors were found in public records for this profile.", err));
     } finally {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
+    }
+  };
+
+  /**
+   * Run a research job in the background, one person at a time, until it
+   * ends, is paused after the current person, or is stopped.
+   */
+  const runCrawl = useCallback(async (start: CrawlJob) => {
+    const controller = new AbortController();
+    const control = { controller, pausing: false };
+    crawlRef.current = control;
+    setCrawlPausing(false);
+    const request: RequestOptions = { signal: controller.signal, bypassCache, onProgress: (next) => { if (!controller.signal.aborted) setCrawlProgress(next); } };
+    let job = resumeCrawl(start);
+    while (job.status === 'running') {
+      if (control.pausing) {
+        job = pauseCrawl(job);
+        break;
+      }
+      job = startCrawlTask(job);
+      setCrawl(job);
+      try {
+        job = await runCrawlTask(job, request);
+      } catch (err) {
+        // Stopped: handleStopCrawl has already recorded the job.
+        if (isCancelled(err)) return;
+        throw err;
+      }
+    }
+    if (crawlRef.current !== control) return;
+    crawlRef.current = null;
+    setCrawl(job);
+    setCrawlProgress(null);
+    setCrawlPausing(false);
+  }, [bypassCache]);
+
+  // Start or resume a job; a failure ends it with the reason shown.
+  const launchCrawl = (job: CrawlJob) => {
+    runCrawl(job).catch(err => {
+      crawlRef.current?.controller.abort();
+      crawlRef.current = null;
+      const message = failureMessage("The research job failed.", err);
+      setCrawl(current => current && failCrawl(current, message));
+      setCrawlProgress(null);
+      setCrawlPausing(false);
+      setError(message);
+    });
+  };
+
+  const handleStartCrawl = (options: CrawlOptions) => {
+    if (!extractionResult) return;
+    let job: CrawlJob;
+    try {
+      job = createCrawlJob(extractionResult, options);
+    } catch (err: any) {
+      setError(err.message);
+      return;
     }
+    launchCrawl(job);
+  };
+
+  const handlePauseCrawl = () => {
+    if (!crawlRef.current) return;
+    crawlRef.current.pausing = true;
+    setCrawlPausing(true);
+  };
+
+  const handleStopCrawl = () => {
+    crawlRef.current?.controller.abort();
+    crawlRef.current = null;
+    setCrawl(job => job && stopCrawl(job));
+    setCrawlProgress(null);
+    setCrawlPausing(false);
+  };
+
+  const handleApplyCrawl = () => {
+    if (!crawl || !extractionResult) return;
+    const outcome = mergeExtractionResults(extractionResult, crawlFindings(crawl, extractionResult));
+    const { direction, generations } = crawl.options;
+    proposeChanges(extractionResult, outcome.result, 'research', `Researched ${generations} generation${generations === 1 ? '' : 's'} of ${CRAWL_DIRECTION_LABELS[direction].toLowerCase()} of ${crawl.tasks[0]?.name} (${describeMerge(outcome)})`);
+    setCrawl(null);
+  };
+
+  const openResearchJob = (memberId: string) => {
+    setCrawlRootId(memberId);
+    setSidePanel('research');
   };
 
   const handleInitialSearch = async (direction: 'forward' | 'backward') => {
     if (!inputText.trim()) return;
-    setIsProcessing(true);
-    setProcessingStatus('analyzing');
-    setError(null);
     const searchName = inputText.trim();
+    const request = startResearch({ stage: 'searching', message: `Searching public records for ${searchName}...`, step: { current: 1, total: 2 } });
     try {
-      const result = await extractFamilyData(searchName, 'text');
-      await processLineage(result, direction, searchName);
+      const result = await extractFamilyData(searchName, 'text', undefined, withStep(request, 1, 2));
+      await processLineage(result, direction, searchName, request);
     } catch (err: any) {
-      setError('The search timed out or the records are protected. Try adding a birth year or location to narrow the search.');
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      if (isCancelled(err)) return;
+      setError(failureMessage('The search timed out or the records are protected. Try adding a birth year or location to narrow the search.', err));
+      finishResearch(request);
     }
   };
 
   const handleDeathSearch = async () => {
     if (!inputText.trim()) return;
-    setIsProcessing(true);
-    setProcessingStatus('researching');
-    setError(null);
+    const request = startResearch({ stage: 'searching', message: `Searching death records for ${inputText.trim()}...` });
     try {
-      const result = await researchDeathRecords(inputText);
+      const result = await researchDeathRecords(inputText, request);
       if (!result.members || result.members.length === 0) {
         setError("No death records or obituaries were found for this specific name.");
         return;
       }
-      setExtractionResult(result);
-      setActiveTab('tree');
+      proposeChanges(null, result, 'search', `Death records for ${inputText.trim()}`);
     } catch (err: any) {
-      setError('Record search failed. Our archive connection might be busy.');
+      if (!isCancelled(err)) setError(failureMessage('Record search failed. Our archive connection might be busy.', err));
     } finally {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
     }
   };
 
   const handleUpdateSubmit = async () => {
     if (!updateText.trim() || !extractionResult) return;
-    setIsProcessing(true);
-    setProcessingStatus('updating');
-    setError(null);
+    const request = startResearch({ stage: 'extracting', message: 'Applying your corrections...' });
     try {
-      const result = await updateFamilyData(extractionResult, updateText);
-      setExtractionResult(result);
+      const result = await updateFamilyData(extractionResult, updateText, request);
+      const outcome = mergeExtractionResults(extractionResult, result, { preferIncoming: true, removeMissing: allowRemovals });
+      const summary = updateText.trim().length > 60 ? `${updateText.trim().slice(0, 60)}…` : updateText.trim();
+      proposeChanges(extractionResult, outcome.result, 'update', `${summary} (${describeMerge(outcome)})`);
       setShowUpdateModal(false);
       setUpdateText('');
+      setAllowRemovals(false);
     } catch (err: any) {
-      setError('Failed to update records.');
+      if (!isCancelled(err)) setError(failureMessage('Failed to update records.', err));
     } finally {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
     }
   };
 
@@ -175,7 +566,7 @@ const App: React.FC = () => {
     const element = document.getElementById(targetId);
     if (!element) return;
     setIsProcessing(true);
-    setProcessingStatus('previewing');
+    setProgress({ stage: 'rendering', message: 'Capturing a high-resolution copy of the tree...' });
     try {
       const canvas = await html2canvas(element, { scale: 2, useCORS: true, backgroundColor: '#ffffff' });
       setPreviewImageData(canvas.toDataURL('image/png'));
@@ -184,7 +575,7 @@ const App: React.FC = () => {
       setError("High-resolution capture failed.");
     } finally {
       setIsProcessing(false);
-      setProcessingStatus(null);
+      setProgress(null);
     }
   };
 
@@ -205,20 +596,116 @@ const App: React.FC = () => {
     }
   };
 
-  const processFile = useCallback(async (file: File) => {
-    setIsProcessing(true);
-    setProcessingStatus('analyzing');
+  const exportGedcom = () => {
+    if (!extractionResult) return;
+    try {
+      const blob = new Blob([toGedcom(extractionResult, gedcomVersion)], { type: 'text/plain;charset=utf-8' });
+      const url = URL.createObjectURL(blob);
+      const link = document.createElement('a');
+      link.href = url;
+      link.download = `ancestry-lineage-${Date.now()}.ged`;
+      link.click();
+      URL.revokeObjectURL(url);
+    } catch (e) {
+      setError("GEDCOM export failed.");
+    }
+  };
+
+  const exportSpreadsheet = (format: 'xlsx' | 'csv') => {
+    if (!extractionResult) return;
+    try {
+      downloadSpreadsheet(extractionResult, format);
+    } catch (e) {
+      setError("Spreadsheet export failed.");
+    }
+  };
+
+  const importGedcomFile = useCallback((file: File) => {
+    setError(null);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const result = parseGedcom(e.target?.result as string);
+        if (result.members.length === 0) {
+          setError("This GEDCOM file does not contain any individuals.");
+          return;
+        }
+        startNewProject();
+        commitResult({ ...result, title: result.title || file.name.replace(/\.ged$/i, '') }, 'import', `Imported ${file.name}`);
+        setActiveTab('tree');
+      } catch (err: any) {
+        setError(err?.message || "We couldn't read this GEDCOM file.");
+      }
+    };
+    reader.readAsText(file);
+  }, [startNewProject, commitResult]);
+
+  const importSpreadsheetFile = useCallback((file: File) => {
     setError(null);
+    const reader = new FileReader();
+    reader.onload = (e) => {
+      try {
+        const sheet = readSpreadsheet(e.target?.result as ArrayBuffer);
+        setPendingSheet({ fileName: file.name, sheet, mapping: guessColumnMapping(sheet.headers) });
+      } catch (err: any) {
+        setError(err?.message || "We couldn't read this spreadsheet.");
+      }
+    };
+    reader.readAsArrayBuffer(file);
+  }, []);
+
+  const handleSheetImport = (mapping: ColumnMapping) => {
+    if (!pendingSheet || isFreeFormSheet(pendingSheet.sheet, mapping)) return;
+    const result = buildMembersFromSheet(pendingSheet.sheet, mapping);
+    setPendingSheet(null);
+    if (result.members.length === 0) {
+      setError("No named rows were found in this spreadsheet.");
+      return;
+    }
+    startNewProject();
+    commitResult({ ...result, title: pendingSheet.fileName.replace(/\.[^.]+$/, '') }, 'import', `Imported ${pendingSheet.fileName}`);
+    setActiveTab('tree');
+  };
+
+  const handleSheetAI = async () => {
+    if (!pendingSheet) return;
+    const { fileName, sheet } = pendingSheet;
+    setPendingSheet(null);
+    const request = startResearch({ stage: 'extracting', message: `Interpreting ${fileName}...` });
+    try {
+      const result = await extractFamilyData(sheet.csv, 'spreadsheet', undefined, request);
+      if (!result.members || result.members.length === 0) {
+        setError("The AI could not find any people in this spreadsheet.");
+        return;
+      }
+      proposeChanges(null, { ...result, title: result.title || fileName.replace(/\.[^.]+$/, '') }, 'import', `AI-interpreted ${fileName}`);
+    } catch (err) {
+      if (!isCancelled(err)) setError(failureMessage("Spreadsheet analysis failed.", err));
+    } finally {
+      finishResearch(request);
+    }
+  };
+
+  const processFile = useCallback(async (file: File) => {
+    if (/\.ged$/i.test(file.name)) {
+      importGedcomFile(file);
+      return;
+    }
+    if (/\.(xlsx|xls|csv)$/i.test(file.name)) {
+      importSpreadsheetFile(file);
+      return;
+    }
+    const request = startResearch({ stage: 'extracting', message: `Reading ${file.name}...`, step: { current: 1, total: 2 } });
     try {
       const reader = new FileReader();
       reader.onload = async (e) => {
         try {
-          const result = await extractFamilyData(e.target?.result as string, file.type === 'application/pdf' ? 'image' : 'image', file.type);
-          await processLineage(result, 'forward', file.name);
+          const result = await extractFamilyData(e.target?.result as string, file.type === 'application/pdf' ? 'image' : 'image', file.type, withStep(request, 1, 2));
+          await processLineage(result, 'forward', file.name, request);
         } catch (err) {
-          setError("We couldn't read this document. Please ensure it is a clear image or PDF file.");
-          setIsProcessing(false);
-          setProcessingStatus(null);
+          if (isCancelled(err)) return;
+          setError(failureMessage("We couldn't read this document. Please ensure it is a clear image or PDF file.", err));
+          finishResearch(request);
         }
       };
       if (file.type === 'application/pdf' || file.type.startsWith('image/')) {
@@ -227,10 +714,9 @@ const App: React.FC = () => {
         reader.readAsText(file);
       }
     } catch (err) {
-      setIsProcessing(false);
-      setProcessingStatus(null);
+      finishResearch(request);
     }
-  }, [processLineage]);
+  }, [processLineage, importGedcomFile, importSpreadsheetFile, startResearch, finishResearch]);
 
   return (
     <div className="min-h-screen bg-slate-50 flex flex-col pb-24">
@@ -249,7 +735,7 @@ const App: React.FC = () => {
           <button onClick={() => extractionResult && setActiveTab('tree')} disabled={!extractionResult} className={`px-4 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'tree' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'} disabled:opacity-30`}>Tree</button>
           <button onClick={() => extractionResult && setActiveTab('list')} disabled={!extractionResult} className={`px-4 py-1.5 rounded-md text-sm font-bold transition-all ${activeTab === 'list' ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-500'} disabled:opacity-30`}>List</button>
         </nav>
-        <button onClick={() => { if (window.confirm("Start over?")) { setExtractionResult(null); setInputText(''); setActiveTab('upload'); setChatHistory([]); setError(null); } }} className="text-slate-300 hover:text-rose-500 p-2"><i className="fas fa-redo-alt"></i></button>
+        <button onClick={() => { if (window.confirm("Start over? The current tree stays in Saved Trees.")) { startNewProject(); setInputText(''); setActiveTab('upload'); setError(null); } }} className="text-slate-300 hover:text-rose-500 p-2"><i className="fas fa-redo-alt"></i></button>
       </header>
 
       <main className={`flex-1 p-6 ${activeTab === 'upload' ? 'max-w-7xl mx-auto' : 'w-full'} flex flex-col`}>
@@ -289,10 +775,27 @@ const App: React.FC = () => {
                   className={`flex flex-col items-center justify-center w-full h-44 border-2 border-dashed rounded-3xl cursor-pointer transition-all ${isDragging ? 'bg-indigo-50 border-indigo-500' : 'bg-white border-slate-200 hover:bg-slate-50'}`}
                 >
                   <i className="fas fa-cloud-arrow-up text-3xl mb-4 text-slate-300"></i>
-                  <p className="text-sm text-slate-600 font-bold">Drop Family Records or PDF here</p>
-                  <input type="file" className="hidden" accept="image/*,application/pdf" onChange={(e) => { const file = e.target.files?.[0]; if (file) processFile(file); }} />
+                  <p className="text-sm text-slate-600 font-bold">Drop Family Records, PDF or Spreadsheet here</p>
+                  <input type="file" className="hidden" accept="image/*,application/pdf,.xlsx,.xls,.csv" onChange={(e) => { const file = e.target.files?.[0]; if (file) processFile(file); }} />
+                </label>
+                <label className="mt-4 flex items-center justify-center gap-3 w-full py-4 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-2xl cursor-pointer text-sm font-black text-slate-600 transition-all">
+                  <i className="fas fa-file-import text-indigo-600"></i> Import GEDCOM (.ged)
+                  <input type="file" className="hidden" accept=".ged" onChange={(e) => { const file = e.target.files?.[0]; if (file) importGedcomFile(file); e.target.value = ''; }} />
                 </label>
               </div>
+              <ProjectPicker
+                projects={projects}
+                currentProjectId={currentProjectId}
+                onOpen={openProject}
+                onDuplicate={handleDuplicateProject}
+                onRename={handleRenameProject}
+                onDelete={handleDeleteProject}
+              />
+              <AiSettingsPanel
+                settings={aiSettings}
+                onChange={(settings) => { setAiSettings(settings); saveAiSettings(settings); }}
+              />
+              <CachePanel bypass={bypassCache} onBypassChange={setBypassCache} />
             </div>
             <div className="lg:col-span-2 bg-indigo-600 rounded-[4rem] p-12 text-white flex flex-col justify-center shadow-2xl relative overflow-hidden">
               <div className="absolute top-0 right-0 p-12 opacity-10 rotate-12"><i className="fas fa-dna text-[12rem]"></i></div>
@@ -311,19 +814,62 @@ const App: React.FC = () => {
                 <p className="text-lg text-slate-500 font-medium">Record Analysis</p>
               </div>
               <div className="flex gap-4">
-                <button onClick={() => setShowUpdateModal(true)} className="px-8 py-4 bg-indigo-50 text-indigo-700 rounded-2xl text-sm font-black hover:bg-indigo-100 transition-all flex items-center gap-3"><i className="fas fa-edit"></i> Edit</button>
+                <div className="flex items-center bg-white border border-slate-200 rounded-2xl overflow-hidden">
+                  <button onClick={() => setHistory(undo)} disabled={!canUndo(history)} className="px-5 py-4 text-slate-500 hover:bg-slate-50 disabled:opacity-30" title="Undo (Ctrl+Z)"><i className="fas fa-undo"></i></button>
+                  <button onClick={() => setHistory(redo)} disabled={!canRedo(history)} className="px-5 py-4 text-slate-500 hover:bg-slate-50 disabled:opacity-30" title="Redo (Ctrl+Shift+Z)"><i className="fas fa-redo"></i></button>
+                  <button onClick={() => setSidePanel(p => p === 'history' ? null : 'history')} className={`px-5 py-4 hover:bg-slate-50 ${sidePanel === 'history' ? 'text-indigo-600' : 'text-slate-500'}`} title="History"><i className="fas fa-stream"></i></button>
+                  <button onClick={() => setSidePanel(p => p === 'integrity' ? null : 'integrity')} className={`px-5 py-4 hover:bg-slate-50 flex items-center gap-2 ${integrityIssues.length > 0 ? 'text-amber-500' : (sidePanel === 'integrity' ? 'text-indigo-600' : 'text-slate-500')}`} title="Tree Integrity">
+                    <i className={`fas ${integrityIssues.length > 0 ? 'fa-exclamation-triangle' : 'fa-shield-alt'}`}></i>
+                    {integrityIssues.length > 0 && <span className="text-xs font-black">{integrityIssues.length}</span>}
+                  </button>
+                  <button onClick={() => setSidePanel(p => p === 'heirship' ? null : 'heirship')} className={`px-5 py-4 hover:bg-slate-50 ${sidePanel === 'heirship' ? 'text-indigo-600' : 'text-slate-500'}`} title="Heirship"><i className="fas fa-balance-scale"></i></button>
+                  <button onClick={() => setSidePanel(p => p === 'research' ? null : 'research')} className={`px-5 py-4 hover:bg-slate-50 ${sidePanel === 'research' || crawl?.status === 'running' ? 'text-indigo-600' : 'text-slate-500'}`} title="Research Job"><i className={`fas ${crawl?.status === 'running' ? 'fa-circle-notch fa-spin' : 'fa-project-diagram'}`}></i></button>
+                </div>
+                <button onClick={() => openMemberEditor()} className="px-8 py-4 bg-white border border-slate-200 rounded-2xl text-sm font-black hover:bg-slate-50 transition-all flex items-center gap-3"><i className="fas fa-user-plus text-indigo-500"></i> Add Person</button>
+                <button onClick={() => setShowUpdateModal(true)} className="px-8 py-4 bg-indigo-50 text-indigo-700 rounded-2xl text-sm font-black hover:bg-indigo-100 transition-all flex items-center gap-3"><i className="fas fa-magic"></i> AI Refine</button>
                 <button onClick={generatePDFPreview} disabled={isProcessing} className="px-8 py-4 bg-white border border-slate-200 rounded-2xl text-sm font-black hover:bg-slate-50 transition-all flex items-center gap-3"><i className="fas fa-file-pdf text-rose-500"></i> Save PDF</button>
+                {activeTab === 'list' && (
+                  <>
+                    <button onClick={() => exportSpreadsheet('xlsx')} className="px-8 py-4 bg-white border border-slate-200 rounded-2xl text-sm font-black hover:bg-slate-50 transition-all flex items-center gap-3"><i className="fas fa-file-excel text-emerald-600"></i> Excel</button>
+                    <button onClick={() => exportSpreadsheet('csv')} title="Members with their parents and partners. Events and citations are only in the Excel export." className="px-8 py-4 bg-white border border-slate-200 rounded-2xl text-sm font-black hover:bg-slate-50 transition-all flex items-center gap-3"><i className="fas fa-file-csv text-slate-500"></i> CSV (members only)</button>
+                  </>
+                )}
+                <div className="flex items-center bg-white border border-slate-200 rounded-2xl overflow-hidden">
+                  <button onClick={exportGedcom} className="pl-8 pr-4 py-4 text-sm font-black hover:bg-slate-50 transition-all flex items-center gap-3"><i className="fas fa-file-export text-emerald-500"></i> GEDCOM</button>
+                  <select value={gedcomVersion} onChange={(e) => setGedcomVersion(e.target.value as GedcomVersion)} className="pr-4 py-4 bg-transparent text-xs font-black text-slate-500 outline-none">
+                    <option value="5.5.1">5.5.1</option>
+                    <option value="7.0">7.0</option>
+                  </select>
+                </div>
               </div>
             </div>
+            {extractionResult && (
+              <MemberSearchBar
+                members={extractionResult.members}
+                query={searchQuery}
+                onQueryChange={setSearchQuery}
+                results={searchResults}
+                onJump={(memberId) => setSearchTarget({ memberId, at: Date.now() })}
+                filters={memberFilters}
+                onFiltersChange={setMemberFilters}
+                filteredOutCount={filteredOut.size}
+              />
+            )}
             <div id="tree-capture-area" className="w-full">
-               {activeTab === 'tree' && extractionResult && <TreeVisualization members={extractionResult.members} onResearchAncestors={handleResearchAncestors} />}
+               {activeTab === 'tree' && extractionResult && <TreeVisualization members={extractionResult.members} onResearchAncestors={handleResearchAncestors} onTraceGenerations={openResearchJob} onEditMember={openMemberEditor} warnings={dateWarnings} places={extractionResult.places} onSaveEvent={handleSaveEvent} onDeleteEvent={handleDeleteEvent} sources={extractionResult.sources} onSaveCitation={handleSaveCitation} onDeleteCitation={handleDeleteCitation} onSetHomePerson={handleSetHomePerson} searchMatches={searchMatchIds} filteredOut={filteredOut} filterMode={memberFilters.mode} jumpTo={searchTarget} />}
                {activeTab === 'list' && (
                  <div id="list-capture-area" className="bg-white rounded-[3rem] p-12 border border-slate-100 shadow-sm grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-8">
-                    {extractionResult?.members.map(m => (
-                      <div key={m.id} className="p-8 rounded-[2rem] border-2 border-slate-50 bg-slate-50/50">
+                    {extractionResult?.members.filter(m => memberFilters.mode !== 'hide' || !filteredOut.has(m.id)).map(m => (
+                      <div key={m.id} id={`member-card-${m.id}`} className={`relative p-8 rounded-[2rem] border-2 bg-slate-50/50 transition-all ${searchTarget?.memberId === m.id ? 'border-indigo-400' : 'border-slate-50'} ${searchMatchIds.has(m.id) ? 'ring-4 ring-amber-300/60' : ''} ${filteredOut.has(m.id) ? 'opacity-30' : ''}`}>
+                        <button onClick={() => openMemberEditor(m.id)} data-html2canvas-ignore="true" className="absolute top-6 right-6 w-9 h-9 rounded-xl text-slate-300 hover:text-indigo-600 hover:bg-white transition-all" title="Edit"><i className="fas fa-pen"></i></button>
                         <h4 className="text-xl font-black text-slate-800 mb-2">{m.name}</h4>
                         <p className="text-xs font-black text-indigo-600 uppercase tracking-widest mb-4">{m.relationship || 'Relative'}</p>
-                        <p className="text-sm font-medium text-slate-500">{m.birthYear || '????'} — {m.deathYear || 'Now'}</p>
+                        <p className="text-sm font-medium text-slate-500">{displayDate(m, 'birth') || '????'} — {displayDate(m, 'death') || 'Now'}</p>
+                        {dateWarnings[m.id]?.map((w, i) => (
+                          <p key={i} className={`mt-3 text-xs font-bold ${w.severity === 'error' ? 'text-rose-600' : 'text-amber-600'}`}>
+                            <i className="fas fa-exclamation-triangle mr-2"></i>{w.message}
+                          </p>
+                        ))}
                       </div>
                     ))}
                  </div>
@@ -346,6 +892,12 @@ const App: React.FC = () => {
                   )}
                 </div>
               ))}
+              {chatProgress && (
+                <div className="flex items-center gap-3 text-xs font-bold text-slate-400">
+                  <i className="fas fa-circle-notch fa-spin text-indigo-500"></i>
+                  <span>{PROGRESS_STAGE_LABELS[chatProgress.stage]}: {chatProgress.message}</span>
+                </div>
+              )}
               <div ref={chatEndRef} />
             </div>
           </div>
@@ -353,16 +905,22 @@ const App: React.FC = () => {
         <form onSubmit={handleChatSubmit} className="relative flex items-center">
           <input type="text" className="w-full h-16 pl-14 pr-24 bg-white border-2 border-indigo-50 rounded-full shadow-2xl outline-none focus:border-indigo-500 text-slate-700 font-bold" placeholder="Ask about record links or ancestors..." value={chatQuery} onChange={(e) => setChatQuery(e.target.value)} />
           <div className="absolute left-6 text-indigo-500"><i className="fas fa-sparkles"></i></div>
-          <button type="submit" className="absolute right-2 h-12 px-6 bg-indigo-600 text-white rounded-full font-black text-xs uppercase tracking-widest disabled:opacity-50" disabled={!chatQuery.trim() || processingStatus === 'chatting'}>Ask</button>
+          {isChatting
+            ? <button type="button" onClick={cancelChat} className="absolute right-2 h-12 px-6 bg-slate-100 hover:bg-rose-50 hover:text-rose-600 text-slate-500 rounded-full font-black text-xs uppercase tracking-widest transition-all">Stop</button>
+            : <button type="submit" className="absolute right-2 h-12 px-6 bg-indigo-600 text-white rounded-full font-black text-xs uppercase tracking-widest disabled:opacity-50" disabled={!chatQuery.trim()}>Ask</button>}
         </form>
       </div>
 
-      {isProcessing && !showPreview && processingStatus !== 'chatting' && (
+      {isProcessing && !showPreview && (
         <div className="fixed inset-0 bg-slate-900/80 backdrop-blur z-[100] flex items-center justify-center p-6">
           <div className="bg-white p-20 rounded-[4rem] text-center max-w-lg w-full">
             <div className="w-24 h-24 border-8 border-indigo-600 border-t-transparent rounded-full animate-spin mx-auto mb-10"></div>
-            <h3 className="text-3xl font-black text-slate-900 mb-4">Searching Archives</h3>
-            <p className="text-slate-500 font-medium">Tracing global records. Please stay on this page...</p>
+            {progress?.step && <p className="text-[10px] font-black text-indigo-500 uppercase tracking-widest mb-2">Step {progress.step.current} of {progress.step.total}</p>}
+            <h3 className="text-3xl font-black text-slate-900 mb-4">{progress ? PROGRESS_STAGE_LABELS[progress.stage] : 'Searching Archives'}</h3>
+            <p className="text-slate-500 font-medium">{progress?.message || 'Tracing global records. Please stay on this page...'}</p>
+            {progress?.stage !== 'rendering' && (
+              <button onClick={cancelResearch} className="mt-10 px-8 py-3 bg-slate-100 hover:bg-rose-50 hover:text-rose-600 text-slate-500 rounded-2xl text-sm font-black transition-all">Cancel</button>
+            )}
           </div>
         </div>
       )}
@@ -371,7 +929,11 @@ const App: React.FC = () => {
         <div className="fixed inset-0 bg-slate-900/80 backdrop-blur z-[100] flex items-center justify-center p-6">
           <div className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-2xl w-full">
             <h3 className="text-3xl font-black text-slate-900 mb-8">Refine Tree</h3>
-            <textarea className="w-full h-48 p-6 bg-slate-50 border border-slate-200 rounded-3xl outline-none text-lg mb-8" placeholder="Correct names, add dates, or describe changes..." value={updateText} onChange={(e) => setUpdateText(e.target.value)} />
+            <textarea className="w-full h-48 p-6 bg-slate-50 border border-slate-200 rounded-3xl outline-none text-lg mb-4" placeholder="Correct names, add dates, or describe changes..." value={updateText} onChange={(e) => setUpdateText(e.target.value)} />
+            <label className="flex items-center gap-3 mb-8 text-sm font-bold text-slate-500 cursor-pointer">
+              <input type="checkbox" checked={allowRemovals} onChange={(e) => setAllowRemovals(e.target.checked)} className="w-4 h-4 accent-rose-500" />
+              Allow this update to remove people from the tree
+            </label>
             <div className="flex gap-4">
               <button onClick={() => setShowUpdateModal(false)} className="flex-1 py-4 font-black text-slate-500">Cancel</button>
               <button onClick={handleUpdateSubmit} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl">Apply Updates</button>
@@ -380,6 +942,87 @@ const App: React.FC = () => {
         </div>
       )}
 
+      {sidePanel === 'history' && activeTab !== 'upload' && (
+        <HistoryPanel
+          history={history}
+          onJump={(id) => setHistory(prev => jumpTo(prev, id))}
+          onUndo={() => setHistory(undo)}
+          onRedo={() => setHistory(redo)}
+          onSaveSnapshot={handleSaveSnapshot}
+          onRestoreSnapshot={(id) => setHistory(prev => restoreSnapshot(prev, id))}
+          onDeleteSnapshot={(id) => setHistory(prev => removeSnapshot(prev, id))}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'integrity' && activeTab !== 'upload' && (
+        <IntegrityPanel
+          issues={integrityIssues}
+          onFix={handleRepair}
+          onSelectMember={openMemberEditor}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'heirship' && activeTab !== 'upload' && extractionResult && (
+        <HeirshipPanel
+          members={extractionResult.members}
+          estateInfo={extractionResult.estateInfo}
+          onSelectMember={openMemberEditor}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {sidePanel === 'research' && activeTab !== 'upload' && extractionResult && (
+        <ResearchJobPanel
+          members={extractionResult.members}
+          job={crawl}
+          progress={crawlProgress}
+          pausing={crawlPausing}
+          rootId={crawlRootId}
+          onStart={handleStartCrawl}
+          onPause={handlePauseCrawl}
+          onResume={() => crawl && launchCrawl(crawl)}
+          onCancel={handleStopCrawl}
+          onApply={handleApplyCrawl}
+          onDiscard={discardCrawl}
+          onSelectMember={openMemberEditor}
+          onClose={() => setSidePanel(null)}
+        />
+      )}
+
+      {editingMember && extractionResult && (
+        <MemberEditorModal
+          member={editingMember.member}
+          members={extractionResult.members}
+          isNew={editingMember.isNew}
+          onSave={handleSaveMember}
+          onDelete={handleDeleteMember}
+          onCancel={() => setEditingMember(null)}
+        />
+      )}
+
+      {pendingReview && (
+        <ReviewChangesModal
+          title={pendingReview.label}
+          diff={pendingReview.diff}
+          members={[...(pendingReview.base?.members || []), ...pendingReview.proposed.members]}
+          onApply={handleApplyReview}
+          onCancel={() => setPendingReview(null)}
+        />
+      )}
+
+      {pendingSheet && (
+        <ColumnMappingModal
+          fileName={pendingSheet.fileName}
+          sheet={pendingSheet.sheet}
+          initialMapping={pendingSheet.mapping}
+          onImport={handleSheetImport}
+          onUseAI={handleSheetAI}
+          onCancel={() => setPendingSheet(null)}
+        />
+      )}
+
       {showPreview && previewImageData && (
         <div className="fixed inset-0 bg-slate-900/90 backdrop-blur z-[100] flex items-center justify-center p-10">
           <div className="bg-white rounded-[4rem] max-w-7xl w-full max-h-full flex flex-col overflow-hidden">
@@ -0,0 +1,66 @@
+import React from 'react';
+import { AI_PROVIDER_LABELS, AI_TASK_LABELS, AiProviderId, AiSettings, AiTask, defaultAiSettings } from '../services/aiProvider';
+
+interface AiSettingsPanelProps {
+  settings: AiSettings;
+  onChange: (settings: AiSettings) => void;
+}
+
+const inputClass = "w-full px-4 py-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-sm font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+const AiSettingsPanel: React.FC<AiSettingsPanelProps> = ({ settings, onChange }) => {
+  const setModel = (task: AiTask, model: string) => onChange({ ...settings, models: { ...settings.models, [task]: model } });
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <i className="fas fa-microchip text-indigo-600"></i> AI Provider
+      </h2>
+      <div className="flex bg-slate-50 border border-slate-200 rounded-2xl p-1 mb-6">
+        {(Object.keys(AI_PROVIDER_LABELS) as AiProviderId[]).map(id => (
+          <button
+            key={id}
+            onClick={() => id !== settings.provider && onChange(defaultAiSettings(id))}
+            className={`flex-1 px-3 py-2 rounded-xl text-xs font-black transition-all ${settings.provider === id ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}
+          >
+            {AI_PROVIDER_LABELS[id]}
+          </button>
+        ))}
+      </div>
+
+      {settings.provider === 'mock' ? (
+        <p className="text-sm text-slate-400 font-medium">Answers come from built-in fixtures, with no network or key. Search for "Abraham Lincoln" or upload any image to try it.</p>
+      ) : (
+        <div className="space-y-4">
+          {settings.provider === 'openai' && (
+            <label className="block">
+              <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">Server URL</span>
+              <input type="text" value={settings.baseUrl || ''} onChange={(e) => onChange({ ...settings, baseUrl: e.target.value })} className={inputClass} placeholder="http://localhost:11434/v1" />
+            </label>
+          )}
+          <label className="block">
+            <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">API Key</span>
+            <input
+              type="password"
+              value={settings.apiKey || ''}
+              onChange={(e) => onChange({ ...settings, apiKey: e.target.value || undefined })}
+              className={inputClass}
+              placeholder={settings.provider === 'gemini' ? 'Uses GEMINI_API_KEY from .env.local' : 'Not needed for most local servers'}
+            />
+          </label>
+          <div className="grid grid-cols-2 gap-4">
+            {(Object.keys(AI_TASK_LABELS) as AiTask[]).map(task => (
+              <label key={task} className="block">
+                <span className="block text-[10px] font-black text-slate-400 uppercase tracking-widest mb-2">{AI_TASK_LABELS[task]}</span>
+                <input type="text" value={settings.models[task]} onChange={(e) => setModel(task, e.target.value)} className={inputClass} />
+              </label>
+            ))}
+          </div>
+          {settings.provider === 'openai' && <p className="text-xs text-slate-400 font-medium">These servers have no web search, so research uses the model's own knowledge and cites no sources.</p>}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AiSettingsPanel;
@@ -0,0 +1,75 @@
+import React, { useCallback, useEffect, useState } from 'react';
+import { CACHE_KIND_LABELS, CacheEntry, clearCache, deleteCacheEntry, listCacheEntries, pruneCache } from '../services/cacheService';
+
+interface CachePanelProps {
+  bypass: boolean;
+  onBypassChange: (bypass: boolean) => void;
+}
+
+const formatSize = (chars: number) => chars < 1024 ? `${chars} B` : `${(chars / 1024).toFixed(1)} KB`;
+
+const CachePanel: React.FC<CachePanelProps> = ({ bypass, onBypassChange }) => {
+  const [entries, setEntries] = useState<CacheEntry[]>([]);
+  const [unavailable, setUnavailable] = useState(false);
+
+  const refresh = useCallback(() => {
+    listCacheEntries()
+      .then(list => { setEntries(list); setUnavailable(false); })
+      .catch(() => setUnavailable(true));
+  }, []);
+
+  useEffect(() => { refresh(); }, [refresh]);
+
+  const run = (action: () => Promise<unknown>) => action().then(refresh, refresh);
+  const now = Date.now();
+  const expired = entries.filter(e => e.expiresAt <= now).length;
+  const totalSize = entries.reduce((sum, e) => sum + e.size, 0);
+  const hits = entries.reduce((sum, e) => sum + e.hits, 0);
+
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
+      <div className="flex items-center justify-between mb-6">
+        <h2 className="text-xl font-bold text-slate-800 flex items-center gap-3">
+          <i className="fas fa-database text-indigo-600"></i> Response Cache
+        </h2>
+        <button onClick={refresh} className="w-9 h-9 rounded-xl text-slate-400 hover:bg-slate-50 hover:text-indigo-600 transition-all" title="Refresh"><i className="fas fa-sync-alt"></i></button>
+      </div>
+      <label className="flex items-center gap-3 mb-6 text-sm font-bold text-slate-500 cursor-pointer">
+        <input type="checkbox" checked={bypass} onChange={(e) => onBypassChange(e.target.checked)} className="w-4 h-4 accent-indigo-600" />
+        Bypass the cache: always ask the model, and save the fresh answers
+      </label>
+
+      {unavailable ? (
+        <p className="text-sm text-slate-400 font-medium">This browser does not allow the cache to be stored, so every search goes to the model.</p>
+      ) : entries.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">Search and extraction answers are kept here, so repeating research is instant and free.</p>
+      ) : (
+        <>
+          <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-4">
+            {entries.length} answers · {formatSize(totalSize)} · {hits} reused{expired > 0 ? ` · ${expired} expired` : ''}
+          </p>
+          <ul className="space-y-3 max-h-80 overflow-y-auto custom-scrollbar">
+            {entries.map(e => (
+              <li key={e.key} className={`flex items-start gap-4 p-4 rounded-2xl border-2 border-slate-50 bg-slate-50/50 ${e.expiresAt <= now ? 'opacity-50' : ''}`}>
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs font-bold text-slate-700 truncate" title={e.summary}>{e.summary}</p>
+                  <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-1">
+                    {CACHE_KIND_LABELS[e.kind]} · {e.model} · {new Date(e.createdAt).toLocaleString()} · {e.hits} hits · {formatSize(e.size)}
+                  </p>
+                  <p className="text-[10px] font-bold text-slate-400 mt-1">{e.expiresAt <= now ? 'Expired' : `Expires ${new Date(e.expiresAt).toLocaleDateString()}`}</p>
+                </div>
+                <button onClick={() => run(() => deleteCacheEntry(e.key))} className="w-9 h-9 rounded-xl text-slate-400 hover:bg-white hover:text-rose-500 transition-all" title="Forget this answer"><i className="fas fa-trash"></i></button>
+              </li>
+            ))}
+          </ul>
+          <div className="mt-6 flex gap-3">
+            {expired > 0 && <button onClick={() => run(pruneCache)} className="flex-1 py-3 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all">Remove Expired</button>}
+            <button onClick={() => { if (window.confirm("Forget all cached answers?")) run(clearCache); }} className="flex-1 py-3 bg-slate-50 hover:bg-rose-50 hover:text-rose-600 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all">Clear Cache</button>
+          </div>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default CachePanel;
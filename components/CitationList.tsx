@@ -0,0 +1,130 @@
+import React, { useState } from 'react';
+import { Citation, CitationQuality, CitedField, FamilyMember, GroundingSource } from '../types';
+import { CITATION_QUALITIES, CITED_FIELDS, citedFieldLabel, createCitationId, qualityLabel } from '../services/citationService';
+import { eventLabel } from '../services/eventService';
+import { formatDate } from '../services/dateService';
+
+interface CitationListProps {
+  member: FamilyMember;
+  sources: GroundingSource[];
+  onSave: (citation: Citation, newSource?: GroundingSource) => void;
+  onDelete: (citationId: string) => void;
+}
+
+interface CitationDraft {
+  // "event:<id>" for a specific event, otherwise a CitedField.
+  target: string;
+  sourceId: string;
+  newTitle: string;
+  newUri: string;
+  quality: CitationQuality | '';
+  page: string;
+  excerpt: string;
+}
+
+const NEW_SOURCE = '__new';
+
+const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-xs font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+const CitationList: React.FC<CitationListProps> = ({ member, sources, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<CitationDraft | null>(null);
+  const citations = member.citations || [];
+  const events = member.events || [];
+
+  const factLabel = (c: Citation) => {
+    const event = c.field === 'event' ? events.find(e => e.id === c.eventId) : undefined;
+    return event ? [eventLabel(event.type), formatDate(event.date)].filter(Boolean).join(' ') : citedFieldLabel(c.field);
+  };
+
+  const startAdd = () => setDraft({
+    target: 'general',
+    sourceId: sources[0]?.id || NEW_SOURCE,
+    newTitle: '',
+    newUri: '',
+    quality: '',
+    page: '',
+    excerpt: ''
+  });
+
+  const set = <K extends keyof CitationDraft>(key: K, value: CitationDraft[K]) => setDraft(prev => prev && { ...prev, [key]: value });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const isNew = draft.sourceId === NEW_SOURCE;
+    if (isNew && !draft.newTitle.trim() && !draft.newUri.trim()) return;
+    const [field, eventId] = draft.target.startsWith('event:') ? ['event' as CitedField, draft.target.slice(6)] : [draft.target as CitedField, undefined];
+    const citation: Citation = { id: createCitationId(), sourceId: isNew ? '' : draft.sourceId, field };
+    if (eventId) citation.eventId = eventId;
+    if (draft.quality) citation.quality = draft.quality;
+    if (draft.page.trim()) citation.page = draft.page.trim();
+    if (draft.excerpt.trim()) citation.excerpt = draft.excerpt.trim();
+    onSave(citation, isNew ? { title: draft.newTitle.trim() || draft.newUri.trim(), uri: draft.newUri.trim() } : undefined);
+    setDraft(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Sources</label>
+        {!draft && <button onClick={startAdd} className="text-[10px] font-black bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full hover:bg-indigo-100 transition-all"><i className="fas fa-plus mr-1"></i> Cite</button>}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="space-y-2 p-4 mb-3 border-2 border-indigo-100 rounded-2xl">
+          <select value={draft.target} onChange={(e) => set('target', e.target.value)} className={inputClass}>
+            {CITED_FIELDS.filter(f => f.field !== 'event').map(f => <option key={f.field} value={f.field}>{f.label}</option>)}
+            {events.filter(e => e.type !== 'birth' && e.type !== 'death').map(e => (
+              <option key={e.id} value={`event:${e.id}`}>{[eventLabel(e.type), formatDate(e.date)].filter(Boolean).join(' ')}</option>
+            ))}
+          </select>
+          <select value={draft.sourceId} onChange={(e) => set('sourceId', e.target.value)} className={inputClass}>
+            {sources.map(s => <option key={s.id} value={s.id}>{s.title || s.uri}</option>)}
+            <option value={NEW_SOURCE}>New source...</option>
+          </select>
+          {draft.sourceId === NEW_SOURCE && (
+            <>
+              <input type="text" value={draft.newTitle} onChange={(e) => set('newTitle', e.target.value)} placeholder="Title, e.g. 1880 US Census" className={inputClass} />
+              <input type="url" value={draft.newUri} onChange={(e) => set('newUri', e.target.value)} placeholder="Link (optional)" className={inputClass} />
+            </>
+          )}
+          <select value={draft.quality} onChange={(e) => set('quality', e.target.value as CitationQuality | '')} className={inputClass}>
+            <option value="">Quality not assessed</option>
+            {CITATION_QUALITIES.map(q => <option key={q.quality} value={q.quality}>{q.label}</option>)}
+          </select>
+          <input type="text" value={draft.page} onChange={(e) => set('page', e.target.value)} placeholder="Page, e.g. Roll 123, p. 4, line 12" className={inputClass} />
+          <textarea value={draft.excerpt} onChange={(e) => set('excerpt', e.target.value)} placeholder="Excerpt or transcription" rows={2} className={inputClass} />
+          <div className="flex gap-2 pt-1">
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 py-2 bg-slate-50 rounded-xl text-xs font-black text-slate-500 hover:bg-slate-100">Cancel</button>
+            <button type="submit" className="flex-1 py-2 bg-indigo-600 rounded-xl text-xs font-black text-white hover:bg-indigo-700">Save</button>
+          </div>
+        </form>
+      )}
+
+      <ul className="space-y-2">
+        {citations.map(c => {
+          const source = sources.find(s => s.id === c.sourceId);
+          return (
+            <li key={c.id} className="group flex gap-3 p-3 bg-slate-50 rounded-2xl">
+              <i className="fas fa-book text-indigo-400 w-4 mt-1"></i>
+              <div className="flex-1 min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{factLabel(c)}{c.quality ? ` · ${qualityLabel(c.quality)}` : ''}</p>
+                {source?.uri
+                  ? <a href={source.uri} target="_blank" rel="noreferrer" className="text-xs font-bold text-indigo-600 hover:underline break-words">{source.title || source.uri}</a>
+                  : <p className="text-xs font-bold text-slate-700">{source?.title || 'Unknown source'}</p>}
+                {c.page && <p className="text-[10px] text-slate-500">{c.page}</p>}
+                {c.excerpt && <p className="text-[10px] text-slate-400 italic">"{c.excerpt}"</p>}
+              </div>
+              {!draft && (
+                <button onClick={() => onDelete(c.id)} className="w-6 h-6 text-slate-400 hover:text-rose-500 opacity-0 group-hover:opacity-100 transition-all" title="Remove"><i className="fas fa-trash text-[10px]"></i></button>
+              )}
+            </li>
+          );
+        })}
+        {citations.length === 0 && !draft && <li className="text-xs text-slate-400 font-medium">No sources cited.</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default CitationList;
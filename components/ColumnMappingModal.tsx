@@ -0,0 +1,78 @@
+import React, { useState } from 'react';
+import { COLUMN_FIELDS, ColumnField, ColumnMapping, SheetData, isFreeFormSheet } from '../services/spreadsheetService';
+
+interface ColumnMappingModalProps {
+  fileName: string;
+  sheet: SheetData;
+  initialMapping: ColumnMapping;
+  onImport: (mapping: ColumnMapping) => void;
+  onUseAI: () => void;
+  onCancel: () => void;
+}
+
+const ColumnMappingModal: React.FC<ColumnMappingModalProps> = ({ fileName, sheet, initialMapping, onImport, onUseAI, onCancel }) => {
+  const [mapping, setMapping] = useState<ColumnMapping>(initialMapping);
+  const freeForm = isFreeFormSheet(sheet, mapping);
+
+  const setField = (field: ColumnField, value: string) => {
+    setMapping(prev => ({ ...prev, [field]: value === '' ? undefined : parseInt(value, 10) }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur z-[100] flex items-center justify-center p-6">
+      <div className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-3xl w-full max-h-full overflow-y-auto custom-scrollbar">
+        <h3 className="text-3xl font-black text-slate-900 mb-2">Map Columns</h3>
+        <p className="text-sm text-slate-500 font-medium mb-8">{fileName} · {sheet.rows.length} rows</p>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-4 mb-8">
+          {COLUMN_FIELDS.map(({ field, label }) => (
+            <label key={field} className="block">
+              <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">{label}</span>
+              <select
+                value={mapping[field] ?? ''}
+                onChange={(e) => setField(field, e.target.value)}
+                className="w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-sm font-bold text-slate-700"
+              >
+                <option value="">— Not in sheet —</option>
+                {sheet.headers.map((header, index) => (
+                  <option key={index} value={index}>{header || `Column ${index + 1}`}</option>
+                ))}
+              </select>
+            </label>
+          ))}
+        </div>
+
+        {sheet.rows.length > 0 && (
+          <div className="overflow-x-auto mb-8 border border-slate-100 rounded-2xl">
+            <table className="w-full text-xs text-left">
+              <thead className="bg-slate-50 text-slate-500 font-black uppercase tracking-wider">
+                <tr>{sheet.headers.map((header, index) => <th key={index} className="px-3 py-2 whitespace-nowrap">{header}</th>)}</tr>
+              </thead>
+              <tbody>
+                {sheet.rows.slice(0, 3).map((row, r) => (
+                  <tr key={r} className="border-t border-slate-100">
+                    {sheet.headers.map((_, c) => <td key={c} className="px-3 py-2 whitespace-nowrap text-slate-600">{row[c]}</td>)}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+
+        {freeForm && (
+          <div className="p-4 mb-8 bg-amber-50 border border-amber-200 text-amber-700 rounded-2xl text-sm font-bold">
+            No name column was found. Pick one above, or let the AI interpret this sheet.
+          </div>
+        )}
+
+        <div className="flex gap-4">
+          <button onClick={onCancel} className="flex-1 py-4 font-black text-slate-500">Cancel</button>
+          <button onClick={onUseAI} className="flex-1 py-4 bg-indigo-50 text-indigo-700 rounded-2xl font-black hover:bg-indigo-100 transition-all">Let AI Interpret</button>
+          <button onClick={() => onImport(mapping)} disabled={freeForm} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl disabled:opacity-50">Import Rows</button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ColumnMappingModal;
@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { EventType, FamilyMember, GroundingSource, MemberEvent, Place } from '../types';
+import { formatDate, parseDate } from '../services/dateService';
+import { COUPLE_EVENTS, createEventId, EVENT_TYPES, eventIcon, eventLabel, memberTimeline, TimelineEvent } from '../services/eventService';
+import { formatPlace } from '../services/placeService';
+import { citationsFor } from '../services/citationService';
+
+interface EventListProps {
+  member: FamilyMember;
+  members: FamilyMember[];
+  places: Place[];
+  sources: GroundingSource[];
+  onSave: (event: MemberEvent, placeText: string) => void;
+  onDelete: (eventId: string) => void;
+}
+
+interface EventDraft {
+  id: string;
+  type: EventType;
+  dateText: string;
+  placeText: string;
+  description: string;
+  partnerId: string;
+}
+
+const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-xs font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+const EventList: React.FC<EventListProps> = ({ member, members, places, sources, onSave, onDelete }) => {
+  const [draft, setDraft] = useState<EventDraft | null>(null);
+  const timeline = memberTimeline(member, members);
+  const nameOf = (id?: string) => members.find(m => m.id === id)?.name;
+  const placeOptions = places.map(p => formatPlace(places, p.id));
+  const citedTitles = (event: TimelineEvent) => {
+    const owner = members.find(m => m.id === event.ownerId);
+    const citations = event.type === 'birth' || event.type === 'death' ? citationsFor(owner, event.type) : citationsFor(owner, 'event', event.id);
+    return Array.from(new Set(citations.map(c => sources.find(s => s.id === c.sourceId)?.title).filter(Boolean))).join('; ');
+  };
+
+  const startEdit = (event?: TimelineEvent) => setDraft({
+    // Birth/death rows built from the member's dates have no stored event yet.
+    id: event && member.events?.some(e => e.id === event.id) ? event.id : createEventId(),
+    type: event?.type || 'residence',
+    dateText: formatDate(event?.date),
+    placeText: formatPlace(places, event?.placeId),
+    description: event?.description || '',
+    partnerId: event?.partnerId || ''
+  });
+
+  const set = <K extends keyof EventDraft>(key: K, value: EventDraft[K]) => setDraft(prev => prev && { ...prev, [key]: value });
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const event: MemberEvent = { id: draft.id, type: draft.type };
+    const date = parseDate(draft.dateText);
+    if (date) event.date = date;
+    if (draft.description.trim()) event.description = draft.description.trim();
+    if (draft.partnerId && COUPLE_EVENTS.includes(draft.type)) event.partnerId = draft.partnerId;
+    onSave(event, draft.placeText);
+    setDraft(null);
+  };
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-3">
+        <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Life Events</label>
+        {!draft && <button onClick={() => startEdit()} className="text-[10px] font-black bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full hover:bg-indigo-100 transition-all"><i className="fas fa-plus mr-1"></i> Add</button>}
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="space-y-2 p-4 mb-3 border-2 border-indigo-100 rounded-2xl">
+          <select value={draft.type} onChange={(e) => set('type', e.target.value as EventType)} className={inputClass}>
+            {EVENT_TYPES.map(t => <option key={t.type} value={t.type}>{t.label}</option>)}
+          </select>
+          <input type="text" value={draft.dateText} onChange={(e) => set('dateText', e.target.value)} placeholder="Date, e.g. abt. 1880" className={inputClass} />
+          {draft.dateText.trim() && !parseDate(draft.dateText) && <p className="text-[10px] font-bold text-amber-600">Not recognised as a date</p>}
+          <input type="text" list="event-places" value={draft.placeText} onChange={(e) => set('placeText', e.target.value)} placeholder="Place, e.g. Springfield, Illinois, USA" className={inputClass} />
+          <datalist id="event-places">
+            {placeOptions.map(p => <option key={p} value={p} />)}
+          </datalist>
+          {COUPLE_EVENTS.includes(draft.type) && (
+            <select value={draft.partnerId} onChange={(e) => set('partnerId', e.target.value)} className={inputClass}>
+              <option value="">Spouse unknown</option>
+              {(member.partners || []).map(id => <option key={id} value={id}>{nameOf(id) || id}</option>)}
+            </select>
+          )}
+          <input type="text" value={draft.description} onChange={(e) => set('description', e.target.value)} placeholder="Description, e.g. occupation or cemetery" className={inputClass} />
+          <div className="flex gap-2 pt-1">
+            <button type="button" onClick={() => setDraft(null)} className="flex-1 py-2 bg-slate-50 rounded-xl text-xs font-black text-slate-500 hover:bg-slate-100">Cancel</button>
+            <button type="submit" className="flex-1 py-2 bg-indigo-600 rounded-xl text-xs font-black text-white hover:bg-indigo-700">Save</button>
+          </div>
+        </form>
+      )}
+
+      <ul className="space-y-2">
+        {timeline.map(event => {
+          const shared = event.ownerId !== member.id;
+          const spouse = nameOf(shared ? event.ownerId : event.partnerId);
+          const place = formatPlace(places, event.placeId);
+          const cited = citedTitles(event);
+          return (
+            <li key={`${event.ownerId}-${event.id}`} className="group flex gap-3 p-3 bg-slate-50 rounded-2xl">
+              <i className={`fas ${eventIcon(event.type)} text-indigo-400 w-4 mt-1`}></i>
+              <div className="flex-1 min-w-0">
+                <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{eventLabel(event.type)}{event.date ? ` · ${formatDate(event.date)}` : ''}</p>
+                {spouse && <p className="text-xs font-bold text-slate-700">with {spouse}</p>}
+                {place && <p className="text-xs font-bold text-slate-700">{place}</p>}
+                {event.description && <p className="text-xs text-slate-500">{event.description}</p>}
+                {cited && <p className="text-[10px] text-slate-400 italic"><i className="fas fa-book mr-1"></i>{cited}</p>}
+              </div>
+              {!shared && !draft && (
+                <div className="flex flex-col opacity-0 group-hover:opacity-100 transition-all">
+                  <button onClick={() => startEdit(event)} className="w-6 h-6 text-slate-400 hover:text-indigo-600" title="Edit"><i className="fas fa-pen text-[10px]"></i></button>
+                  {member.events?.some(e => e.id === event.id) && (
+                    <button onClick={() => onDelete(event.id)} className="w-6 h-6 text-slate-400 hover:text-rose-500" title="Delete"><i className="fas fa-trash text-[10px]"></i></button>
+                  )}
+                </div>
+              )}
+            </li>
+          );
+        })}
+        {timeline.length === 0 && !draft && <li className="text-xs text-slate-400 font-medium">No events recorded.</li>}
+      </ul>
+    </div>
+  );
+};
+
+export default EventList;
@@ -1,6 +1,7 @@
 
 import React from 'react';
 import { FamilyMember } from '../types';
+import { displayDate } from '../services/dateService';
 
 interface FamilyNodeProps {
   member: FamilyMember;
@@ -38,7 +39,7 @@ const FamilyNode: React.FC<FamilyNodeProps> = ({ member, isSelected }) => {
       </h3>
       
       <p className="text-[11px] text-slate-500 mt-0.5">
-        {member.birthYear || 'Unknown'} — {member.deathYear || 'Present'}
+        {displayDate(member, 'birth') || 'Unknown'} — {displayDate(member, 'death') || 'Present'}
       </p>
 
       {member.notes && (
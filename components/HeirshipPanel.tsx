@@ -0,0 +1,113 @@
+import React, { useState } from 'react';
+import { FamilyMember } from '../types';
+import { calculateHeirship, DISTRIBUTION_METHODS, DistributionMethod, formatFraction, formatPercent, HEIRSHIP_RULES } from '../services/heirshipService';
+import { displayDate } from '../services/dateService';
+
+interface HeirshipPanelProps {
+  members: FamilyMember[];
+  estateInfo?: string;
+  onSelectMember: (memberId: string) => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-xs font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+const HeirshipPanel: React.FC<HeirshipPanelProps> = ({ members, estateInfo, onSelectMember, onClose }) => {
+  const [decedentId, setDecedentId] = useState(() => (members.find(m => m.vitalStatus === 'deceased') || members[0])?.id || '');
+  const [rulesId, setRulesId] = useState(HEIRSHIP_RULES[0].id);
+  const [distribution, setDistribution] = useState<DistributionMethod>(HEIRSHIP_RULES[0].distribution);
+
+  const rules = HEIRSHIP_RULES.find(r => r.id === rulesId) || HEIRSHIP_RULES[0];
+  const result = members.some(m => m.id === decedentId) ? calculateHeirship(members, decedentId, rules, distribution) : null;
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || id;
+  // Deceased people first, as they are the likely subjects of a probate search.
+  const candidates = [...members].sort((a, b) => Number(b.vitalStatus === 'deceased') - Number(a.vitalStatus === 'deceased'));
+
+  const changeRules = (id: string) => {
+    setRulesId(id);
+    setDistribution((HEIRSHIP_RULES.find(r => r.id === id) || HEIRSHIP_RULES[0]).distribution);
+  };
+
+  return (
+    <div className="fixed top-28 right-10 bottom-32 w-96 bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50 flex flex-col">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h4 className="font-black text-slate-900 text-2xl tracking-tight">Heirship</h4>
+          <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">Intestate succession</p>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-6">
+        <div className="space-y-2">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Decedent</label>
+          <select value={decedentId} onChange={(e) => setDecedentId(e.target.value)} className={selectClass}>
+            {candidates.map(m => <option key={m.id} value={m.id}>{m.name}{displayDate(m, 'death') ? ` (d. ${displayDate(m, 'death')})` : ''}</option>)}
+          </select>
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block pt-2">Rules</label>
+          <select value={rulesId} onChange={(e) => changeRules(e.target.value)} className={selectClass}>
+            {HEIRSHIP_RULES.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+          </select>
+          <select value={distribution} onChange={(e) => setDistribution(e.target.value as DistributionMethod)} className={selectClass}>
+            {DISTRIBUTION_METHODS.map(d => <option key={d.method} value={d.method}>{d.label}</option>)}
+          </select>
+          <p className="text-[10px] text-slate-400 font-medium">{DISTRIBUTION_METHODS.find(d => d.method === distribution)?.description}</p>
+        </div>
+
+        {estateInfo && (
+          <div className="p-4 bg-slate-50 rounded-2xl">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-1">Estate</label>
+            <p className="text-xs text-slate-600 font-medium whitespace-pre-line">{estateInfo}</p>
+          </div>
+        )}
+
+        {result && (
+          <>
+            {result.blockers.length > 0 && (
+              <div>
+                <label className="text-[10px] font-black text-amber-500 uppercase tracking-widest block mb-2">Blocking the determination</label>
+                <ul className="space-y-2">
+                  {result.blockers.map((b, i) => (
+                    <li key={`${b.memberId}-${i}`}>
+                      <button onClick={() => onSelectMember(b.memberId)} className="w-full text-left p-3 bg-amber-50 rounded-2xl text-xs font-bold text-amber-700 hover:bg-amber-100 transition-all">
+                        <i className="fas fa-exclamation-triangle mr-2"></i>{b.message}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            )}
+
+            <div>
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Heirs of {nameOf(result.decedentId)}</label>
+              <ul className="space-y-2">
+                {result.heirs.map(h => (
+                  <li key={h.memberId}>
+                    <button onClick={() => onSelectMember(h.memberId)} className="w-full text-left flex items-center gap-3 p-3 bg-slate-50 rounded-2xl hover:bg-slate-100 transition-all">
+                      <div className="flex-1 min-w-0">
+                        <p className="text-sm font-black text-slate-800 truncate">{nameOf(h.memberId)}{h.provisional && <i className="fas fa-question-circle text-amber-500 ml-2" title="Survival not established"></i>}</p>
+                        <p className="text-[9px] font-black uppercase tracking-widest text-indigo-500">{h.relation}</p>
+                        {h.note && <p className="text-[10px] text-slate-400 font-medium mt-1">{h.note}</p>}
+                      </div>
+                      <div className="text-right">
+                        <p className="text-lg font-black text-slate-900">{formatFraction(h.share)}</p>
+                        <p className="text-[10px] font-bold text-slate-400">{formatPercent(h.share)}</p>
+                      </div>
+                    </button>
+                  </li>
+                ))}
+                {result.heirs.length === 0 && <li className="text-xs text-slate-400 font-medium">No heirs found in the tree.</li>}
+              </ul>
+            </div>
+
+            <ul className="space-y-1">
+              {result.notes.map((note, i) => <li key={i} className="text-[10px] text-slate-400 font-medium"><i className="fas fa-info-circle mr-1"></i>{note}</li>)}
+            </ul>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HeirshipPanel;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { HistoryEntry, OPERATION_LABELS, TreeHistory, canRedo, canUndo } from '../services/historyService';
+
+interface HistoryPanelProps {
+  history: TreeHistory;
+  onJump: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+  onSaveSnapshot: () => void;
+  onRestoreSnapshot: (id: string) => void;
+  onDeleteSnapshot: (id: string) => void;
+  onClose: () => void;
+}
+
+const OPERATION_ICONS: Record<HistoryEntry['operation'], string> = {
+  'open': 'fa-folder-open',
+  'search': 'fa-search',
+  'import': 'fa-file-import',
+  'merge': 'fa-comments',
+  'update': 'fa-magic',
+  'research': 'fa-history',
+  'manual-edit': 'fa-pen',
+  'repair': 'fa-wrench',
+  'restore': 'fa-camera-retro'
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ history, onJump, onUndo, onRedo, onSaveSnapshot, onRestoreSnapshot, onDeleteSnapshot, onClose }) => {
+  // Newest first, with the undone (future) entries above the current version.
+  const timeline = [
+    ...[...history.future].reverse().map(entry => ({ entry, state: 'future' as const })),
+    ...(history.present ? [{ entry: history.present, state: 'present' as const }] : []),
+    ...[...history.past].reverse().map(entry => ({ entry, state: 'past' as const }))
+  ];
+
+  return (
+    <div className="fixed top-28 right-10 bottom-32 w-96 bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50 flex flex-col">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h4 className="font-black text-slate-900 text-2xl tracking-tight">History</h4>
+          <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">Ctrl+Z / Ctrl+Shift+Z</p>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+      </div>
+
+      <div className="flex gap-2 mb-6">
+        <button onClick={onUndo} disabled={!canUndo(history)} className="flex-1 py-3 bg-slate-50 rounded-2xl text-xs font-black text-slate-600 hover:bg-slate-100 disabled:opacity-30"><i className="fas fa-undo mr-2"></i>Undo</button>
+        <button onClick={onRedo} disabled={!canRedo(history)} className="flex-1 py-3 bg-slate-50 rounded-2xl text-xs font-black text-slate-600 hover:bg-slate-100 disabled:opacity-30"><i className="fas fa-redo mr-2"></i>Redo</button>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar space-y-2 mb-6">
+        {timeline.map(({ entry, state }) => (
+          <button
+            key={entry.id}
+            onClick={() => onJump(entry.id)}
+            className={`w-full text-left p-4 rounded-2xl border-2 transition-all flex items-center gap-4 ${state === 'present' ? 'border-indigo-200 bg-indigo-50/50' : 'border-transparent hover:bg-slate-50'} ${state === 'future' ? 'opacity-40' : ''}`}
+          >
+            <i className={`fas ${OPERATION_ICONS[entry.operation]} text-indigo-500 w-4`}></i>
+            <div className="min-w-0">
+              <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">{OPERATION_LABELS[entry.operation]} · {new Date(entry.timestamp).toLocaleTimeString()}</p>
+              <p className="text-sm font-bold text-slate-700 truncate">{entry.label}</p>
+              <p className="text-[10px] font-bold text-slate-400">{entry.result.members.length} members</p>
+            </div>
+          </button>
+        ))}
+      </div>
+
+      <div className="border-t border-slate-100 pt-6">
+        <div className="flex items-center justify-between mb-3">
+          <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Snapshots</label>
+          <button onClick={onSaveSnapshot} disabled={!history.present} className="text-[10px] font-black bg-indigo-600 text-white px-4 py-2 rounded-full hover:bg-indigo-700 transition-all disabled:opacity-30"><i className="fas fa-camera mr-1"></i> Save</button>
+        </div>
+        <ul className="space-y-2 max-h-40 overflow-y-auto custom-scrollbar">
+          {history.snapshots.map(s => (
+            <li key={s.id} className="flex items-center gap-2 p-3 bg-slate-50 rounded-2xl">
+              <div className="flex-1 min-w-0">
+                <p className="text-sm font-bold text-slate-700 truncate">{s.name}</p>
+                <p className="text-[10px] font-bold text-slate-400">{new Date(s.timestamp).toLocaleString()} · {s.result.members.length} members</p>
+              </div>
+              <button onClick={() => onRestoreSnapshot(s.id)} className="w-8 h-8 rounded-xl text-slate-400 hover:text-indigo-600 hover:bg-white" title="Restore"><i className="fas fa-undo-alt"></i></button>
+              <button onClick={() => onDeleteSnapshot(s.id)} className="w-8 h-8 rounded-xl text-slate-400 hover:text-rose-500 hover:bg-white" title="Delete"><i className="fas fa-trash"></i></button>
+            </li>
+          ))}
+          {history.snapshots.length === 0 && <li className="text-xs text-slate-400 font-medium">No snapshots yet.</li>}
+        </ul>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
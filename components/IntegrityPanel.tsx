@@ -0,0 +1,61 @@
+import React from 'react';
+import { INTEGRITY_FIXES, IntegrityFix, IntegrityIssue } from '../services/validationService';
+
+interface IntegrityPanelProps {
+  issues: IntegrityIssue[];
+  onFix: (fixes: IntegrityFix[]) => void;
+  onSelectMember: (memberId: string) => void;
+  onClose: () => void;
+}
+
+const IntegrityPanel: React.FC<IntegrityPanelProps> = ({ issues, onFix, onSelectMember, onClose }) => {
+  const groups = INTEGRITY_FIXES
+    .map(({ fix, label }) => ({ fix, label, issues: issues.filter(i => i.fix === fix) }))
+    .filter(g => g.issues.length > 0);
+
+  return (
+    <div className="fixed top-28 right-10 bottom-32 w-96 bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50 flex flex-col">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h4 className="font-black text-slate-900 text-2xl tracking-tight">Tree Integrity</h4>
+          <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">{issues.length} {issues.length === 1 ? 'problem' : 'problems'}</p>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+      </div>
+
+      {issues.length === 0 ? (
+        <div className="flex-1 flex flex-col items-center justify-center text-center text-slate-400">
+          <i className="fas fa-check-circle text-4xl text-emerald-400 mb-4"></i>
+          <p className="font-bold">All links point to real people and no one is their own ancestor.</p>
+        </div>
+      ) : (
+        <>
+          <div className="flex-1 overflow-y-auto custom-scrollbar space-y-6 mb-6">
+            {groups.map(group => (
+              <div key={group.fix}>
+                <div className="flex items-center justify-between mb-2">
+                  <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest">{group.label}</label>
+                  <button onClick={() => onFix([group.fix])} className="text-[10px] font-black bg-indigo-50 text-indigo-700 px-3 py-1 rounded-full hover:bg-indigo-100 transition-all">Fix {group.issues.length}</button>
+                </div>
+                <ul className="space-y-2">
+                  {group.issues.map((issue, index) => (
+                    <li key={`${issue.type}-${issue.memberId}-${issue.relatedId}-${index}`}>
+                      <button onClick={() => onSelectMember(issue.memberId)} className="w-full text-left p-3 bg-slate-50 rounded-2xl text-xs font-medium text-slate-600 hover:bg-slate-100 transition-all">
+                        <i className="fas fa-exclamation-triangle text-amber-500 mr-2"></i>{issue.message}
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              </div>
+            ))}
+          </div>
+          <button onClick={() => onFix(groups.map(g => g.fix))} className="w-full py-4 bg-indigo-600 text-white rounded-3xl text-sm font-black shadow-xl hover:bg-indigo-700 transition-all">
+            <i className="fas fa-wrench mr-2"></i> Fix All Automatically
+          </button>
+        </>
+      )}
+    </div>
+  );
+};
+
+export default IntegrityPanel;
@@ -0,0 +1,178 @@
+import React, { useState } from 'react';
+import { FamilyMember } from '../types';
+import { displayDate, formatDate, parseDate, withDates } from '../services/dateService';
+
+interface MemberEditorModalProps {
+  member: FamilyMember;
+  members: FamilyMember[];
+  isNew: boolean;
+  onSave: (member: FamilyMember) => void;
+  onDelete: (id: string) => void;
+  onCancel: () => void;
+}
+
+interface PersonPickerProps {
+  label: string;
+  selected: string[];
+  options: FamilyMember[];
+  onChange: (ids: string[]) => void;
+}
+
+const inputClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-sm font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+const labelClass = "text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2";
+
+const PersonPicker: React.FC<PersonPickerProps> = ({ label, selected, options, onChange }) => {
+  const [query, setQuery] = useState('');
+  const nameOf = (id: string) => options.find(m => m.id === id)?.name || id;
+  const matches = options
+    .filter(m => !selected.includes(m.id) && m.name.toLowerCase().includes(query.trim().toLowerCase()))
+    .slice(0, 8);
+
+  return (
+    <div>
+      <span className={labelClass}>{label}</span>
+      <div className="flex flex-wrap gap-2 mb-2">
+        {selected.map(id => (
+          <span key={id} className="flex items-center gap-2 pl-3 pr-1 py-1 bg-indigo-50 text-indigo-700 rounded-full text-xs font-black">
+            {nameOf(id)}
+            <button type="button" onClick={() => onChange(selected.filter(x => x !== id))} className="w-5 h-5 rounded-full hover:bg-indigo-100"><i className="fas fa-times text-[10px]"></i></button>
+          </span>
+        ))}
+        {selected.length === 0 && <span className="text-xs text-slate-400 font-medium">None</span>}
+      </div>
+      <input type="text" value={query} onChange={(e) => setQuery(e.target.value)} placeholder="Search people to link..." className={inputClass} />
+      {query.trim() && (
+        <ul className="mt-2 border border-slate-100 rounded-2xl overflow-hidden">
+          {matches.map(m => (
+            <li key={m.id}>
+              <button type="button" onClick={() => { onChange([...selected, m.id]); setQuery(''); }} className="w-full text-left px-4 py-2 text-sm hover:bg-slate-50">
+                <span className="font-bold text-slate-700">{m.name}</span>
+                <span className="text-slate-400 ml-2 text-xs">{displayDate(m, 'birth') || '????'} — {displayDate(m, 'death') || ''}</span>
+              </button>
+            </li>
+          ))}
+          {matches.length === 0 && <li className="px-4 py-2 text-xs text-slate-400">No matching people.</li>}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+const MemberEditorModal: React.FC<MemberEditorModalProps> = ({ member, members, isNew, onSave, onDelete, onCancel }) => {
+  const [draft, setDraft] = useState<FamilyMember>({ ...member, parents: member.parents || [], partners: member.partners || [] });
+  const others = members.filter(m => m.id !== member.id);
+
+  const set = <K extends keyof FamilyMember>(key: K, value: FamilyMember[K]) => {
+    setDraft(prev => ({ ...prev, [key]: value }));
+  };
+
+  const optional = (value: string) => value.trim() === '' ? undefined : value;
+
+  // Keep the typed text while showing how it will be read.
+  const setDate = (text: 'birthYear' | 'deathYear', date: 'birthDate' | 'deathDate', value: string) => {
+    setDraft(prev => ({ ...prev, [text]: optional(value), [date]: parseDate(value) }));
+  };
+
+  const dateHint = (text?: string) => {
+    if (!text?.trim()) return null;
+    const parsed = parseDate(text);
+    return (
+      <span className={`block mt-1 text-[10px] font-bold ${parsed ? 'text-indigo-500' : 'text-amber-600'}`}>
+        {parsed ? `Read as ${formatDate(parsed)}` : 'Not recognised as a date'}
+      </span>
+    );
+  };
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft.name.trim()) return;
+    onSave(withDates({ ...draft, name: draft.name.trim() }));
+  };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur z-[100] flex items-center justify-center p-6">
+      <form onSubmit={handleSubmit} className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-3xl w-full max-h-full overflow-y-auto custom-scrollbar">
+        <div className="flex justify-between items-start mb-8">
+          <div>
+            <h3 className="text-3xl font-black text-slate-900">{isNew ? 'New Person' : 'Edit Person'}</h3>
+            <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">ID: {draft.id}</p>
+          </div>
+          <button type="button" onClick={onCancel} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-5 mb-6">
+          <label className="sm:col-span-2">
+            <span className={labelClass}>Full Name</span>
+            <input type="text" required value={draft.name} onChange={(e) => set('name', e.target.value)} className={inputClass} />
+          </label>
+          <label>
+            <span className={labelClass}>Born</span>
+            <input type="text" value={draft.birthYear || ''} onChange={(e) => setDate('birthYear', 'birthDate', e.target.value)} className={inputClass} placeholder="e.g. 12 Mar 1850, abt. 1850, bet. 1850 and 1855" />
+            {dateHint(draft.birthYear)}
+          </label>
+          <label>
+            <span className={labelClass}>Died</span>
+            <input type="text" value={draft.deathYear || ''} onChange={(e) => setDate('deathYear', 'deathDate', e.target.value)} className={inputClass} placeholder="e.g. bef. 1920" />
+            {dateHint(draft.deathYear)}
+          </label>
+          <label>
+            <span className={labelClass}>Gender</span>
+            <select value={draft.gender || ''} onChange={(e) => set('gender', (e.target.value || undefined) as FamilyMember['gender'])} className={inputClass}>
+              <option value="">Unknown</option>
+              <option value="male">Male</option>
+              <option value="female">Female</option>
+              <option value="other">Other</option>
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Vital Status</span>
+            <select value={draft.vitalStatus || ''} onChange={(e) => set('vitalStatus', (e.target.value || undefined) as FamilyMember['vitalStatus'])} className={inputClass}>
+              <option value="">Not set</option>
+              <option value="living">Living</option>
+              <option value="deceased">Deceased</option>
+              <option value="unknown">Unknown</option>
+            </select>
+          </label>
+          <label>
+            <span className={labelClass}>Relationship</span>
+            <input type="text" value={draft.relationship || ''} onChange={(e) => set('relationship', optional(e.target.value))} className={inputClass} placeholder="e.g. Great-Grandson" />
+          </label>
+          <label>
+            <span className={labelClass}>Confidence</span>
+            <select value={draft.status || ''} onChange={(e) => set('status', (e.target.value || undefined) as FamilyMember['status'])} className={inputClass}>
+              <option value="">Not set</option>
+              <option value="definitive">Definitive</option>
+              <option value="probable">Probable</option>
+              <option value="possible">Possible</option>
+            </select>
+          </label>
+          <label className="sm:col-span-2">
+            <span className={labelClass}>Notes</span>
+            <textarea value={draft.notes || ''} onChange={(e) => set('notes', optional(e.target.value))} className={`${inputClass} h-28`} />
+          </label>
+        </div>
+
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-5 mb-10">
+          <PersonPicker label="Parents" selected={draft.parents || []} options={others} onChange={(ids) => set('parents', ids)} />
+          <PersonPicker label="Partners" selected={draft.partners || []} options={others} onChange={(ids) => set('partners', ids)} />
+        </div>
+
+        <div className="flex gap-4">
+          {!isNew && (
+            <button
+              type="button"
+              onClick={() => { if (window.confirm(`Delete ${member.name}? Links to this person will be removed.`)) onDelete(member.id); }}
+              className="px-6 py-4 font-black text-rose-500 hover:bg-rose-50 rounded-2xl transition-all"
+            >
+              <i className="fas fa-trash mr-2"></i>Delete
+            </button>
+          )}
+          <button type="button" onClick={onCancel} className="flex-1 py-4 font-black text-slate-500">Cancel</button>
+          <button type="submit" disabled={!draft.name.trim()} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl disabled:opacity-50">Save Person</button>
+        </div>
+      </form>
+    </div>
+  );
+};
+
+export default MemberEditorModal;
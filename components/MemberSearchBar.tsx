@@ -0,0 +1,133 @@
+import React, { useMemo, useState } from 'react';
+import { FamilyMember } from '../types';
+import { displayDate } from '../services/dateService';
+import { EMPTY_FILTERS, filtersActive, MATCH_KIND_LABELS, memberGenerations, MemberFilters, SearchMatch, surnamesIn } from '../services/searchService';
+
+interface MemberSearchBarProps {
+  members: FamilyMember[];
+  query: string;
+  onQueryChange: (query: string) => void;
+  results: SearchMatch[];
+  onJump: (memberId: string) => void;
+  filters: MemberFilters;
+  onFiltersChange: (filters: MemberFilters) => void;
+  filteredOutCount: number;
+}
+
+const MAX_SUGGESTIONS = 8;
+
+const selectClass = "px-3 py-2 bg-slate-50 border border-slate-200 rounded-xl outline-none text-xs font-bold text-slate-600 focus:ring-4 focus:ring-indigo-500/10";
+
+const capitalize = (word: string) => word.charAt(0).toUpperCase() + word.slice(1);
+
+const MemberSearchBar: React.FC<MemberSearchBarProps> = ({ members, query, onQueryChange, results, onJump, filters, onFiltersChange, filteredOutCount }) => {
+  const [open, setOpen] = useState(false);
+  // Position in the results for stepping through them with Enter or the arrows.
+  const [cursor, setCursor] = useState(-1);
+  const generationCount = useMemo(() => Math.max(0, ...memberGenerations(members).values()), [members]);
+  const surnames = useMemo(() => surnamesIn(members), [members]);
+  const byId = useMemo(() => new Map(members.map(m => [m.id, m])), [members]);
+
+  const jumpTo = (index: number) => {
+    if (results.length === 0) return;
+    const next = (index + results.length) % results.length;
+    setCursor(next);
+    setOpen(false);
+    onJump(results[next].memberId);
+  };
+
+  const set = <K extends keyof MemberFilters>(key: K, value: MemberFilters[K]) => onFiltersChange({ ...filters, [key]: value });
+
+  return (
+    <div className="bg-white rounded-[2rem] border border-slate-100 shadow-sm p-4 flex flex-wrap items-center gap-3" data-html2canvas-ignore="true">
+      <div className="relative flex-1 min-w-[16rem]">
+        <i className="fas fa-search absolute left-4 top-1/2 -translate-y-1/2 text-slate-300"></i>
+        <input
+          type="text"
+          value={query}
+          onChange={(e) => { onQueryChange(e.target.value); setCursor(-1); setOpen(true); }}
+          onFocus={() => setOpen(true)}
+          onBlur={() => setOpen(false)}
+          onKeyDown={(e) => {
+            if (e.key === 'Enter') { e.preventDefault(); jumpTo(e.shiftKey ? cursor - 1 : cursor + 1); }
+            if (e.key === 'Escape') setOpen(false);
+          }}
+          className="w-full pl-11 pr-28 py-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-sm font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10"
+          placeholder="Find by name, sound-alike, year (1850 or 1850-1860) or notes..."
+        />
+        {query.trim() && (
+          <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center gap-1">
+            <span className="text-[10px] font-black text-slate-400 px-2">{results.length === 0 ? 'No matches' : cursor >= 0 ? `${cursor + 1} / ${results.length}` : `${results.length} found`}</span>
+            <button onClick={() => jumpTo(cursor - 1)} disabled={results.length === 0} className="w-7 h-7 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Previous match"><i className="fas fa-chevron-up text-xs"></i></button>
+            <button onClick={() => jumpTo(cursor + 1)} disabled={results.length === 0} className="w-7 h-7 rounded-lg text-slate-400 hover:text-indigo-600 disabled:opacity-30" title="Next match"><i className="fas fa-chevron-down text-xs"></i></button>
+          </div>
+        )}
+        {open && query.trim() && results.length > 0 && (
+          <ul className="absolute left-0 right-0 top-full mt-2 bg-white rounded-2xl shadow-2xl border border-slate-100 p-2 z-40 max-h-80 overflow-y-auto custom-scrollbar">
+            {results.slice(0, MAX_SUGGESTIONS).map((r, i) => {
+              const m = byId.get(r.memberId);
+              if (!m) return null;
+              return (
+                <li key={r.memberId}>
+                  <button
+                    onMouseDown={(e) => { e.preventDefault(); jumpTo(i); }}
+                    className={`w-full text-left px-4 py-3 rounded-xl flex items-center justify-between gap-4 hover:bg-slate-50 ${i === cursor ? 'bg-indigo-50' : ''}`}
+                  >
+                    <span className="min-w-0">
+                      <span className="block text-sm font-black text-slate-800 truncate">{m.name}</span>
+                      <span className="block text-[10px] font-bold text-slate-400">{displayDate(m, 'birth') || '????'} — {displayDate(m, 'death') || 'Now'}</span>
+                    </span>
+                    <span className="text-[9px] font-black uppercase tracking-widest text-indigo-500 whitespace-nowrap">{r.kinds.map(k => MATCH_KIND_LABELS[k]).join(' · ')}</span>
+                  </button>
+                </li>
+              );
+            })}
+            {results.length > MAX_SUGGESTIONS && <li className="px-4 py-2 text-[10px] font-bold text-slate-400">{results.length - MAX_SUGGESTIONS} more — press Enter to step through all</li>}
+          </ul>
+        )}
+      </div>
+
+      <select value={filters.status || ''} onChange={(e) => set('status', (e.target.value || undefined) as MemberFilters['status'])} className={selectClass} title="Confidence">
+        <option value="">Any confidence</option>
+        <option value="definitive">Definitive</option>
+        <option value="probable">Probable</option>
+        <option value="possible">Possible</option>
+        <option value="unset">Not set</option>
+      </select>
+      <select value={filters.vitalStatus || ''} onChange={(e) => set('vitalStatus', (e.target.value || undefined) as MemberFilters['vitalStatus'])} className={selectClass} title="Vital status">
+        <option value="">Living or deceased</option>
+        <option value="living">Living</option>
+        <option value="deceased">Deceased</option>
+        <option value="unknown">Unknown</option>
+      </select>
+      <select value={filters.gender || ''} onChange={(e) => set('gender', (e.target.value || undefined) as MemberFilters['gender'])} className={selectClass} title="Gender">
+        <option value="">Any gender</option>
+        <option value="male">Male</option>
+        <option value="female">Female</option>
+        <option value="other">Other / unknown</option>
+      </select>
+      <select value={filters.generation || ''} onChange={(e) => set('generation', Number(e.target.value) || undefined)} className={selectClass} title="Generation, counted from the earliest ancestors">
+        <option value="">All generations</option>
+        {Array.from({ length: generationCount }, (_, i) => <option key={i + 1} value={i + 1}>Generation {i + 1}</option>)}
+      </select>
+      <select value={filters.surname || ''} onChange={(e) => set('surname', e.target.value || undefined)} className={selectClass} title="Surname line">
+        <option value="">All surnames</option>
+        {surnames.map(s => <option key={s.surname} value={s.surname}>{capitalize(s.surname)} ({s.count})</option>)}
+      </select>
+
+      {filtersActive(filters) && (
+        <div className="flex items-center gap-2">
+          <div className="flex bg-slate-50 border border-slate-200 rounded-xl p-1">
+            {(['dim', 'hide'] as const).map(mode => (
+              <button key={mode} onClick={() => set('mode', mode)} className={`px-3 py-1 rounded-lg text-[10px] font-black uppercase tracking-widest ${filters.mode === mode ? 'bg-white text-indigo-600 shadow-sm' : 'text-slate-400'}`}>{mode}</button>
+            ))}
+          </div>
+          <span className="text-[10px] font-black text-slate-400">{filteredOutCount} {filters.mode === 'hide' ? 'hidden' : 'dimmed'}</span>
+          <button onClick={() => onFiltersChange({ ...EMPTY_FILTERS, mode: filters.mode })} className="w-8 h-8 rounded-xl text-slate-300 hover:text-slate-600" title="Clear filters"><i className="fas fa-times"></i></button>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default MemberSearchBar;
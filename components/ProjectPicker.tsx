@@ -0,0 +1,44 @@
+import React from 'react';
+import { SavedProject } from '../types';
+
+interface ProjectPickerProps {
+  projects: SavedProject[];
+  currentProjectId: string | null;
+  onOpen: (id: string) => void;
+  onDuplicate: (id: string) => void;
+  onRename: (id: string) => void;
+  onDelete: (id: string) => void;
+}
+
+const ProjectPicker: React.FC<ProjectPickerProps> = ({ projects, currentProjectId, onOpen, onDuplicate, onRename, onDelete }) => {
+  return (
+    <div className="bg-white p-10 rounded-[3rem] border border-slate-200 shadow-sm">
+      <h2 className="text-xl font-bold text-slate-800 mb-6 flex items-center gap-3">
+        <i className="fas fa-folder-open text-indigo-600"></i> Saved Trees
+      </h2>
+      {projects.length === 0 ? (
+        <p className="text-sm text-slate-400 font-medium">Trees are saved here automatically as you research.</p>
+      ) : (
+        <ul className="space-y-3 max-h-80 overflow-y-auto custom-scrollbar">
+          {projects.map(p => (
+            <li key={p.id} className={`flex items-center gap-4 p-4 rounded-2xl border-2 transition-all ${p.id === currentProjectId ? 'border-indigo-200 bg-indigo-50/50' : 'border-slate-50 bg-slate-50/50'}`}>
+              <button onClick={() => onOpen(p.id)} className="flex-1 text-left min-w-0">
+                <p className="font-black text-slate-800 truncate">{p.name}</p>
+                <p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest">
+                  {p.data.members.length} members · {new Date(p.updatedAt).toLocaleString()}
+                </p>
+              </button>
+              <div className="flex items-center gap-1 text-slate-400">
+                <button onClick={() => onRename(p.id)} className="w-9 h-9 rounded-xl hover:bg-white hover:text-indigo-600 transition-all" title="Rename"><i className="fas fa-pen"></i></button>
+                <button onClick={() => onDuplicate(p.id)} className="w-9 h-9 rounded-xl hover:bg-white hover:text-indigo-600 transition-all" title="Duplicate"><i className="fas fa-copy"></i></button>
+                <button onClick={() => onDelete(p.id)} className="w-9 h-9 rounded-xl hover:bg-white hover:text-rose-500 transition-all" title="Delete"><i className="fas fa-trash"></i></button>
+              </div>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+};
+
+export default ProjectPicker;
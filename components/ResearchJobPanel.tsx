@@ -0,0 +1,145 @@
+import React, { useEffect, useState } from 'react';
+import { FamilyMember } from '../types';
+import { BranchDirection } from '../services/familyGraph';
+import { CRAWL_DIRECTION_LABELS, CrawlJob, CrawlOptions, CrawlTaskStatus, DEFAULT_CRAWL_BUDGET, MAX_CRAWL_GENERATIONS } from '../services/crawlerService';
+import { PROGRESS_STAGE_LABELS, ResearchProgress } from '../services/requestService';
+
+interface ResearchJobPanelProps {
+  members: FamilyMember[];
+  job: CrawlJob | null;
+  progress: ResearchProgress | null; // Of the task running now
+  pausing: boolean;
+  rootId?: string | null; // Preselected starting person
+  onStart: (options: CrawlOptions) => void;
+  onPause: () => void;
+  onResume: () => void;
+  onCancel: () => void;
+  onApply: () => void;
+  onDiscard: () => void;
+  onSelectMember: (memberId: string) => void;
+  onClose: () => void;
+}
+
+const selectClass = "w-full p-3 bg-slate-50 border border-slate-200 rounded-2xl outline-none text-xs font-bold text-slate-700 focus:ring-4 focus:ring-indigo-500/10";
+
+const TASK_ICONS: Record<CrawlTaskStatus, string> = {
+  queued: 'far fa-clock text-slate-300',
+  running: 'fas fa-circle-notch fa-spin text-indigo-500',
+  done: 'fas fa-check-circle text-emerald-500',
+  failed: 'fas fa-exclamation-circle text-rose-500',
+  skipped: 'fas fa-minus-circle text-slate-300'
+};
+
+const ResearchJobPanel: React.FC<ResearchJobPanelProps> = ({ members, job, progress, pausing, rootId, onStart, onPause, onResume, onCancel, onApply, onDiscard, onSelectMember, onClose }) => {
+  const [startId, setStartId] = useState(rootId || members[0]?.id || '');
+  const [direction, setDirection] = useState<BranchDirection>('descendants');
+  const [generations, setGenerations] = useState(3);
+  const [maxCalls, setMaxCalls] = useState(DEFAULT_CRAWL_BUDGET.maxCalls);
+  const [maxPeople, setMaxPeople] = useState(DEFAULT_CRAWL_BUDGET.maxPeople);
+
+  useEffect(() => {
+    if (rootId) setStartId(rootId);
+  }, [rootId]);
+
+  const isActive = job?.status === 'running' || job?.status === 'paused';
+  const rootName = job ? job.tasks[0]?.name : '';
+  const researched = job ? job.tasks.filter(t => t.status === 'done' || t.status === 'failed').length : 0;
+
+  const start = () => {
+    if (!members.some(m => m.id === startId)) return;
+    onStart({ rootId: startId, direction, generations, budget: { maxCalls: Math.max(1, maxCalls), maxPeople: Math.max(1, maxPeople) } });
+  };
+
+  return (
+    <div className="fixed top-28 right-10 bottom-32 w-96 bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50 flex flex-col">
+      <div className="flex justify-between items-start mb-6">
+        <div>
+          <h4 className="font-black text-slate-900 text-2xl tracking-tight">Research Job</h4>
+          <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">Generation by generation</p>
+        </div>
+        <button onClick={onClose} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+      </div>
+
+      {!job ? (
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-6">
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Start From</label>
+            <select value={startId} onChange={(e) => setStartId(e.target.value)} className={selectClass}>
+              {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Trace</label>
+            <div className="flex bg-slate-50 rounded-2xl p-1">
+              {(Object.keys(CRAWL_DIRECTION_LABELS) as BranchDirection[]).map(d => (
+                <button key={d} onClick={() => setDirection(d)} className={`flex-1 py-2 rounded-xl text-xs font-black transition-all ${direction === d ? 'bg-white shadow text-indigo-600' : 'text-slate-500'}`}>{CRAWL_DIRECTION_LABELS[d]}</button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Generations: {generations}</label>
+            <input type="range" min={1} max={MAX_CRAWL_GENERATIONS} value={generations} onChange={(e) => setGenerations(Number(e.target.value))} className="w-full accent-indigo-600" />
+          </div>
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Max Requests</label>
+              <input type="number" min={1} value={maxCalls} onChange={(e) => setMaxCalls(Number(e.target.value))} className={selectClass} />
+            </div>
+            <div className="space-y-2">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block">Max New People</label>
+              <input type="number" min={1} value={maxPeople} onChange={(e) => setMaxPeople(Number(e.target.value))} className={selectClass} />
+            </div>
+          </div>
+          <p className="text-[10px] text-slate-400 font-medium">Each person is researched once, one generation at a time. The job stops when either limit is reached, and nothing changes in the tree until you review the results.</p>
+          <button onClick={start} disabled={!startId} className="w-full py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl disabled:opacity-50">Start Research</button>
+        </div>
+      ) : (
+        <>
+          <div className="mb-4">
+            <p className="text-sm font-black text-slate-800">{CRAWL_DIRECTION_LABELS[job.options.direction]} of {rootName}, {job.options.generations} generation{job.options.generations === 1 ? '' : 's'}</p>
+            <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mt-1">
+              {job.calls} of {job.options.budget.maxCalls} requests · {job.added} of {job.options.budget.maxPeople} new people · {researched} researched
+            </p>
+            {job.status === 'running' && progress && (
+              <p className="text-[10px] text-indigo-500 font-bold mt-2">{PROGRESS_STAGE_LABELS[progress.stage]}: {progress.message}</p>
+            )}
+            {job.status === 'paused' && <p className="text-[10px] text-amber-500 font-bold mt-2">Paused</p>}
+            {job.status === 'finished' && <p className="text-[10px] text-emerald-600 font-bold mt-2">Finished: everyone in range was researched</p>}
+            {job.status === 'stopped' && <p className="text-[10px] text-amber-500 font-bold mt-2">{job.stopReason || 'Stopped'}</p>}
+            {job.status === 'failed' && <p className="text-[10px] text-rose-500 font-bold mt-2">{job.stopReason}</p>}
+          </div>
+
+          <ul className="flex-1 overflow-y-auto custom-scrollbar space-y-2">
+            {job.tasks.map(t => (
+              <li key={t.memberId}>
+                <button onClick={() => onSelectMember(t.memberId)} disabled={!members.some(m => m.id === t.memberId)} className="w-full text-left flex items-center gap-3 p-3 bg-slate-50 rounded-2xl hover:bg-slate-100 disabled:hover:bg-slate-50 transition-all">
+                  <i className={TASK_ICONS[t.status]}></i>
+                  <div className="flex-1 min-w-0">
+                    <p className="text-xs font-black text-slate-800 truncate">{t.name}</p>
+                    <p className="text-[9px] font-black uppercase tracking-widest text-slate-400">
+                      Generation {t.generation}{t.found !== undefined ? ` · ${t.found} found` : ''}
+                    </p>
+                    {t.error && <p className="text-[10px] text-rose-500 font-medium truncate" title={t.error}>{t.error}</p>}
+                  </div>
+                </button>
+              </li>
+            ))}
+          </ul>
+
+          <div className="mt-6 flex gap-3">
+            {job.status === 'running' && <button onClick={onPause} disabled={pausing} className="flex-1 py-3 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all disabled:opacity-50">{pausing ? 'Pausing...' : 'Pause'}</button>}
+            {job.status === 'paused' && <button onClick={onResume} className="flex-1 py-3 bg-slate-50 hover:bg-slate-100 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all">Resume</button>}
+            {isActive
+              ? <button onClick={onCancel} className="flex-1 py-3 bg-slate-50 hover:bg-rose-50 hover:text-rose-600 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all">Stop</button>
+              : <button onClick={onDiscard} className="flex-1 py-3 bg-slate-50 hover:bg-rose-50 hover:text-rose-600 border border-slate-200 rounded-2xl text-xs font-black text-slate-600 transition-all">Discard</button>}
+          </div>
+          {job.status !== 'running' && (
+            <button onClick={onApply} disabled={job.added === 0 && researched === 0} className="mt-3 w-full py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl disabled:opacity-50">Review & Apply</button>
+          )}
+        </>
+      )}
+    </div>
+  );
+};
+
+export default ResearchJobPanel;
@@ -0,0 +1,120 @@
+import React, { useMemo, useState } from 'react';
+import { FamilyMember } from '../types';
+import { REVIEW_FIELDS, TreeDiff, allDiffKeys } from '../services/diffService';
+
+interface ReviewChangesModalProps {
+  title: string;
+  diff: TreeDiff;
+  members: FamilyMember[];
+  onApply: (accepted: Set<string>) => void;
+  onCancel: () => void;
+}
+
+const KIND_STYLES = {
+  added: 'bg-emerald-100 text-emerald-700',
+  modified: 'bg-amber-100 text-amber-700',
+  removed: 'bg-rose-100 text-rose-700'
+};
+
+const fieldLabel = (field: string) => REVIEW_FIELDS.find(f => f.field === field)?.label || field;
+
+const ReviewChangesModal: React.FC<ReviewChangesModalProps> = ({ title, diff, members, onApply, onCancel }) => {
+  const allKeys = useMemo(() => allDiffKeys(diff), [diff]);
+  const [accepted, setAccepted] = useState<Set<string>>(() => new Set(allKeys));
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || id;
+
+  const toggle = (keys: string[], on: boolean) => {
+    setAccepted(prev => {
+      const next = new Set(prev);
+      keys.forEach(k => on ? next.add(k) : next.delete(k));
+      return next;
+    });
+  };
+
+  const checkbox = (keys: string[]) => (
+    <input
+      type="checkbox"
+      checked={keys.every(k => accepted.has(k))}
+      onChange={(e) => toggle(keys, e.target.checked)}
+      className="w-4 h-4 accent-indigo-600 shrink-0"
+    />
+  );
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur z-[100] flex items-center justify-center p-6">
+      <div className="bg-white p-12 rounded-[3rem] shadow-2xl max-w-4xl w-full max-h-full flex flex-col">
+        <div className="flex items-start justify-between mb-6">
+          <div>
+            <h3 className="text-3xl font-black text-slate-900">Review Changes</h3>
+            <p className="text-sm text-slate-500 font-medium mt-2">{title}</p>
+          </div>
+          <div className="flex gap-2 text-[10px] font-black uppercase tracking-widest">
+            <button onClick={() => setAccepted(new Set(allKeys))} className="px-4 py-2 bg-slate-50 rounded-full text-slate-500 hover:bg-slate-100">Accept all</button>
+            <button onClick={() => setAccepted(new Set())} className="px-4 py-2 bg-slate-50 rounded-full text-slate-500 hover:bg-slate-100">Reject all</button>
+          </div>
+        </div>
+
+        <div className="flex-1 overflow-y-auto custom-scrollbar space-y-4 mb-8 pr-2">
+          {diff.members.map(change => {
+            const keys = change.kind === 'modified' ? change.fields.map(f => f.key) : [change.key];
+            return (
+              <div key={change.key} className="p-5 rounded-2xl border-2 border-slate-50 bg-slate-50/50">
+                <label className="flex items-center gap-3 cursor-pointer">
+                  {checkbox(keys)}
+                  <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${KIND_STYLES[change.kind]}`}>{change.kind}</span>
+                  <span className="font-black text-slate-800">{change.name}</span>
+                  <span className="text-[10px] font-bold text-slate-400">{change.memberId}</span>
+                </label>
+                {change.fields.length > 0 && (
+                  <ul className="mt-3 ml-7 space-y-1">
+                    {change.fields.map(f => (
+                      <li key={f.key} className="flex items-center gap-3 text-sm">
+                        {change.kind === 'modified' && checkbox([f.key])}
+                        <span className="w-28 text-[10px] font-black text-slate-400 uppercase tracking-widest">{fieldLabel(f.field)}</span>
+                        {change.kind === 'modified' && <span className="text-rose-500 line-through truncate max-w-[14rem]">{f.before || '—'}</span>}
+                        {change.kind === 'modified' && <i className="fas fa-arrow-right text-slate-300 text-xs"></i>}
+                        <span className="text-emerald-700 font-bold truncate max-w-[20rem]">{f.after || '—'}</span>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            );
+          })}
+
+          {diff.relationships.length > 0 && (
+            <div className="p-5 rounded-2xl border-2 border-slate-50 bg-slate-50/50">
+              <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest mb-3">Relationships</p>
+              <ul className="space-y-2">
+                {diff.relationships.map(({ key, kind, relationship: r }) => (
+                  <li key={key}>
+                    <label className="flex items-center gap-3 text-sm cursor-pointer">
+                      {checkbox([key])}
+                      <span className={`text-[9px] font-black uppercase tracking-widest px-2 py-0.5 rounded-full ${KIND_STYLES[kind]}`}>{kind}</span>
+                      <span className="font-bold text-slate-700">{nameOf(r.sourceId)}</span>
+                      <span className="text-slate-400">{r.type === 'partner' ? 'partner of' : 'parent of'}</span>
+                      <span className="font-bold text-slate-700">{nameOf(r.targetId)}</span>
+                    </label>
+                  </li>
+                ))}
+              </ul>
+            </div>
+          )}
+
+          {diff.members.length === 0 && diff.relationships.length === 0 && (
+            <p className="text-center text-slate-400 font-medium py-12">The AI did not propose any changes to the tree.</p>
+          )}
+        </div>
+
+        <div className="flex gap-4">
+          <button onClick={onCancel} className="flex-1 py-4 font-black text-slate-500">Discard</button>
+          <button onClick={() => onApply(accepted)} disabled={accepted.size === 0} className="flex-[2] py-4 bg-indigo-600 text-white rounded-2xl font-black shadow-xl disabled:opacity-50">
+            Apply {accepted.size} of {allKeys.length} Changes
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default ReviewChangesModal;
@@ -1,221 +1,344 @@
 
-import React, { useEffect, useRef, useState } from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import * as d3 from 'd3';
-import { FamilyMember } from '../types';
+import { Citation, FamilyMember, GroundingSource, MemberEvent, Place } from '../types';
+import { PlausibilityWarning } from '../services/plausibilityService';
+import { DATE_QUALIFIER_LABELS, displayDate, LifeEvent, memberDate } from '../services/dateService';
+import EventList from './EventList';
+import CitationList from './CitationList';
+import { findRelationship } from '../services/kinshipService';
+import { CARD_HEIGHT, CARD_WIDTH, CHART_TYPES, ChartType, layoutSignature, layoutTree, LayoutNode } from '../services/layoutService';
+import { CARD_ZOOM, createScene, drawScene, nodeAt, nodesInView } from '../services/treeRenderer';
+import { BranchDirection, collapseBranches, CollapsedBranch } from '../services/familyGraph';
 
 interface TreeVisualizationProps {
   members: FamilyMember[];
   onResearchAncestors?: (memberId?: string) => void;
+  onTraceGenerations?: (memberId: string) => void; // Opens a multi-generation research job from this person
+  onEditMember?: (memberId: string) => void;
+  warnings?: Record<string, PlausibilityWarning[]>;
+  places?: Place[];
+  onSaveEvent?: (memberId: string, event: MemberEvent, placeText: string) => void;
+  onDeleteEvent?: (memberId: string, eventId: string) => void;
+  sources?: GroundingSource[];
+  onSaveCitation?: (memberId: string, citation: Citation, newSource?: GroundingSource) => void;
+  onDeleteCitation?: (memberId: string, citationId: string) => void;
+  onSetHomePerson?: (memberId: string) => void;
+  searchMatches?: Set<string>;
+  filteredOut?: Set<string>; // Members outside the active filters
+  filterMode?: 'dim' | 'hide';
+  jumpTo?: { memberId: string, at: number } | null; // A new value pans to that person
 }
 
-const TreeVisualization: React.FC<TreeVisualizationProps> = ({ members = [], onResearchAncestors }) => {
-  const svgRef = useRef<SVGSVGElement>(null);
+const NO_IDS = new Set<string>();
+
+// Card markup is assigned to innerHTML, and names come from imported files
+// and model output; everything from the data goes through this.
+const HTML_ESCAPES: Record<string, string> = { '&': '&amp;', '<': '&lt;', '>': '&gt;', '"': '&quot;', "'": '&#39;' };
+const escapeHtml = (value: string) => value.replace(/[&<>"']/g, c => HTML_ESCAPES[c]);
+
+// Qualifier and calendar under the date in the biography panel, e.g. "Approximate · Julian".
+const dateDetail = (member: FamilyMember, event: LifeEvent) => {
+  const date = memberDate(member, event);
+  if (!date) return '';
+  return [date.qualifier !== 'exact' ? DATE_QUALIFIER_LABELS[date.qualifier] : '', date.calendar === 'julian' ? 'Julian' : ''].filter(Boolean).join(' · ');
+};
+
+// Collapse handle above (ancestors) or below (descendants) a card; shows
+// the hidden count once collapsed.
+const branchToggle = (direction: BranchDirection, hidden?: number) => `
+  <button data-branch="${direction}" class="absolute left-1/2 -translate-x-1/2 ${direction === 'ancestors' ? '-top-4' : '-bottom-4'} h-8 min-w-[2rem] px-2 rounded-full bg-white border-2 shadow text-[10px] font-black transition-all ${hidden === undefined ? 'opacity-0 group-hover:opacity-100 border-slate-200 text-slate-400 hover:text-indigo-600' : 'border-indigo-400 text-indigo-600'}" title="${hidden === undefined ? `Collapse ${direction}` : `Show ${hidden} hidden`}">
+    ${hidden === undefined ? `<i class="fas fa-chevron-${direction === 'ancestors' ? 'up' : 'down'}"></i>` : `+${hidden}`}
+  </button>`;
+
+// Card markup for people shown at full detail.
+const cardHtml = (d: FamilyMember, memberWarnings: PlausibilityWarning[], toggles: string) => {
+  const genderClass = d.gender === 'male' ? 'bg-blue-50 border-blue-200' : 
+                     (d.gender === 'female' ? 'bg-rose-50 border-rose-200' : 'bg-white border-slate-200');
+  const hasError = memberWarnings.some(w => w.severity === 'error');
+  const warningBadge = memberWarnings.length === 0 ? '' : `
+    <span class="text-[9px] px-2 py-0.5 rounded-full font-black ${hasError ? 'bg-rose-100 text-rose-700' : 'bg-amber-100 text-amber-700'}" title="${escapeHtml(memberWarnings.map(w => w.message).join('\n'))}">
+      <i class="fas fa-exclamation-triangle"></i> ${memberWarnings.length}
+    </span>`;
+  return `
+    <div class="relative group h-full p-6 rounded-[2rem] border-2 flex flex-col justify-between transition-all duration-300 hover:shadow-2xl hover:-translate-y-1 hover:border-indigo-400 bg-white ${genderClass}">
+      <div class="flex-1 overflow-hidden">
+        <div class="flex items-center justify-between mb-2">
+          <span class="text-[9px] font-black uppercase tracking-[0.25em] text-indigo-500/80 truncate mr-2">${escapeHtml(d.relationship || 'Profile')}</span>
+          <div class="flex items-center gap-2">
+            ${warningBadge}
+            <i class="fas ${d.gender === 'male' ? 'fa-mars text-blue-400' : (d.gender === 'female' ? 'fa-venus text-rose-400' : 'fa-user text-slate-300')} text-[10px]"></i>
+          </div>
+        </div>
+        <h3 class="font-black text-slate-900 text-base truncate leading-tight">${escapeHtml(d.name)}</h3>
+      </div>
+      <div class="flex items-center justify-between mt-3 pt-3 border-t border-slate-100/50">
+        <p class="text-[10px] text-slate-500 font-black truncate">${escapeHtml(displayDate(d, 'birth') || '????')} — ${escapeHtml(displayDate(d, 'death') || 'Now')}</p>
+        ${d.vitalStatus === 'living' ? '<span class="text-[9px] px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full font-black">LIVING</span>' : ''}
+      </div>
+      ${toggles}
+    </div>
+  `;
+};
+
+const TreeVisualization: React.FC<TreeVisualizationProps> = ({ members = [], onResearchAncestors, onTraceGenerations, onEditMember, warnings = {}, places = [], onSaveEvent, onDeleteEvent, sources = [], onSaveCitation, onDeleteCitation, onSetHomePerson, searchMatches = NO_IDS, filteredOut = NO_IDS, filterMode = 'dim', jumpTo }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const viewportRef = useRef<HTMLDivElement>(null);
   const nodesLayerRef = useRef<HTMLDivElement>(null);
-  const [selectedMember, setSelectedMember] = useState<FamilyMember | null>(null);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  // Looked up on every render so edits made from the panel show immediately.
+  const selectedMember = members.find(m => m.id === selectedId) || null;
   const [dimensions, setDimensions] = useState({ width: 0, height: 0 });
   const [zoomLevel, setZoomLevel] = useState(1);
+  // Relationship calculator: the first person while picking the second, then the pair.
+  const [pickFromId, setPickFromId] = useState<string | null>(null);
+  const [comparison, setComparison] = useState<{ fromId: string, toId: string } | null>(null);
+  const pickFromRef = useRef<string | null>(null);
+  pickFromRef.current = pickFromId;
+  const [chartType, setChartType] = useState<ChartType>('family');
+  const [generations, setGenerations] = useState(5);
+  const byId = useMemo(() => new Map(members.map(m => [m.id, m])), [members]);
+  const parentIds = useMemo(() => new Set(members.flatMap(m => m.parents || [])), [members]);
+  // People focused on so far, most recent last, for the breadcrumb.
+  const [focusTrail, setFocusTrail] = useState<string[]>([]);
+  const trail = focusTrail.filter(id => byId.has(id));
+  const focusId = trail[trail.length - 1] || null;
+  const [collapsed, setCollapsed] = useState<CollapsedBranch[]>([]);
+  const filtered = useMemo(() => filterMode === 'hide' && filteredOut.size > 0 ? members.filter(m => !filteredOut.has(m.id)) : members, [members, filteredOut, filterMode]);
+  const collapsedTree = useMemo(() => collapseBranches(filtered, collapsed), [filtered, collapsed]);
+  const shown = collapsedTree.members;
+  const chartFocusId = shown.some(m => m.id === focusId) ? focusId! : shown[0]?.id;
+  // Large trees take a moment to lay out, so only redo it when people move.
+  const structure = useMemo(() => layoutSignature(shown), [shown]);
+  const layoutFocus = chartType === 'family' ? undefined : chartFocusId;
+  const layout = useMemo(() => layoutTree(shown, chartType, { focusId: layoutFocus, generations }), [structure, chartType, layoutFocus, generations]);
+  const scene = useMemo(() => createScene(layout), [layout]);
+  const kinship = comparison && findRelationship(members, comparison.fromId, comparison.toId);
+  const reverseKinship = comparison && findRelationship(members, comparison.toId, comparison.fromId);
+  const nameOf = (id: string) => members.find(m => m.id === id)?.name || id;
+  const highlightPath = kinship?.path.join('|') || '';
 
   // Zoom behavior stored in a ref to allow manual calls from buttons
   const zoomBehaviorRef = useRef<any>(null);
+  const transformRef = useRef(d3.zoomIdentity);
+  const sceneRef = useRef(scene);
+  sceneRef.current = scene;
+  const frameRef = useRef(0);
+  const renderRef = useRef(() => {});
+  // What each card element was last rendered from, so unchanged cards are left alone.
+  const renderedCards = useRef(new WeakMap<HTMLDivElement, { member: FamilyMember, markup: string }>());
+  // Someone to keep at the same spot on screen through the next layout change.
+  const anchorRef = useRef<{ memberId: string, at: [number, number] } | null>(null);
+
+  const isCollapsed = (memberId: string, direction: BranchDirection) => collapsed.some(b => b.memberId === memberId && b.direction === direction);
+
+  const toggleBranch = (memberId: string, direction: BranchDirection) => {
+    const node = sceneRef.current.layout.nodes.find(n => n.memberId === memberId);
+    if (node) anchorRef.current = { memberId, at: transformRef.current.apply([node.x, node.y]) };
+    setCollapsed(current => current.some(b => b.memberId === memberId && b.direction === direction)
+      ? current.filter(b => b.memberId !== memberId || b.direction !== direction)
+      : [...current, { memberId, direction }]);
+  };
 
-  useEffect(() => {
-    if (!svgRef.current || !nodesLayerRef.current || !Array.isArray(members) || members.length === 0 || !containerRef.current) return;
-
-    const svgElement = d3.select(svgRef.current);
-    const nodesLayer = d3.select(nodesLayerRef.current);
-    const container = d3.select(containerRef.current);
-    
-    // Cleanup previous renders
-    svgElement.selectAll("*").remove();
-    nodesLayer.selectAll("*").remove();
-
-    const nodeWidth = 240;
-    const nodeHeight = 120;
-    const verticalGap = 200;
-    const horizontalGap = 80;
-    const padding = 120;
-
-    // 1. Logic: Map generations
-    const generations: Record<string, number> = {};
-    const processed = new Set<string>();
-
-    const assignGen = (id: string, gen: number) => {
-      if (!id || processed.has(id)) return;
-      generations[id] = gen;
-      processed.add(id);
-      
-      const member = members.find(m => m.id === id);
-      if (member) {
-        const children = members.filter(m => m.parents?.includes(id));
-        children.forEach(c => assignGen(c.id, gen + 1));
-        member.partners?.forEach(pId => assignGen(pId, gen));
-      }
-    };
-
-    const rootNodes = members.filter(m => !m.parents || m.parents.length === 0);
-    rootNodes.forEach(r => assignGen(r.id, 0));
-    members.forEach(m => { if (!processed.has(m.id)) assignGen(m.id, 0); });
-
-    // 2. Logic: Coordinate calculation
-    const genGroups: Record<number, string[]> = {};
-    members.forEach(m => {
-      const gen = generations[m.id] ?? 0;
-      if (!genGroups[gen]) genGroups[gen] = [];
-      genGroups[gen].push(m.id);
+  // Re-center on someone, expanding any branch that hides them. Focusing
+  // someone already in the trail goes back to them.
+  const focusOn = (memberId: string) => {
+    if (collapsedTree.hidden.some(h => h.has(memberId))) setCollapsed(collapsed.filter((_, i) => !collapsedTree.hidden[i].has(memberId)));
+    setFocusTrail(current => {
+      const index = current.indexOf(memberId);
+      return index >= 0 ? current.slice(0, index + 1) : [...current, memberId];
     });
+  };
 
-    const nodePositions: Record<string, { x: number, y: number }> = {};
-    let totalMaxWidth = 0;
-    let totalMaxHeight = 0;
+  const togglesFor = (memberId: string) => (['ancestors', 'descendants'] as const).map(direction => {
+    const index = collapsed.findIndex(b => b.memberId === memberId && b.direction === direction);
+    if (index >= 0) return branchToggle(direction, collapsedTree.hidden[index].size);
+    const hasBranch = direction === 'ancestors' ? (byId.get(memberId)?.parents || []).some(p => byId.has(p)) : parentIds.has(memberId);
+    return hasBranch ? branchToggle(direction) : '';
+  }).join('');
+
+  const selectNode = (event: MouseEvent, memberId: string) => {
+    event.stopPropagation();
+    const fromId = pickFromRef.current;
+    if (fromId) {
+      setPickFromId(null);
+      setComparison({ fromId, toId: memberId });
+      return;
+    }
+    setSelectedId(memberId);
+  };
 
-    Object.keys(genGroups).forEach(genStr => {
-      const gen = parseInt(genStr);
-      const idsInGen = genGroups[gen];
-      const sortedIds: string[] = [];
-      const visitedInRow = new Set<string>();
-      
-      idsInGen.forEach(id => {
-        if (visitedInRow.has(id)) return;
-        const member = members.find(m => m.id === id);
-        const partnersInRow = member?.partners?.filter(pId => idsInGen.includes(pId)) || [];
-        
-        if (partnersInRow.length > 0) {
-          const pId = partnersInRow[0];
-          const p = members.find(x => x.id === pId);
-          if (member?.gender === 'female' && p?.gender === 'male') {
-            sortedIds.push(pId, id);
-          } else {
-            sortedIds.push(id, pId);
-          }
-          visitedInRow.add(id);
-          visitedInRow.add(pId);
-        } else {
-          sortedIds.push(id);
-          visitedInRow.add(id);
+  // Draw the canvas and sync HTML cards with the viewport. Reassigned every
+  // render so zoom events between renders see the latest props.
+  renderRef.current = () => {
+    frameRef.current = 0;
+    const canvas = canvasRef.current;
+    const container = containerRef.current;
+    const nodesLayer = nodesLayerRef.current;
+    if (!canvas || !container || !nodesLayer) return;
+
+    const transform = transformRef.current;
+    const width = container.clientWidth;
+    const height = container.clientHeight;
+    const pixelRatio = window.devicePixelRatio || 1;
+    if (canvas.width !== Math.round(width * pixelRatio) || canvas.height !== Math.round(height * pixelRatio)) {
+      canvas.width = Math.round(width * pixelRatio);
+      canvas.height = Math.round(height * pixelRatio);
+    }
+    const css = `translate(${transform.x}px, ${transform.y}px) scale(${transform.k})`;
+    if (viewportRef.current) viewportRef.current.style.transform = css;
+    nodesLayer.style.transform = css;
+
+    const path = highlightPath ? highlightPath.split('|') : [];
+    const highlight = { nodes: new Set(path), steps: new Set(path.slice(1).flatMap((id, i) => [`${path[i]}|${id}`, `${id}|${path[i]}`])) };
+    const dimmed = filterMode === 'dim' ? filteredOut : NO_IDS;
+    drawScene(canvas.getContext('2d')!, scene, { transform, width, height, pixelRatio, members: byId, highlight, matches: searchMatches, dimmed });
+
+    // Full cards only for people on screen.
+    const [x0, y0] = transform.invert([0, 0]);
+    const [x1, y1] = transform.invert([width, height]);
+    const visible = transform.k >= CARD_ZOOM ? nodesInView(scene, x0, y0, x1, y1).filter(n => byId.has(n.memberId)) : [];
+    const cards = d3.select(nodesLayer).selectAll<HTMLDivElement, LayoutNode>(".member-node").data(visible, n => n.key);
+    cards.exit().remove();
+    cards.enter()
+      .append("div")
+      .attr("class", "absolute cursor-pointer member-node pointer-events-auto")
+      .style("width", `${CARD_WIDTH}px`)
+      .style("height", `${CARD_HEIGHT}px`)
+      .on("click", (event: MouseEvent, n) => {
+        const toggle = (event.target as Element).closest('[data-branch]');
+        if (!toggle) return selectNode(event, n.memberId);
+        event.stopPropagation();
+        toggleBranch(n.memberId, toggle.getAttribute('data-branch') as BranchDirection);
+      })
+      .merge(cards)
+      .style("left", n => `${n.x}px`)
+      .style("top", n => `${n.y}px`)
+      .classed("opacity-30", n => (path.length > 0 && !highlight.nodes.has(n.memberId)) || dimmed.has(n.memberId))
+      .each(function(n) {
+        const member = byId.get(n.memberId)!;
+        const memberWarnings = warnings[n.memberId] || [];
+        const markup = cardHtml(member, memberWarnings, togglesFor(n.memberId));
+        const rendered = renderedCards.current.get(this);
+        if (rendered?.member !== member || rendered.markup !== markup) {
+          this.innerHTML = markup;
+          renderedCards.current.set(this, { member, markup });
         }
+        const onPath = highlight.nodes.has(n.memberId);
+        d3.select(this).select("div")
+          .classed("ring-8", onPath || searchMatches.has(n.memberId))
+          .classed("ring-indigo-500/40", onPath)
+          .classed("ring-amber-400/60", !onPath && searchMatches.has(n.memberId));
       });
+  };
 
-      sortedIds.forEach((id, index) => {
-        const x = padding + index * (nodeWidth + horizontalGap);
-        const y = padding + gen * verticalGap;
-        nodePositions[id] = { x, y };
-        totalMaxWidth = Math.max(totalMaxWidth, x + nodeWidth + padding);
-        totalMaxHeight = Math.max(totalMaxHeight, y + nodeHeight + padding);
-      });
-    });
+  const scheduleRender = () => {
+    if (!frameRef.current) frameRef.current = requestAnimationFrame(() => renderRef.current());
+  };
 
-    setDimensions({ width: totalMaxWidth, height: totalMaxHeight });
-
-    const svg = svgElement
-      .attr("width", totalMaxWidth)
-      .attr("height", totalMaxHeight);
-
-    const gLines = svg.append("g");
-
-    // 3. Render: Connectors
-    members.forEach(m => {
-      const pos = nodePositions[m.id];
-      if (!pos) return;
-      m.partners?.forEach(pId => {
-        const pPos = nodePositions[pId];
-        if (pPos && members.indexOf(m) < members.indexOf(members.find(x => x.id === pId)!)) {
-          gLines.append("line")
-            .attr("x1", pos.x + nodeWidth)
-            .attr("y1", pos.y + nodeHeight / 2)
-            .attr("x2", pPos.x)
-            .attr("y2", pPos.y + nodeHeight / 2)
-            .attr("stroke", "#cbd5e1")
-            .attr("stroke-width", 3)
-            .attr("stroke-dasharray", "8,8");
-        }
-      });
+  const hasMembers = members.length > 0;
 
-      if (m.parents && m.parents.length > 0) {
-        m.parents.forEach(parentId => {
-          const pPos = nodePositions[parentId];
-          const childPos = nodePositions[m.id];
-          if (pPos && childPos) {
-            const startX = pPos.x + nodeWidth / 2;
-            const startY = pPos.y + nodeHeight;
-            const endX = childPos.x + nodeWidth / 2;
-            const endY = childPos.y;
-            const midY = startY + (endY - startY) * 0.5;
-            const path = `M ${startX} ${startY} L ${startX} ${midY} L ${endX} ${midY} L ${endX} ${endY}`;
-            gLines.append("path")
-              .attr("d", path)
-              .attr("fill", "none")
-              .attr("stroke", "#64748b")
-              .attr("stroke-width", 3)
-              .attr("stroke-linejoin", "round");
-          }
-        });
-      }
-    });
+  // Zoom, resizing and canvas hit-testing, once the chart is on screen.
+  useEffect(() => {
+    if (!hasMembers || !containerRef.current) return;
+    const containerElement = containerRef.current;
+    const container = d3.select(containerElement);
 
-    // 4. Render: Member Profiles
-    const nodes = nodesLayer.selectAll(".member-node")
-      .data(members)
-      .enter()
-      .append("div")
-      .attr("class", "absolute cursor-pointer member-node pointer-events-auto")
-      .style("width", `${nodeWidth}px`)
-      .style("height", `${nodeHeight}px`)
-      .style("left", d => `${nodePositions[d.id]?.x}px`)
-      .style("top", d => `${nodePositions[d.id]?.y}px`)
-      .on("click", (event, d) => {
-        setSelectedMember(d);
-        event.stopPropagation();
+    const zoom = d3.zoom<HTMLDivElement, unknown>()
+      .scaleExtent([0.02, 4])
+      .on("zoom", (event) => {
+        transformRef.current = event.transform;
+        setZoomLevel(event.transform.k);
+        scheduleRender();
       });
+    container.call(zoom);
+    zoomBehaviorRef.current = zoom;
 
-    nodes.each(function(d) {
-      const genderClass = d.gender === 'male' ? 'bg-blue-50 border-blue-200' : 
-                         (d.gender === 'female' ? 'bg-rose-50 border-rose-200' : 'bg-white border-slate-200');
-      d3.select(this).html(`
-        <div class="h-full p-6 rounded-[2rem] border-2 flex flex-col justify-between transition-all duration-300 hover:shadow-2xl hover:-translate-y-1 hover:border-indigo-400 bg-white ${genderClass}">
-          <div class="flex-1 overflow-hidden">
-            <div class="flex items-center justify-between mb-2">
-              <span class="text-[9px] font-black uppercase tracking-[0.25em] text-indigo-500/80 truncate mr-2">${d.relationship || 'Profile'}</span>
-              <i class="fas ${d.gender === 'male' ? 'fa-mars text-blue-400' : (d.gender === 'female' ? 'fa-venus text-rose-400' : 'fa-user text-slate-300')} text-[10px]"></i>
-            </div>
-            <h3 class="font-black text-slate-900 text-base truncate leading-tight">${d.name}</h3>
-          </div>
-          <div class="flex items-center justify-between mt-3 pt-3 border-t border-slate-100/50">
-            <p class="text-[10px] text-slate-500 font-black">${d.birthYear || '????'} — ${d.deathYear || 'Now'}</p>
-            ${d.vitalStatus === 'living' ? '<span class="text-[9px] px-2 py-0.5 bg-emerald-100 text-emerald-700 rounded-full font-black">LIVING</span>' : ''}
-          </div>
-        </div>
-      `);
-    });
-
-    // 5. Setup: Zoom engine
-    const zoom = d3.zoom()
-      .scaleExtent([0.05, 4])
-      .on("zoom", (event) => {
-        if (viewportRef.current) {
-          const { x, y, k } = event.transform;
-          d3.select(viewportRef.current).style("transform", `translate(${x}px, ${y}px) scale(${k})`);
-          setZoomLevel(k);
-        }
+    // Fan segments and zoomed-out cards are canvas pixels, found by position.
+    const nodeAtPointer = (event: MouseEvent) => {
+      if (event.target !== containerElement) return undefined;
+      const [x, y] = transformRef.current.invert(d3.pointer(event, containerElement));
+      return nodeAt(sceneRef.current, x, y);
+    };
+    container
+      .on("click.select", (event: MouseEvent) => {
+        const node = nodeAtPointer(event);
+        if (node) selectNode(event, node.memberId);
+      })
+      .on("mousemove.hover", (event: MouseEvent) => {
+        containerElement.style.cursor = nodeAtPointer(event) ? 'pointer' : '';
       });
 
-    container.call(zoom as any);
-    zoomBehaviorRef.current = zoom;
+    const observer = new ResizeObserver(() => scheduleRender());
+    observer.observe(containerElement);
+    return () => {
+      container.on(".zoom", null).on("click.select", null).on("mousemove.hover", null);
+      observer.disconnect();
+      cancelAnimationFrame(frameRef.current);
+      frameRef.current = 0;
+    };
+  }, [hasMembers]);
+
+  const centerOn = (node: LayoutNode) => {
+    if (!containerRef.current || !zoomBehaviorRef.current) return;
+    const [x, y] = node.arc ? [node.x + node.arc.labelX, node.y + node.arc.labelY] : [node.x + CARD_WIDTH / 2, node.y + CARD_HEIGHT / 2];
+    d3.select(containerRef.current).transition().duration(750).call(zoomBehaviorRef.current.transform, d3.zoomIdentity
+      .translate(containerRef.current.clientWidth / 2, containerRef.current.clientHeight / 2)
+      .scale(Math.max(transformRef.current.k, CARD_ZOOM))
+      .translate(-x, -y)
+    );
+  };
 
-    // Center and Fit on first render
-    if (totalMaxWidth > 0 && totalMaxHeight > 0) {
-      const cw = containerRef.current.clientWidth;
-      const ch = containerRef.current.clientHeight;
-      const initialScale = Math.min(cw / totalMaxWidth, ch / totalMaxHeight) * 0.8;
-      container.call(zoom.transform as any, d3.zoomIdentity
-        .translate(cw / 2, ch / 2)
-        .scale(initialScale)
-        .translate(-totalMaxWidth / 2, -totalMaxHeight / 2)
-      );
+  // Search results: pan to the person, expanding a branch or re-centering a
+  // chart that leaves them out first.
+  const pendingJumpRef = useRef<string | null>(null);
+  useEffect(() => {
+    if (!jumpTo) return;
+    const node = layout.nodes.find(n => n.memberId === jumpTo.memberId);
+    if (node) return centerOn(node);
+    pendingJumpRef.current = jumpTo.memberId;
+    if (collapsedTree.hidden.some(h => h.has(jumpTo.memberId))) setCollapsed(collapsed.filter((_, i) => !collapsedTree.hidden[i].has(jumpTo.memberId)));
+    else if (chartType !== 'family') focusOn(jumpTo.memberId);
+  }, [jumpTo]);
+
+  // Whenever the layout or focus changes: keep a just-toggled person in place,
+  // finish a search jump, center the focus person in the family tree, or fit
+  // the whole chart.
+  useEffect(() => {
+    setDimensions({ width: layout.width, height: layout.height });
+    if (!containerRef.current || !zoomBehaviorRef.current || layout.width <= 0 || layout.height <= 0) return;
+    const container = d3.select(containerRef.current);
+    const cw = containerRef.current.clientWidth;
+    const ch = containerRef.current.clientHeight;
+
+    const anchor = anchorRef.current;
+    anchorRef.current = null;
+    const anchorNode = anchor && layout.nodes.find(n => n.memberId === anchor.memberId);
+    if (anchor && anchorNode) {
+      const k = transformRef.current.k;
+      container.call(zoomBehaviorRef.current.transform, d3.zoomIdentity.translate(anchor.at[0] - anchorNode.x * k, anchor.at[1] - anchorNode.y * k).scale(k));
+      return;
     }
 
-  }, [members]);
+    const jumpId = pendingJumpRef.current;
+    pendingJumpRef.current = null;
+    const jumpNode = jumpId && layout.nodes.find(n => n.memberId === jumpId);
+    if (jumpNode) return centerOn(jumpNode);
+
+    const focusNode = chartType === 'family' && focusId ? layout.nodes.find(n => n.memberId === focusId) : undefined;
+    if (focusNode) return centerOn(focusNode);
+
+    const initialScale = Math.min(cw / layout.width, ch / layout.height) * 0.8;
+    container.call(zoomBehaviorRef.current.transform, d3.zoomIdentity
+      .translate(cw / 2, ch / 2)
+      .scale(initialScale)
+      .translate(-layout.width / 2, -layout.height / 2)
+    );
+  }, [layout, hasMembers, focusId]);
+
+  // Edits that keep the layout only redraw what changed.
+  useEffect(() => scheduleRender(), [scene, byId, warnings, highlightPath, collapsedTree, searchMatches, filteredOut, filterMode]);
 
   const handleZoomIn = () => {
     if (zoomBehaviorRef.current && containerRef.current) {
@@ -264,20 +387,95 @@ const TreeVisualization: React.FC<TreeVisualizationProps> = ({ members = [], onR
         <div className="bg-white/80 backdrop-blur rounded-2xl px-3 py-2 shadow-lg border border-slate-100 text-[10px] font-black text-slate-400 text-center uppercase tracking-widest">{Math.round(zoomLevel * 100)}%</div>
       </div>
 
-      <div ref={viewportRef} className="relative origin-top-left will-change-transform" style={{ width: dimensions.width, height: dimensions.height }}>
-        <div className="absolute inset-0 bg-[radial-gradient(#f1f5f9_2px,transparent_2px)] [background-size:60px_60px] pointer-events-none opacity-40"></div>
-        <svg ref={svgRef} className="absolute inset-0 pointer-events-none"></svg>
-        <div ref={nodesLayerRef} className="absolute inset-0 pointer-events-none"></div>
+      <div className="absolute top-6 right-6 z-20 flex flex-col items-end gap-3 cursor-default" onMouseDown={(e) => e.stopPropagation()}>
+        <div className="flex bg-white shadow-xl rounded-2xl border border-slate-50 p-1 gap-1">
+          {CHART_TYPES.map(c => (
+            <button
+              key={c.type}
+              onClick={() => setChartType(c.type)}
+              className={`w-10 h-10 rounded-xl flex items-center justify-center transition-all ${chartType === c.type ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-indigo-600'}`}
+              title={c.label}
+            >
+              <i className={`fas ${c.icon}`}></i>
+            </button>
+          ))}
+        </div>
+        {chartType !== 'family' && (
+          <div className="flex items-center gap-2 bg-white/90 backdrop-blur shadow-lg rounded-2xl border border-slate-100 px-3 py-2">
+            <select value={chartFocusId} onChange={(e) => focusOn(e.target.value)} className="bg-transparent outline-none text-xs font-bold text-slate-700 max-w-[10rem]" title="Chart focus">
+              {members.map(m => <option key={m.id} value={m.id}>{m.name}</option>)}
+            </select>
+            <select value={generations} onChange={(e) => setGenerations(Number(e.target.value))} className="bg-transparent outline-none text-xs font-bold text-slate-500" title="Generations">
+              {[2, 3, 4, 5, 6, 7, 8, 9, 10].map(n => <option key={n} value={n}>{n} gen.</option>)}
+            </select>
+          </div>
+        )}
       </div>
+
+      {(trail.length > 0 || collapsed.length > 0) && (
+        <div className="absolute bottom-6 left-6 z-20 flex flex-col items-start gap-2 max-w-[60%] cursor-default">
+          {collapsed.length > 0 && (
+            <button onClick={() => setCollapsed([])} className="bg-white/90 backdrop-blur shadow-lg rounded-2xl border border-slate-100 px-4 py-2 text-xs font-black text-slate-500 hover:text-indigo-600 transition-all">
+              <i className="fas fa-expand-alt mr-2"></i>{members.length - shown.length} hidden in {collapsed.length} {collapsed.length === 1 ? 'branch' : 'branches'} · Expand All
+            </button>
+          )}
+          {trail.length > 0 && (
+            <div className="flex items-center gap-2 bg-white/90 backdrop-blur shadow-lg rounded-2xl border border-slate-100 px-4 py-2 text-xs font-bold overflow-x-auto max-w-full">
+              <i className="fas fa-crosshairs text-indigo-400"></i>
+              {trail.length > 6 && <span className="text-slate-300">…</span>}
+              {trail.slice(-6).map((id, i, shownTrail) => (
+                <React.Fragment key={id}>
+                  {i > 0 && <i className="fas fa-chevron-right text-[8px] text-slate-300"></i>}
+                  <button onClick={() => focusOn(id)} className={`whitespace-nowrap ${i === shownTrail.length - 1 ? 'text-indigo-600 font-black' : 'text-slate-500 hover:text-indigo-600'}`}>{nameOf(id)}</button>
+                </React.Fragment>
+              ))}
+              <button onClick={() => setFocusTrail([])} className="ml-1 text-slate-300 hover:text-slate-500" title="Clear focus"><i className="fas fa-times"></i></button>
+            </div>
+          )}
+        </div>
+      )}
+
+      {pickFromId && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 bg-indigo-600 text-white shadow-xl rounded-full pl-6 pr-2 py-2 flex items-center gap-4 text-xs font-black">
+          <span><i className="fas fa-project-diagram mr-2"></i>Select someone to compare with {nameOf(pickFromId)}</span>
+          <button onClick={() => setPickFromId(null)} className="px-4 py-2 bg-white/20 rounded-full hover:bg-white/30">Cancel</button>
+        </div>
+      )}
+
+      {comparison && !pickFromId && (
+        <div className="absolute top-6 left-1/2 -translate-x-1/2 z-20 bg-white shadow-2xl rounded-3xl border border-slate-100 px-8 py-5 max-w-xl cursor-default" onClick={(e) => e.stopPropagation()}>
+          <div className="flex items-start gap-6">
+            <div className="flex-1">
+              <label className="text-[10px] font-black text-slate-400 uppercase tracking-widest block mb-2">Relationship</label>
+              {kinship ? (
+                <>
+                  <p className="text-sm font-bold text-slate-700">{nameOf(comparison.toId)} is {nameOf(comparison.fromId)}'s <span className="font-black text-indigo-600">{kinship.label}</span>.</p>
+                  {reverseKinship && kinship.kind !== 'self' && <p className="text-sm font-bold text-slate-700">{nameOf(comparison.fromId)} is {nameOf(comparison.toId)}'s <span className="font-black text-indigo-600">{reverseKinship.label}</span>.</p>}
+                  <p className="text-[10px] text-slate-400 font-bold mt-2">{kinship.path.map(nameOf).join(' → ')}</p>
+                </>
+              ) : (
+                <p className="text-sm font-bold text-slate-500">No blood, marriage or step relationship between {nameOf(comparison.fromId)} and {nameOf(comparison.toId)} in this tree.</p>
+              )}
+            </div>
+            <button onClick={() => setComparison(null)} className="w-8 h-8 rounded-full bg-slate-50 text-slate-400 hover:text-slate-600"><i className="fas fa-times"></i></button>
+          </div>
+        </div>
+      )}
+
+      <div ref={viewportRef} className="absolute top-0 left-0 origin-top-left will-change-transform pointer-events-none" style={{ width: dimensions.width, height: dimensions.height }}>
+        <div className="absolute inset-0 bg-[radial-gradient(#f1f5f9_2px,transparent_2px)] [background-size:60px_60px] opacity-40"></div>
+      </div>
+      <canvas ref={canvasRef} className="absolute inset-0 w-full h-full pointer-events-none"></canvas>
+      <div ref={nodesLayerRef} className="absolute top-0 left-0 origin-top-left will-change-transform pointer-events-none"></div>
       
       {selectedMember && (
-        <div className="fixed top-28 right-10 w-96 bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50">
+        <div className="fixed top-28 right-10 w-96 max-h-[calc(100vh-10rem)] overflow-y-auto custom-scrollbar bg-white rounded-[3rem] shadow-2xl border border-slate-200 p-10 animate-in slide-in-from-right duration-300 z-50">
           <div className="flex justify-between items-start mb-10">
             <div>
                <h4 className="font-black text-slate-900 text-2xl tracking-tight">Biography</h4>
                <p className="text-[11px] text-indigo-500 font-black uppercase tracking-[0.3em] mt-2">Historical ID: {selectedMember.id}</p>
             </div>
-            <button onClick={() => setSelectedMember(null)} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
+            <button onClick={() => setSelectedId(null)} className="w-12 h-12 rounded-full bg-slate-50 flex items-center justify-center text-slate-400 hover:text-slate-600 transition-all"><i className="fas fa-times text-xl"></i></button>
           </div>
           <div className="space-y-8">
             <div>
@@ -288,15 +486,101 @@ const TreeVisualization: React.FC<TreeVisualizationProps> = ({ members = [], onR
             <div className="grid grid-cols-2 gap-4">
               <div className="bg-slate-50 p-5 rounded-2xl text-center">
                 <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">Born</label>
-                <p className="text-lg font-black text-slate-800">{selectedMember.birthYear || '????'}</p>
+                <p className="text-lg font-black text-slate-800">{displayDate(selectedMember, 'birth') || '????'}</p>
+                {dateDetail(selectedMember, 'birth') && <p className="text-[9px] font-black text-indigo-500 uppercase tracking-widest mt-1">{dateDetail(selectedMember, 'birth')}</p>}
               </div>
               <div className="bg-slate-50 p-5 rounded-2xl text-center">
                 <label className="text-[9px] font-black text-slate-400 uppercase tracking-widest block mb-1">Died</label>
-                <p className="text-lg font-black text-slate-800">{selectedMember.deathYear || 'Living'}</p>
+                <p className="text-lg font-black text-slate-800">{displayDate(selectedMember, 'death') || 'Living'}</p>
+                {dateDetail(selectedMember, 'death') && <p className="text-[9px] font-black text-indigo-500 uppercase tracking-widest mt-1">{dateDetail(selectedMember, 'death')}</p>}
               </div>
             </div>
+            {(warnings[selectedMember.id] || []).length > 0 && (
+              <ul className="space-y-2">
+                {warnings[selectedMember.id].map((w, i) => (
+                  <li key={i} className={`p-3 rounded-2xl text-xs font-bold ${w.severity === 'error' ? 'bg-rose-50 text-rose-700' : 'bg-amber-50 text-amber-700'}`}>
+                    <i className="fas fa-exclamation-triangle mr-2"></i>{w.message}
+                  </li>
+                ))}
+              </ul>
+            )}
+            {onSaveEvent && onDeleteEvent && (
+              <EventList
+                member={selectedMember}
+                members={members}
+                places={places}
+                sources={sources}
+                onSave={(event, placeText) => onSaveEvent(selectedMember.id, event, placeText)}
+                onDelete={(eventId) => onDeleteEvent(selectedMember.id, eventId)}
+              />
+            )}
+            {onSaveCitation && onDeleteCitation && (
+              <CitationList
+                member={selectedMember}
+                sources={sources}
+                onSave={(citation, newSource) => onSaveCitation(selectedMember.id, citation, newSource)}
+                onDelete={(citationId) => onDeleteCitation(selectedMember.id, citationId)}
+              />
+            )}
+            <div className="grid grid-cols-2 gap-3">
+              <button
+                onClick={() => { setComparison(null); setPickFromId(selectedMember.id); setSelectedId(null); }}
+                className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+              >
+                <i className="fas fa-project-diagram"></i> Relationship To...
+              </button>
+              <button
+                onClick={() => { focusOn(selectedMember.id); setSelectedId(null); }}
+                className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                title="Center the chart on this person"
+              >
+                <i className="fas fa-crosshairs"></i> Focus Here
+              </button>
+              {(selectedMember.parents || []).some(p => byId.has(p)) && (
+                <button
+                  onClick={() => toggleBranch(selectedMember.id, 'ancestors')}
+                  className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                >
+                  <i className="fas fa-chevron-up"></i> {isCollapsed(selectedMember.id, 'ancestors') ? 'Show' : 'Hide'} Ancestors
+                </button>
+              )}
+              {parentIds.has(selectedMember.id) && (
+                <button
+                  onClick={() => toggleBranch(selectedMember.id, 'descendants')}
+                  className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                >
+                  <i className="fas fa-chevron-down"></i> {isCollapsed(selectedMember.id, 'descendants') ? 'Show' : 'Hide'} Descendants
+                </button>
+              )}
+              {onSetHomePerson && (
+                <button
+                  onClick={() => { onSetHomePerson(selectedMember.id); focusOn(selectedMember.id); setSelectedId(null); }}
+                  className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                  title="Relabel everyone's relationship relative to this person"
+                >
+                  <i className="fas fa-home"></i> Set as Home
+                </button>
+              )}
+              {onTraceGenerations && (
+                <button
+                  onClick={() => { onTraceGenerations(selectedMember.id); setSelectedId(null); }}
+                  className="py-4 bg-slate-50 text-slate-600 rounded-3xl text-xs font-black hover:bg-slate-100 transition-all flex items-center justify-center gap-2"
+                  title="Research several generations of ancestors or descendants from this person"
+                >
+                  <i className="fas fa-project-diagram"></i> Trace Generations
+                </button>
+              )}
+            </div>
+            {onEditMember && (
+              <button
+                onClick={() => { onEditMember(selectedMember.id); setSelectedId(null); }}
+                className="w-full py-5 bg-indigo-50 text-indigo-700 rounded-3xl text-sm font-black hover:bg-indigo-100 transition-all flex items-center justify-center gap-4"
+              >
+                <i className="fas fa-pen"></i> Edit Details
+              </button>
+            )}
             <button 
-              onClick={() => { onResearchAncestors?.(selectedMember.id); setSelectedMember(null); }}
+              onClick={() => { onResearchAncestors?.(selectedMember.id); setSelectedId(null); }}
               className="w-full py-5 bg-indigo-600 text-white rounded-3xl text-sm font-black shadow-xl shadow-indigo-100 hover:bg-indigo-700 transition-all flex items-center justify-center gap-4"
             >
               <i className="fas fa-history"></i> Research Ancestry
@@ -0,0 +1,116 @@
+import { GroundingSource } from "../types";
+import { createGeminiProvider } from "./geminiProvider";
+import { createOpenAiProvider } from "./openAiProvider";
+import { createMockProvider } from "./mockProvider";
+
+export type AiTask = 'search' | 'extraction' | 'vision' | 'chat';
+
+export type AiProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface SearchResult {
+  text: string;
+  sources: GroundingSource[];
+  citedText?: string; // `text` with [n] markers after passages backed by sources[n - 1]
+}
+
+// Structured-output schema written with Gemini's type names ("OBJECT",
+// "STRING", ...). Other providers translate it to JSON Schema.
+export type ResponseSchema = Record<string, unknown>;
+
+export interface InlineImage {
+  mimeType: string;
+  data: string; // Base64, without the data: URL prefix
+}
+
+/**
+ * A model backend. Each call names the model to use, so tasks can run on
+ * different models of the same provider, and takes a signal that cancels it.
+ */
+export interface AiProvider {
+  id: AiProviderId;
+  // Web-grounded answer with its sources. Throws when the provider has no
+  // search; callers fall back to `chat`.
+  search: (prompt: string, model: string, signal?: AbortSignal) => Promise<SearchResult>;
+  // JSON text following `schema`.
+  extract: (prompt: string, schema: ResponseSchema, model: string, signal?: AbortSignal) => Promise<string>;
+  extractImage: (prompt: string, image: InlineImage, schema: ResponseSchema, model: string, signal?: AbortSignal) => Promise<string>;
+  chat: (prompt: string, model: string, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface AiSettings {
+  provider: AiProviderId;
+  models: Record<AiTask, string>;
+  baseUrl?: string; // OpenAI-compatible server, e.g. http://localhost:11434/v1
+  apiKey?: string; // Replaces the key the app was built with
+}
+
+export const AI_PROVIDER_LABELS: Record<AiProviderId, string> = {
+  gemini: 'Google Gemini',
+  openai: 'OpenAI-compatible',
+  mock: 'Offline mock'
+};
+
+export const AI_TASK_LABELS: Record<AiTask, string> = {
+  search: 'Research search',
+  extraction: 'Structured extraction',
+  vision: 'Document images',
+  chat: 'Chat & fallback'
+};
+
+export const DEFAULT_MODELS: Record<AiProviderId, Record<AiTask, string>> = {
+  gemini: { search: 'gemini-3-flash-preview', extraction: 'gemini-3-flash-preview', vision: 'gemini-3-flash-preview', chat: 'gemini-3-flash-preview' },
+  openai: { search: 'gpt-4o-mini', extraction: 'gpt-4o-mini', vision: 'gpt-4o-mini', chat: 'gpt-4o-mini' },
+  mock: { search: 'mock', extraction: 'mock', vision: 'mock', chat: 'mock' }
+};
+
+const SETTINGS_KEY = 'ancestryflow:aiSettings';
+
+const isProviderId = (value: unknown): value is AiProviderId => typeof value === 'string' && value in AI_PROVIDER_LABELS;
+
+/**
+ * Settings for a provider with its default models. The build can pick the
+ * provider and server with AI_PROVIDER and AI_BASE_URL.
+ */
+export const defaultAiSettings = (provider: AiProviderId = isProviderId(process.env.AI_PROVIDER) ? process.env.AI_PROVIDER : 'gemini'): AiSettings => ({
+  provider,
+  models: { ...DEFAULT_MODELS[provider] },
+  baseUrl: provider === 'openai' ? process.env.AI_BASE_URL || 'http://localhost:11434/v1' : undefined
+});
+
+/**
+ * The settings saved in this browser, or the defaults. Models left blank use
+ * the provider's default.
+ */
+export const loadAiSettings = (): AiSettings => {
+  try {
+    const saved = JSON.parse(localStorage.getItem(SETTINGS_KEY) || 'null');
+    if (!saved || !isProviderId(saved.provider)) return defaultAiSettings();
+    const defaults = defaultAiSettings(saved.provider);
+    const models = { ...defaults.models };
+    (Object.keys(models) as AiTask[]).forEach(task => {
+      if (typeof saved.models?.[task] === 'string' && saved.models[task].trim()) models[task] = saved.models[task].trim();
+    });
+    return { ...defaults, ...saved, models };
+  } catch {
+    return defaultAiSettings();
+  }
+};
+
+export const saveAiSettings = (settings: AiSettings) => localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+
+let current: { key: string, provider: AiProvider } | null = null;
+
+/**
+ * The provider for some settings. Clients are reused until the provider,
+ * server or key changes.
+ */
+export const getProvider = (settings: AiSettings): AiProvider => {
+  const key = JSON.stringify([settings.provider, settings.baseUrl, settings.apiKey]);
+  if (current?.key === key) return current.provider;
+  const apiKey = settings.apiKey || process.env.API_KEY;
+  const provider = settings.provider === 'mock' ? createMockProvider()
+    : settings.provider === 'openai' ? createOpenAiProvider(settings.baseUrl || defaultAiSettings('openai').baseUrl!, settings.apiKey)
+    : createGeminiProvider(apiKey);
+  current = { key, provider };
+  return provider;
+};
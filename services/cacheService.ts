@@ -0,0 +1,199 @@
+import { AiProviderId } from "./aiProvider";
+import { RequestOptions } from "./requestService";
+
+export type CacheKind = 'search' | 'extraction';
+
+export interface CacheKeyParts {
+  kind: CacheKind;
+  provider: AiProviderId;
+  model: string;
+  inputType: string; // e.g. "text" for research, or the upload type
+  prompt: string;
+}
+
+export interface CacheEntry<T = unknown> {
+  key: string; // SHA-256 of the key parts
+  kind: CacheKind;
+  provider: AiProviderId;
+  model: string;
+  inputType: string;
+  summary: string; // Start of the prompt, for the inspector
+  value: T;
+  size: number; // Characters of JSON
+  createdAt: number;
+  expiresAt: number;
+  hits: number;
+}
+
+const DAY = 24 * 60 * 60 * 1000;
+
+// Search answers go stale as new records are indexed; an extraction of the
+// same text by the same model does not.
+export const CACHE_TTLS: Record<CacheKind, number> = {
+  search: 7 * DAY,
+  extraction: 30 * DAY
+};
+
+export const CACHE_KIND_LABELS: Record<CacheKind, string> = {
+  search: 'Search',
+  extraction: 'Extraction'
+};
+
+const DB_NAME = 'ancestryflow-cache';
+const DB_VERSION = 1;
+const RESPONSES = 'responses';
+const SUMMARY_LENGTH = 120;
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(RESPONSES)) {
+          db.createObjectStore(RESPONSES, { keyPath: 'key' }).createIndex('expiresAt', 'expiresAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(RESPONSES, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Together, so a transaction that aborts while run is pending still rejects.
+  const [result] = await Promise.all([run(tx.objectStore(RESPONSES)), done]);
+  return result;
+};
+
+/**
+ * Content address of a request: the same prompt to the same model and
+ * provider gets the same key.
+ */
+export const cacheKey = async ({ kind, provider, model, inputType, prompt }: CacheKeyParts): Promise<string> => {
+  const bytes = new TextEncoder().encode(JSON.stringify([kind, provider, model, inputType, prompt]));
+  const digest = await crypto.subtle.digest('SHA-256', bytes);
+  return Array.from(new Uint8Array(digest), b => b.toString(16).padStart(2, '0')).join('');
+};
+
+/**
+ * A live entry, counting the hit. Expired entries are deleted on the way.
+ */
+export const readCache = <T>(key: string): Promise<CacheEntry<T> | undefined> => {
+  return withStore('readwrite', async store => {
+    const entry = await wrap(store.get(key) as IDBRequest<CacheEntry<T> | undefined>);
+    if (!entry) return undefined;
+    if (entry.expiresAt <= Date.now()) {
+      await wrap(store.delete(key));
+      return undefined;
+    }
+    const updated = { ...entry, hits: entry.hits + 1 };
+    await wrap(store.put(updated));
+    return updated;
+  });
+};
+
+export const writeCache = <T>(key: string, parts: CacheKeyParts, value: T): Promise<void> => {
+  const now = Date.now();
+  const entry: CacheEntry<T> = {
+    key,
+    kind: parts.kind,
+    provider: parts.provider,
+    model: parts.model,
+    inputType: parts.inputType,
+    summary: parts.prompt.replace(/\s+/g, ' ').trim().slice(0, SUMMARY_LENGTH),
+    value,
+    size: JSON.stringify(value).length,
+    createdAt: now,
+    expiresAt: now + CACHE_TTLS[parts.kind],
+    hits: 0
+  };
+  return withStore('readwrite', async store => {
+    await wrap(store.put(entry));
+  });
+};
+
+/**
+ * All entries, newest first, for the cache inspector.
+ */
+export const listCacheEntries = async (): Promise<CacheEntry[]> => {
+  const entries = await withStore('readonly', store => wrap(store.getAll() as IDBRequest<CacheEntry[]>));
+  return entries.sort((a, b) => b.createdAt - a.createdAt);
+};
+
+export const deleteCacheEntry = (key: string): Promise<void> => {
+  return withStore('readwrite', async store => {
+    await wrap(store.delete(key));
+  });
+};
+
+export const clearCache = (): Promise<void> => {
+  return withStore('readwrite', async store => {
+    await wrap(store.clear());
+  });
+};
+
+/**
+ * Delete expired entries; returns how many went.
+ */
+export const pruneCache = (): Promise<number> => {
+  return withStore('readwrite', async store => {
+    const expired = await wrap(store.index('expiresAt').getAllKeys(IDBKeyRange.upperBound(Date.now())));
+    await Promise.all(expired.map(key => wrap(store.delete(key))));
+    return expired.length;
+  });
+};
+
+const age = (since: number) => {
+  const minutes = Math.round((Date.now() - since) / 60_000);
+  if (minutes < 1) return 'moments';
+  if (minutes < 60) return `${minutes} minute${minutes === 1 ? '' : 's'}`;
+  const hours = Math.round(minutes / 60);
+  if (hours < 48) return `${hours} hour${hours === 1 ? '' : 's'}`;
+  return `${Math.round(hours / 24)} days`;
+};
+
+/**
+ * Answer from the cache when there is a live entry, unless the request
+ * bypasses it; otherwise run `load` and store what `shouldStore` accepts.
+ * A missing or broken cache never fails the request.
+ */
+export const cachedResponse = async <T>(parts: CacheKeyParts, request: RequestOptions, load: () => Promise<T>, shouldStore: (value: T) => boolean = () => true): Promise<T> => {
+  let key: string | undefined;
+  try {
+    key = await cacheKey(parts);
+    if (!request.bypassCache) {
+      const entry = await readCache<T>(key);
+      if (entry) {
+        request.onProgress?.({ stage: 'cached', message: `Using the ${CACHE_KIND_LABELS[parts.kind].toLowerCase()} answer saved ${age(entry.createdAt)} ago...` });
+        return entry.value;
+      }
+    }
+  } catch (err) {
+    console.warn("Response cache unavailable", err);
+  }
+
+  const value = await load();
+  if (key && shouldStore(value)) {
+    writeCache(key, parts, value).catch(err => console.warn("Could not cache response", err));
+  }
+  return value;
+};
@@ -0,0 +1,218 @@
+import { Citation, CitationQuality, CitedField, ExtractionResult, FamilyMember, GroundingSource, MemberEvent } from "../types";
+
+export const CITATION_QUALITIES: { quality: CitationQuality, label: string, quay: number }[] = [
+  { quality: 'primary', label: 'Primary', quay: 3 },
+  { quality: 'secondary', label: 'Secondary', quay: 2 },
+  { quality: 'questionable', label: 'Questionable', quay: 1 },
+  { quality: 'unreliable', label: 'Unreliable', quay: 0 }
+];
+
+export const CITED_FIELDS: { field: CitedField, label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'birth', label: 'Birth' },
+  { field: 'death', label: 'Death' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'parents', label: 'Parents' },
+  { field: 'partners', label: 'Partners' },
+  { field: 'relationship', label: 'Relationship' },
+  { field: 'event', label: 'Event' },
+  { field: 'general', label: 'General' }
+];
+
+export const citedFieldLabel = (field: CitedField) => CITED_FIELDS.find(f => f.field === field)?.label || field;
+export const qualityLabel = (quality?: CitationQuality) => CITATION_QUALITIES.find(q => q.quality === quality)?.label;
+
+export const createCitationId = () => `c-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+// Search grounding links are one-off redirects, so those sources are matched by title.
+const REDIRECT_HOSTS = /(^|\.)vertexaisearch\.cloud\.google\.com$/;
+
+const sourceKey = (source: GroundingSource) => {
+  const title = `title:${(source.title || '').trim().replace(/\s+/g, ' ').toLowerCase()}`;
+  if (!source.uri?.trim()) return title;
+  try {
+    const url = new URL(source.uri.trim());
+    if (REDIRECT_HOSTS.test(url.host)) return title;
+    Array.from(url.searchParams.keys())
+      .filter(k => /^(utm_.*|fbclid|gclid)$/i.test(k))
+      .forEach(k => url.searchParams.delete(k));
+    return `uri:${url.host.toLowerCase().replace(/^www\./, '')}${url.pathname.replace(/\/+$/, '')}${url.search}`;
+  } catch {
+    return `uri:${source.uri.trim().toLowerCase()}`;
+  }
+};
+
+/**
+ * Give every library entry an ID; sources saved before citations existed have none.
+ */
+export const ensureSourceIds = (sources: GroundingSource[] = []): GroundingSource[] => {
+  if (sources.every(s => s.id)) return sources;
+  const ids = new Set(sources.map(s => s.id).filter(Boolean));
+  let n = 0;
+  return sources.map(s => {
+    if (s.id) return s;
+    do n++; while (ids.has(`s${n}`));
+    ids.add(`s${n}`);
+    return { ...s, id: `s${n}` };
+  });
+};
+
+/**
+ * Add a source to the library unless an equivalent one (same page, or same
+ * title for untitled/redirect links) is already there.
+ */
+export const addSource = (sources: GroundingSource[] = [], source: GroundingSource): { sources: GroundingSource[], sourceId: string } => {
+  const library = ensureSourceIds(sources);
+  const key = sourceKey(source);
+  const existing = library.find(s => sourceKey(s) === key);
+  if (existing) return { sources: library, sourceId: existing.id! };
+  const [added] = ensureSourceIds([...library, { title: source.title, uri: source.uri || '' }]).slice(-1);
+  return { sources: [...library, added], sourceId: added.id! };
+};
+
+/**
+ * Fold another result's sources into ours. The remap translates the other
+ * result's source IDs to IDs in the returned library.
+ */
+export const mergeSourceLibraries = (current: GroundingSource[] = [], incoming: GroundingSource[] = []): { sources: GroundingSource[], remap: Map<string, string> } => {
+  let sources = ensureSourceIds(current);
+  const remap = new Map<string, string>();
+  ensureSourceIds(incoming).forEach(source => {
+    const added = addSource(sources, source);
+    sources = added.sources;
+    remap.set(source.id!, added.sourceId);
+  });
+  return { sources, remap };
+};
+
+const citationKey = (c: Citation) => [c.sourceId, c.field, c.eventId || '', (c.page || '').trim().toLowerCase(), (c.excerpt || '').trim().toLowerCase()].join('|');
+
+export const mergeCitations = (current: Citation[] = [], incoming: Citation[] = []): Citation[] => {
+  const seen = new Set(current.map(citationKey));
+  return [...current, ...incoming.filter(c => {
+    const key = citationKey(c);
+    if (seen.has(key)) return false;
+    seen.add(key);
+    return true;
+  })];
+};
+
+/**
+ * Cite sources given by title on an event, adding them to the library.
+ * Birth and death live on the member, so their events cite those fields.
+ */
+export const citeEventSources = (sources: GroundingSource[] = [], event: MemberEvent, titles: string[]): { sources: GroundingSource[], citations: Citation[] } => {
+  let library = ensureSourceIds(sources);
+  const citations = titles.map(t => t.trim()).filter(Boolean).map(title => {
+    let sourceId: string;
+    ({ sources: library, sourceId } = addSource(library, { title, uri: '' }));
+    const citation: Citation = event.type === 'birth' || event.type === 'death'
+      ? { id: createCitationId(), sourceId, field: event.type }
+      : { id: createCitationId(), sourceId, field: 'event', eventId: event.id };
+    return citation;
+  });
+  return { sources: library, citations };
+};
+
+// Trees saved before citations existed kept an event's source as free text.
+type LegacyEvent = MemberEvent & { source?: string };
+
+/**
+ * Turn legacy free-text event sources into library entries cited on their
+ * events. Trees without any are returned as they are.
+ */
+export const migrateEventSources = (data: ExtractionResult): ExtractionResult => {
+  if (!data.members.some(m => (m.events as LegacyEvent[] | undefined)?.some(e => 'source' in e))) return data;
+  let sources = ensureSourceIds(data.sources);
+  const members = data.members.map(m => {
+    const legacy = (m.events || []) as LegacyEvent[];
+    if (!legacy.some(e => 'source' in e)) return m;
+    const cited: Citation[] = [];
+    const events = legacy.map(({ source, ...event }) => {
+      if (!source) return event;
+      const added = citeEventSources(sources, event, [source]);
+      sources = added.sources;
+      cited.push(...added.citations);
+      return event;
+    });
+    const citations = mergeCitations(m.citations, cited);
+    return { ...m, events, citations: citations.length ? citations : undefined };
+  });
+  return { ...data, members, sources };
+};
+
+export const citationsFor = (member: FamilyMember | undefined, field: CitedField, eventId?: string) =>
+  (member?.citations || []).filter(c => c.field === field && (field !== 'event' || c.eventId === eventId));
+
+// A citation as produced by the model: `source` is the 1-based number of a grounding source.
+export type ExtractedCitation = Partial<Citation> & { source?: number };
+
+/**
+ * Build the source library from the grounding sources of a search and turn
+ * the model's numbered references into citations. References to unknown
+ * sources are dropped.
+ */
+export const resolveExtractedCitations = (result: ExtractionResult, grounding: GroundingSource[] = []): ExtractionResult => {
+  let sources = ensureSourceIds(result.sources);
+  const byNumber = grounding.map(source => {
+    const added = addSource(sources, source);
+    sources = added.sources;
+    return added.sourceId;
+  });
+  const known = new Set(sources.map(s => s.id));
+
+  const members = result.members.map(m => {
+    if (!Array.isArray(m.citations)) return m;
+    const citations = (m.citations as ExtractedCitation[])
+      .map(c => {
+        const sourceId = typeof c.source === 'number' ? byNumber[c.source - 1] : c.sourceId;
+        if (!sourceId || !known.has(sourceId) || !CITED_FIELDS.some(f => f.field === c.field)) return undefined;
+        const citation: Citation = { id: c.id || createCitationId(), sourceId, field: c.field! };
+        if (c.field === 'event' && c.eventId) citation.eventId = c.eventId;
+        if (c.quality && CITATION_QUALITIES.some(q => q.quality === c.quality)) citation.quality = c.quality;
+        if (c.page) citation.page = c.page;
+        if (c.excerpt) citation.excerpt = c.excerpt;
+        return citation;
+      })
+      .filter((c): c is Citation => !!c);
+    return { ...m, citations: mergeCitations([], citations) };
+  });
+
+  return { ...result, members, sources };
+};
+
+/**
+ * Add or replace a citation on a member. A new source is added to the
+ * library first (or matched to an existing entry).
+ */
+export const saveCitation = (data: ExtractionResult, memberId: string, citation: Citation, newSource?: GroundingSource): ExtractionResult => {
+  let sources = ensureSourceIds(data.sources);
+  let sourceId = citation.sourceId;
+  if (newSource) ({ sources, sourceId } = addSource(sources, newSource));
+  const stored: Citation = { ...citation, sourceId };
+  if (stored.field !== 'event') delete stored.eventId;
+
+  return {
+    ...data,
+    sources,
+    members: data.members.map(m => {
+      if (m.id !== memberId) return m;
+      const citations = m.citations || [];
+      return {
+        ...m,
+        citations: citations.some(c => c.id === stored.id) ? citations.map(c => c.id === stored.id ? stored : c) : [...citations, stored]
+      };
+    })
+  };
+};
+
+export const removeCitation = (data: ExtractionResult, memberId: string, citationId: string): ExtractionResult => ({
+  ...data,
+  members: data.members.map(m => m.id === memberId ? { ...m, citations: (m.citations || []).filter(c => c.id !== citationId) } : m)
+});
+
+/**
+ * One-line summary, e.g. for reviewing proposed changes.
+ */
+export const describeCitations = (citations: Citation[] = [], sources: GroundingSource[] = []) =>
+  citations.map(c => `${citedFieldLabel(c.field)}: ${sources.find(s => s.id === c.sourceId)?.title || c.sourceId}`).join('; ');
@@ -0,0 +1,194 @@
+import { ExtractionResult, FamilyMember } from "../types";
+import { BranchDirection } from "./familyGraph";
+import { discoverExtendedFamily } from "./geminiService";
+import { mergeExtractionResults } from "./mergeService";
+import { isCancelled, RequestOptions } from "./requestService";
+
+export interface CrawlBudget {
+  maxCalls: number; // Research requests, one per person researched
+  maxPeople: number; // People the job may add; checked after each request
+}
+
+export interface CrawlOptions {
+  rootId: string;
+  direction: BranchDirection;
+  generations: number; // How many generations away from the root to research
+  budget: CrawlBudget;
+}
+
+export type CrawlTaskStatus = 'queued' | 'running' | 'done' | 'failed' | 'skipped';
+
+export interface CrawlTask {
+  memberId: string; // In the job's working tree
+  name: string;
+  generation: number; // 0 for the root
+  status: CrawlTaskStatus;
+  found?: number; // People the request added
+  error?: string;
+}
+
+export type CrawlStatus = 'running' | 'paused' | 'finished' | 'stopped' | 'failed';
+
+export interface CrawlJob {
+  id: string;
+  options: CrawlOptions;
+  status: CrawlStatus;
+  stopReason?: string;
+  tasks: CrawlTask[]; // Breadth-first: a generation is queued before the next
+  calls: number;
+  added: number;
+  data: ExtractionResult; // Working copy; the tree itself only changes on review
+  base: ExtractionResult; // The tree when the job started
+}
+
+export const CRAWL_DIRECTION_LABELS: Record<BranchDirection, string> = {
+  ancestors: 'Ancestors',
+  descendants: 'Descendants'
+};
+
+export const DEFAULT_CRAWL_BUDGET: CrawlBudget = { maxCalls: 20, maxPeople: 60 };
+
+export const MAX_CRAWL_GENERATIONS = 6;
+
+const jobId = () => `crawl-${Date.now().toString(36)}`;
+
+/**
+ * The next generation out from a member: parents going up, children going down.
+ */
+const nextGeneration = (members: FamilyMember[], memberId: string, direction: BranchDirection): FamilyMember[] => {
+  if (direction === 'ancestors') {
+    const parents = members.find(m => m.id === memberId)?.parents || [];
+    return members.filter(m => parents.includes(m.id));
+  }
+  return members.filter(m => (m.parents || []).includes(memberId));
+};
+
+const updateTask = (job: CrawlJob, memberId: string, changes: Partial<CrawlTask>): CrawlJob => ({
+  ...job,
+  tasks: job.tasks.map(t => t.memberId === memberId ? { ...t, ...changes } : t)
+});
+
+// End the job, leaving whatever was still queued unresearched.
+const stopJob = (job: CrawlJob, status: CrawlStatus, stopReason?: string): CrawlJob => ({
+  ...job,
+  status,
+  stopReason,
+  tasks: job.tasks.map(t => t.status === 'queued' ? { ...t, status: 'skipped' } : t)
+});
+
+export const createCrawlJob = (data: ExtractionResult, options: CrawlOptions): CrawlJob => {
+  const root = data.members.find(m => m.id === options.rootId);
+  if (!root) throw new Error("The person to start from is no longer in the tree.");
+  return {
+    id: jobId(),
+    options: { ...options, generations: Math.min(MAX_CRAWL_GENERATIONS, Math.max(1, Math.round(options.generations))) },
+    status: 'running',
+    tasks: [{ memberId: root.id, name: root.name, generation: 0, status: 'queued' }],
+    calls: 0,
+    added: 0,
+    data,
+    base: data
+  };
+};
+
+export const nextCrawlTask = (job: CrawlJob): CrawlTask | undefined => job.tasks.find(t => t.status === 'queued');
+
+export const pauseCrawl = (job: CrawlJob): CrawlJob => job.status === 'running' ? { ...job, status: 'paused' } : job;
+
+export const resumeCrawl = (job: CrawlJob): CrawlJob => job.status === 'paused' ? { ...job, status: 'running' } : job;
+
+export const stopCrawl = (job: CrawlJob, reason = 'Stopped'): CrawlJob => {
+  const current = job.tasks.find(t => t.status === 'running');
+  return stopJob(current ? updateTask(job, current.memberId, { status: 'queued' }) : job, 'stopped', reason);
+};
+
+export const failCrawl = (job: CrawlJob, reason: string): CrawlJob => {
+  const current = job.tasks.find(t => t.status === 'running');
+  return stopJob(current ? updateTask(job, current.memberId, { status: 'failed', error: reason }) : job, 'failed', reason);
+};
+
+// Single-valued facts research may fill in on people already in the tree.
+const FOUND_FIELDS: (keyof FamilyMember)[] = ['birthYear', 'deathYear', 'birthDate', 'deathDate', 'gender', 'relationship', 'vitalStatus', 'notes', 'status'];
+
+const newItems = <T>(items: T[] = [], before: T[] = [], key: (item: T) => string) => {
+  const seen = new Set(before.map(key));
+  return items.filter(item => !seen.has(key(item)));
+};
+
+/**
+ * What the job found, to merge into the tree as it is now: the people it
+ * added, and for people the tree already had, only the facts, links, events
+ * and citations that are new since the job started. Whatever the user
+ * changed or deleted in the meantime is left alone; people deleted since
+ * are not brought back.
+ */
+export const crawlFindings = (job: CrawlJob, current: ExtractionResult): ExtractionResult => {
+  const before = new Map(job.base.members.map(m => [m.id, m]));
+  const now = new Map(current.members.map(m => [m.id, m]));
+  const members = job.data.members.flatMap((m): FamilyMember[] => {
+    const old = before.get(m.id);
+    if (!old) return [m];
+    const person = now.get(m.id);
+    if (!person || JSON.stringify(old) === JSON.stringify(m)) return [];
+    const changed = Object.fromEntries(FOUND_FIELDS
+      .filter(field => JSON.stringify(m[field]) !== JSON.stringify(old[field]))
+      .map(field => [field, m[field]]));
+    return [{
+      ...changed,
+      id: m.id,
+      name: person.name, // So the merge still matches them if renamed since
+      parents: newItems(m.parents, old.parents, id => id),
+      partners: newItems(m.partners, old.partners, id => id),
+      events: newItems(m.events, old.events, e => e.id),
+      citations: newItems(m.citations, old.citations, c => c.id)
+    }];
+  });
+  return { ...job.data, members };
+};
+
+/**
+ * Mark the next task as running, so the queue shows it before the request
+ * returns.
+ */
+export const startCrawlTask = (job: CrawlJob): CrawlJob => {
+  const task = nextCrawlTask(job);
+  return task ? updateTask(job, task.memberId, { status: 'running' }) : job;
+};
+
+/**
+ * Research the next person in the queue and merge what was found into the
+ * job's working tree. Their parents or children, including ones just found,
+ * are queued as the next generation until `generations` is reached. The job
+ * ends when the queue empties or a budget runs out; a failed request only
+ * fails its own task. Cancelling the request rejects, leaving the job as it
+ * was.
+ */
+export const runCrawlTask = async (job: CrawlJob, request: RequestOptions = {}): Promise<CrawlJob> => {
+  const task = job.tasks.find(t => t.status === 'running') || nextCrawlTask(job);
+  if (!task) return stopJob(job, 'finished');
+  const { direction, generations, budget } = job.options;
+  if (job.calls >= budget.maxCalls) return stopJob(job, 'stopped', `Used all ${budget.maxCalls} research requests`);
+
+  let next = updateTask(job, task.memberId, { status: 'running' });
+  try {
+    const found = await discoverExtendedFamily(next.data.members, direction === 'ancestors' ? 'backward' : 'forward', task.memberId, request);
+    const outcome = mergeExtractionResults(next.data, found);
+    next = { ...updateTask(next, task.memberId, { status: 'done', found: outcome.added.length }), data: outcome.result, calls: next.calls + 1, added: next.added + outcome.added.length };
+  } catch (err: any) {
+    if (isCancelled(err)) throw err;
+    next = { ...updateTask(next, task.memberId, { status: 'failed', error: err?.message || 'Research failed' }), calls: next.calls + 1 };
+  }
+
+  if (task.generation + 1 < generations) {
+    const known = new Set(next.tasks.map(t => t.memberId));
+    const frontier = nextGeneration(next.data.members, task.memberId, direction)
+      .filter(m => !known.has(m.id))
+      .map((m): CrawlTask => ({ memberId: m.id, name: m.name, generation: task.generation + 1, status: 'queued' }));
+    next = { ...next, tasks: [...next.tasks, ...frontier] };
+  }
+
+  if (next.added >= budget.maxPeople) return stopJob(next, 'stopped', `Reached the limit of ${budget.maxPeople} new people`);
+  if (!nextCrawlTask(next)) return stopJob(next, 'finished');
+  if (next.calls >= budget.maxCalls) return stopJob(next, 'stopped', `Used all ${budget.maxCalls} research requests`);
+  return next;
+};
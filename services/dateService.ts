@@ -0,0 +1,295 @@
+import { DateCalendar, DatePart, DateQualifier, FamilyMember, GenealogicalDate } from "../types";
+
+export type LifeEvent = 'birth' | 'death';
+
+export const DATE_QUALIFIER_LABELS: Record<DateQualifier, string> = {
+  exact: 'Exact',
+  about: 'Approximate',
+  estimated: 'Estimated',
+  calculated: 'Calculated',
+  before: 'Before',
+  after: 'After',
+  between: 'Range'
+};
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const QUALIFIER_PREFIXES: Record<Exclude<DateQualifier, 'exact' | 'between'>, string> = {
+  about: 'abt.',
+  estimated: 'est.',
+  calculated: 'cal.',
+  before: 'bef.',
+  after: 'aft.'
+};
+
+// Order matters: "cal" must be tried before the bare "c" of "c. 1850".
+const QUALIFIER_PATTERNS: [RegExp, DateQualifier][] = [
+  [/^(?:cal|calc|calculated)(?:\.\s*|\s+)/, 'calculated'],
+  [/^(?:est|estimated)(?:\.\s*|\s+)/, 'estimated'],
+  [/^(?:bef|before|by|prior to)(?:\.\s*|\s+)/, 'before'],
+  [/^(?:aft|after|since)(?:\.\s*|\s+)/, 'after'],
+  [/^(?:abt|about|approx|approximately|circa|around|ca|c)(?:\.\s*|\s+|(?=\d))/, 'about']
+];
+
+const RANGE_PATTERNS = [
+  /^(?:bet|btw|between)\.?\s+(.+?)\s+(?:and|&)\s+(.+)$/,
+  /^from\s+(.+?)\s+to\s+(.+)$/,
+  /^(\d{3,4})\s*(?:-|–|to)\s*(\d{3,4})$/
+];
+
+const effectiveYear = (part: DatePart) => part.dualYear ?? part.year;
+
+const readDualYear = (year: number, suffix: string) => {
+  if (suffix.length >= 3) return parseInt(suffix, 10);
+  const span = 10 ** suffix.length;
+  const dual = year - (year % span) + parseInt(suffix, 10);
+  return dual <= year ? dual + span : dual;
+};
+
+/**
+ * Parse a single point in time: "1850", "Mar 1850", "12 March 1749/50",
+ * "March 12, 1850" or ISO "1850-03-12". Falls back to the first 3-4 digit
+ * year found in the text.
+ */
+const parsePart = (text: string): DatePart | undefined => {
+  const iso = text.match(/^(\d{4})-(\d{1,2})(?:-(\d{1,2}))?$/);
+  if (iso) {
+    return { year: parseInt(iso[1], 10), month: parseInt(iso[2], 10), day: iso[3] ? parseInt(iso[3], 10) : undefined };
+  }
+
+  const part: Partial<DatePart> = {};
+  let day: number | undefined;
+  let understood = true;
+  text.split(/[\s,]+/).filter(Boolean).forEach(raw => {
+    const token = raw.replace(/\.$/, '');
+    const year = token.match(/^(\d{3,4})(?:\/(\d{1,4}))?$/);
+    const dayMatch = token.match(/^(\d{1,2})(?:st|nd|rd|th)?$/);
+    const month = /^[a-z]{3,}$/.test(token) ? MONTHS.findIndex(m => m.toLowerCase() === token.slice(0, 3)) : -1;
+    if (year && part.year === undefined) {
+      part.year = parseInt(year[1], 10);
+      if (year[2]) part.dualYear = readDualYear(part.year, year[2]);
+    } else if (dayMatch && day === undefined && parseInt(dayMatch[1], 10) >= 1 && parseInt(dayMatch[1], 10) <= 31) {
+      day = parseInt(dayMatch[1], 10);
+    } else if (month >= 0 && part.month === undefined) {
+      part.month = month + 1;
+    } else {
+      understood = false;
+    }
+  });
+
+  if (understood && part.year !== undefined) {
+    return { year: part.year, month: part.month, day: part.month ? day : undefined, dualYear: part.dualYear };
+  }
+  const year = text.match(/\b(\d{3,4})\b/);
+  return year ? { year: parseInt(year[1], 10) } : undefined;
+};
+
+const compact = (part: DatePart): DatePart => {
+  const out: DatePart = { year: part.year };
+  if (part.month) out.month = part.month;
+  if (part.month && part.day) out.day = part.day;
+  if (part.dualYear) out.dualYear = part.dualYear;
+  return out;
+};
+
+/**
+ * Read a free-text or GEDCOM date ("abt. 1850", "BEF 1900", "BET 1850 AND
+ * 1855", "@#DJULIAN@ 12 MAR 1749/50", "1850?") into a structured date.
+ */
+export const parseDate = (text?: string): GenealogicalDate | undefined => {
+  if (!text) return undefined;
+  let value = text.trim().toLowerCase();
+  let calendar: DateCalendar | undefined;
+  if (/@#djulian@|\bjulian\b|\bo\.s\.?$/.test(value)) calendar = 'julian';
+  value = value
+    .replace(/@#d(?:julian|gregorian)@|\(?\b(?:julian|gregorian)\b\)?|\bo\.s\.?$|\bn\.s\.?$/g, '')
+    .trim();
+  if (!value) return undefined;
+
+  const withCalendar = (date: GenealogicalDate): GenealogicalDate => calendar ? { ...date, calendar } : date;
+
+  for (const pattern of RANGE_PATTERNS) {
+    const range = value.match(pattern);
+    if (!range) continue;
+    const start = parsePart(range[1]);
+    const end = parsePart(range[2]);
+    if (start && end) return withCalendar({ qualifier: 'between', start: compact(start), end: compact(end) });
+  }
+
+  let qualifier: DateQualifier = 'exact';
+  if (value.endsWith('?')) {
+    qualifier = 'about';
+    value = value.slice(0, -1).trim();
+  }
+  for (const [pattern, q] of QUALIFIER_PATTERNS) {
+    if (pattern.test(value)) {
+      qualifier = q;
+      value = value.replace(pattern, '');
+      break;
+    }
+  }
+
+  const start = parsePart(value);
+  return start ? withCalendar({ qualifier, start: compact(start) }) : undefined;
+};
+
+const formatYear = (part: DatePart) => {
+  if (!part.dualYear) return `${part.year}`;
+  const sameCentury = Math.floor(part.year / 100) === Math.floor(part.dualYear / 100);
+  return `${part.year}/${sameCentury ? String(part.dualYear % 100).padStart(2, '0') : part.dualYear}`;
+};
+
+const formatPart = (part: DatePart) => [
+  part.month && part.day ? part.day : undefined,
+  part.month ? MONTHS[part.month - 1] : undefined,
+  formatYear(part)
+].filter(Boolean).join(' ');
+
+/**
+ * Human-readable form that parses back to the same date, e.g.
+ * "abt. 1850", "bet. 1850 and 1855", "12 Mar 1749/50 (Julian)".
+ */
+export const formatDate = (date?: GenealogicalDate): string => {
+  if (!date) return '';
+  const body = date.qualifier === 'between' && date.end
+    ? `bet. ${formatPart(date.start)} and ${formatPart(date.end)}`
+    : date.qualifier === 'exact' || date.qualifier === 'between'
+      ? formatPart(date.start)
+      : `${QUALIFIER_PREFIXES[date.qualifier]} ${formatPart(date.start)}`;
+  return date.calendar === 'julian' ? `${body} (Julian)` : body;
+};
+
+const isPart = (value: any): value is DatePart =>
+  !!value && Number.isInteger(value.year)
+  && (value.month === undefined || (Number.isInteger(value.month) && value.month >= 1 && value.month <= 12))
+  && (value.day === undefined || (Number.isInteger(value.day) && value.day >= 1 && value.day <= 31))
+  && (value.dualYear === undefined || Number.isInteger(value.dualYear));
+
+export const isGenealogicalDate = (value: unknown): value is GenealogicalDate => {
+  const date = value as GenealogicalDate;
+  return !!date
+    && ['exact', 'about', 'estimated', 'calculated', 'before', 'after', 'between'].includes(date.qualifier)
+    && (date.calendar === undefined || date.calendar === 'gregorian' || date.calendar === 'julian')
+    && isPart(date.start)
+    && (date.end === undefined || isPart(date.end))
+    && (date.qualifier !== 'between' || !!date.end);
+};
+
+const julianDayNumber = (year: number, month: number, day: number, calendar: DateCalendar) => {
+  const a = Math.floor((14 - month) / 12);
+  const y = year + 4800 - a;
+  const m = month + 12 * a - 3;
+  const base = day + Math.floor((153 * m + 2) / 5) + 365 * y + Math.floor(y / 4);
+  return calendar === 'julian'
+    ? base - 32083
+    : base - Math.floor(y / 100) + Math.floor(y / 400) - 32045;
+};
+
+/**
+ * First (or last) day covered by a possibly partial date, as a Julian Day Number.
+ */
+const dayOf = (part: DatePart, calendar: DateCalendar, last = false) => {
+  const year = effectiveYear(part);
+  if (!last) return julianDayNumber(year, part.month || 1, part.day || 1, calendar);
+  if (part.month && part.day) return julianDayNumber(year, part.month, part.day, calendar);
+  if (part.month) return part.month === 12
+    ? julianDayNumber(year + 1, 1, 1, calendar) - 1
+    : julianDayNumber(year, part.month + 1, 1, calendar) - 1;
+  return julianDayNumber(year + 1, 1, 1, calendar) - 1;
+};
+
+/**
+ * A number that orders dates chronologically across calendars: Julian and
+ * Gregorian dates map to the same day count, "before" sorts just ahead of
+ * its date and "after" just behind the end of its period.
+ */
+export const dateSortKey = (date: GenealogicalDate): number => {
+  const calendar = date.calendar || 'gregorian';
+  switch (date.qualifier) {
+    case 'before': return dayOf(date.start, calendar) - 0.5;
+    case 'after': return dayOf(date.start, calendar, true) + 0.5;
+    case 'between': return (dayOf(date.start, calendar) + dayOf(date.end || date.start, calendar, true)) / 2;
+    default: return dayOf(date.start, calendar);
+  }
+};
+
+// How far an approximate date may be off, in days.
+const APPROXIMATE_SLACK = 366;
+
+/**
+ * Earliest and latest day (Julian Day Numbers) a date could refer to.
+ * Open-ended dates use infinity on their open side; approximate ones
+ * allow a year either way.
+ */
+export const dateRange = (date: GenealogicalDate): [number, number] => {
+  const calendar = date.calendar || 'gregorian';
+  const first = dayOf(date.start, calendar);
+  const last = dayOf(date.end || date.start, calendar, true);
+  switch (date.qualifier) {
+    case 'before': return [-Infinity, first - 1];
+    case 'after': return [last + 1, Infinity];
+    case 'exact':
+    case 'between': return [first, last];
+    default: return [first - APPROXIMATE_SLACK, last + APPROXIMATE_SLACK];
+  }
+};
+
+/**
+ * Sort comparator; undated entries go last.
+ */
+export const compareDates = (a?: GenealogicalDate, b?: GenealogicalDate): number => {
+  if (!a || !b) return a ? -1 : b ? 1 : 0;
+  return dateSortKey(a) - dateSortKey(b);
+};
+
+/**
+ * The single year that best represents a date (the midpoint of a range,
+ * the New Style year of a dual date).
+ */
+export const dateYear = (date?: GenealogicalDate): number | undefined => {
+  if (!date) return undefined;
+  if (date.qualifier === 'between' && date.end) return Math.round((effectiveYear(date.start) + effectiveYear(date.end)) / 2);
+  return effectiveYear(date.start);
+};
+
+/**
+ * Structured birth or death date, parsing the legacy text when a member
+ * predates the date model.
+ */
+export const memberDate = (member: FamilyMember, event: LifeEvent): GenealogicalDate | undefined => {
+  const date = event === 'birth' ? member.birthDate : member.deathDate;
+  return isGenealogicalDate(date) ? date : parseDate(event === 'birth' ? member.birthYear : member.deathYear);
+};
+
+export const memberYear = (member: FamilyMember, event: LifeEvent) => dateYear(memberDate(member, event));
+
+/**
+ * Text to show for a birth or death; unparseable legacy text is shown as-is.
+ */
+export const displayDate = (member: FamilyMember, event: LifeEvent): string | undefined => {
+  const date = memberDate(member, event);
+  return date ? formatDate(date) : (event === 'birth' ? member.birthYear : member.deathYear) || undefined;
+};
+
+/**
+ * Fill in whichever of the structured date or its display text is missing.
+ * The structured date wins when both are present.
+ */
+export const withDates = (member: FamilyMember): FamilyMember => {
+  const next = { ...member };
+  const birth = memberDate(member, 'birth');
+  const death = memberDate(member, 'death');
+  if (birth) {
+    next.birthDate = birth;
+    next.birthYear = formatDate(birth);
+  } else {
+    delete next.birthDate;
+  }
+  if (death) {
+    next.deathDate = death;
+    next.deathYear = formatDate(death);
+  } else {
+    delete next.deathDate;
+  }
+  return next;
+};
@@ -0,0 +1,180 @@
+import { ExtractionResult, FamilyMember, FamilyRelationship } from "../types";
+import { buildRelationships } from "./familyGraph";
+import { displayDate } from "./dateService";
+import { describeEvents } from "./eventService";
+import { describeCitations, ensureSourceIds } from "./citationService";
+import { prunePlaces } from "./placeService";
+
+export type ReviewField = 'name' | 'birthYear' | 'deathYear' | 'gender' | 'relationship' | 'vitalStatus' | 'notes' | 'status' | 'events' | 'citations';
+
+export const REVIEW_FIELDS: { field: ReviewField, label: string }[] = [
+  { field: 'name', label: 'Name' },
+  { field: 'birthYear', label: 'Born' },
+  { field: 'deathYear', label: 'Died' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'vitalStatus', label: 'Vital Status' },
+  { field: 'relationship', label: 'Relationship' },
+  { field: 'status', label: 'Confidence' },
+  { field: 'notes', label: 'Notes' },
+  { field: 'events', label: 'Events' },
+  { field: 'citations', label: 'Sources' }
+];
+
+export interface FieldChange {
+  key: string;
+  field: ReviewField;
+  before?: string;
+  after?: string;
+}
+
+export interface MemberChange {
+  key: string;
+  kind: 'added' | 'modified' | 'removed';
+  memberId: string;
+  name: string;
+  fields: FieldChange[];
+}
+
+export interface RelationshipChange {
+  key: string;
+  kind: 'added' | 'removed';
+  relationship: FamilyRelationship;
+}
+
+export interface TreeDiff {
+  members: MemberChange[];
+  relationships: RelationshipChange[];
+}
+
+const relationshipKey = (r: FamilyRelationship) => {
+  const [a, b] = r.type === 'partner' ? [r.sourceId, r.targetId].sort() : [r.sourceId, r.targetId];
+  return `rel:${r.type}:${a}:${b}`;
+};
+
+/**
+ * Every reviewable key in a diff, e.g. to pre-select all changes.
+ */
+export const allDiffKeys = (diff: TreeDiff): string[] => [
+  ...diff.members.flatMap(m => m.kind === 'modified' ? m.fields.map(f => f.key) : [m.key]),
+  ...diff.relationships.map(r => r.key)
+];
+
+// Dates compare by meaning, so "c. 1850" and "abt. 1850" are not a change;
+// events and citations compare by their readable summary, since place and
+// source IDs differ per tree.
+const fieldValue = (m: FamilyMember, field: ReviewField, data?: ExtractionResult | null): string => {
+  if (field === 'birthYear') return displayDate(m, 'birth') || '';
+  if (field === 'deathYear') return displayDate(m, 'death') || '';
+  if (field === 'events') return describeEvents(m.events, data?.places);
+  if (field === 'citations') return describeCitations(m.citations, data?.sources);
+  return m[field] || '';
+};
+
+export const isEmptyDiff = (diff: TreeDiff) => diff.members.length === 0 && diff.relationships.length === 0;
+
+/**
+ * Compare the current tree with a proposed one, member by member and field
+ * by field. Parent/partner links are reported as relationship changes.
+ */
+export const diffResults = (current: ExtractionResult | null, proposed: ExtractionResult): TreeDiff => {
+  const before = new Map((current?.members || []).map(m => [m.id, m]));
+  const after = new Map(proposed.members.map(m => [m.id, m]));
+  const members: MemberChange[] = [];
+
+  proposed.members.forEach(m => {
+    const old = before.get(m.id);
+    if (!old) {
+      members.push({
+        key: `member:${m.id}`,
+        kind: 'added',
+        memberId: m.id,
+        name: m.name,
+        fields: REVIEW_FIELDS
+          .filter(({ field }) => fieldValue(m, field, proposed))
+          .map(({ field }) => ({ key: `field:${m.id}:${field}`, field, after: fieldValue(m, field, proposed) }))
+      });
+      return;
+    }
+    const fields = REVIEW_FIELDS
+      .filter(({ field }) => fieldValue(old, field, current) !== fieldValue(m, field, proposed))
+      .map(({ field }) => ({ key: `field:${m.id}:${field}`, field, before: fieldValue(old, field, current), after: fieldValue(m, field, proposed) }));
+    if (fields.length > 0) {
+      members.push({ key: `member:${m.id}`, kind: 'modified', memberId: m.id, name: old.name, fields });
+    }
+  });
+
+  (current?.members || []).filter(m => !after.has(m.id)).forEach(m => {
+    members.push({ key: `member:${m.id}`, kind: 'removed', memberId: m.id, name: m.name, fields: [] });
+  });
+
+  const oldRelationships = new Map(buildRelationships(current?.members || []).map(r => [relationshipKey(r), r]));
+  const newRelationships = new Map(buildRelationships(proposed.members).map(r => [relationshipKey(r), r]));
+  const relationships: RelationshipChange[] = [
+    ...Array.from(newRelationships.entries()).filter(([key]) => !oldRelationships.has(key)).map(([key, relationship]) => ({ key, kind: 'added' as const, relationship })),
+    ...Array.from(oldRelationships.entries()).filter(([key]) => !newRelationships.has(key)).map(([key, relationship]) => ({ key, kind: 'removed' as const, relationship }))
+  ];
+
+  return { members, relationships };
+};
+
+const addLink = (list: string[] | undefined, id: string) => list?.includes(id) ? list : [...(list || []), id];
+const dropLink = (list: string[] | undefined, id: string) => list?.filter(x => x !== id);
+
+/**
+ * Build the tree that results from accepting only the selected changes.
+ * Tree-level metadata (title, estate info) follows the proposal. Places and
+ * sources are taken from both trees, since a rejected removal keeps a member
+ * whose events and citations the proposal no longer has entries for; places
+ * nobody uses and new sources nobody cites are dropped.
+ */
+export const applyDiff = (current: ExtractionResult | null, proposed: ExtractionResult, diff: TreeDiff, accepted: Set<string>): ExtractionResult => {
+  const proposedById = new Map(proposed.members.map(m => [m.id, m]));
+  const result = new Map((current?.members || []).map(m => [m.id, { ...m }]));
+
+  diff.members.forEach(change => {
+    if (change.kind === 'added' && accepted.has(change.key)) {
+      const source = proposedById.get(change.memberId)!;
+      result.set(change.memberId, { ...source, parents: [], partners: [] });
+    }
+    if (change.kind === 'modified') {
+      const target = result.get(change.memberId);
+      if (!target) return;
+      const proposedMember = proposedById.get(change.memberId)!;
+      change.fields.filter(f => accepted.has(f.key)).forEach(f => {
+        (target as Record<ReviewField, FamilyMember[ReviewField]>)[f.field] = proposedMember[f.field];
+        // The structured date travels with its display text.
+        if (f.field === 'birthYear') target.birthDate = proposedMember.birthDate;
+        if (f.field === 'deathYear') target.deathDate = proposedMember.deathDate;
+      });
+    }
+  });
+
+  diff.relationships.filter(r => accepted.has(r.key)).forEach(({ kind, relationship: { sourceId, targetId, type } }) => {
+    const source = result.get(sourceId);
+    const target = result.get(targetId);
+    if (!source || !target) return;
+    if (type === 'parent-child') {
+      target.parents = kind === 'added' ? addLink(target.parents, sourceId) : dropLink(target.parents, sourceId);
+    } else if (kind === 'added') {
+      source.partners = addLink(source.partners, targetId);
+      target.partners = addLink(target.partners, sourceId);
+    } else {
+      source.partners = dropLink(source.partners, targetId);
+      target.partners = dropLink(target.partners, sourceId);
+    }
+  });
+
+  const removed = new Set(diff.members.filter(m => m.kind === 'removed' && accepted.has(m.key)).map(m => m.memberId));
+  const members = Array.from(result.values())
+    .filter(m => !removed.has(m.id))
+    .map(m => removed.size === 0 ? m : { ...m, parents: m.parents?.filter(id => !removed.has(id)), partners: m.partners?.filter(id => !removed.has(id)) });
+
+  const byId = <T extends { id?: string }>(entries: T[], more: T[]) => [...entries, ...more.filter(e => !entries.some(x => x.id === e.id))];
+  const currentSources = ensureSourceIds(current?.sources);
+  const known = new Set(currentSources.map(s => s.id));
+  const cited = new Set(members.flatMap(m => (m.citations || []).map(c => c.sourceId)));
+  const sources = byId(currentSources, ensureSourceIds(proposed.sources)).filter(s => known.has(s.id) || cited.has(s.id!));
+  const places = prunePlaces(byId(current?.places || [], proposed.places || []), members);
+
+  return { ...current, ...proposed, members, places, sources };
+};
@@ -0,0 +1,49 @@
+import { ExtractionResult, FamilyMember } from "../types";
+
+export const createMemberId = (members: FamilyMember[]) => {
+  const ids = new Set(members.map(m => m.id));
+  let id = `m-${Date.now().toString(36)}`;
+  for (let n = 2; ids.has(id); n++) id = `m-${Date.now().toString(36)}-${n}`;
+  return id;
+};
+
+/**
+ * Insert or replace a member. Partner links are kept two-sided: partners
+ * added or removed here are mirrored on the other person.
+ */
+export const saveMember = (data: ExtractionResult, member: FamilyMember): ExtractionResult => {
+  const previous = data.members.find(m => m.id === member.id);
+  const partners = new Set(member.partners || []);
+  const before = new Set(previous?.partners || []);
+
+  const members = data.members.map(m => {
+    if (m.id === member.id) return member;
+    if (partners.has(m.id) && !m.partners?.includes(member.id)) {
+      return { ...m, partners: [...(m.partners || []), member.id] };
+    }
+    if (before.has(m.id) && !partners.has(m.id) && m.partners?.includes(member.id)) {
+      return { ...m, partners: m.partners.filter(id => id !== member.id) };
+    }
+    return m;
+  });
+
+  return { ...data, members: previous ? members : [...members, member] };
+};
+
+/**
+ * Remove a member and every parents/partners reference pointing at them.
+ * Marriages recorded on the other spouse are kept, without the partner link.
+ */
+export const deleteMember = (data: ExtractionResult, id: string): ExtractionResult => ({
+  ...data,
+  members: data.members
+    .filter(m => m.id !== id)
+    .map(m => m.parents?.includes(id) || m.partners?.includes(id) || m.events?.some(e => e.partnerId === id)
+      ? {
+          ...m,
+          parents: m.parents?.filter(p => p !== id),
+          partners: m.partners?.filter(p => p !== id),
+          events: m.events?.map(e => e.partnerId === id ? { ...e, partnerId: undefined } : e)
+        }
+      : m)
+});
@@ -0,0 +1,203 @@
+import { EventType, ExtractionResult, FamilyMember, MemberEvent, Place } from "../types";
+import { compareDates, formatDate, isGenealogicalDate, LifeEvent, memberDate, parseDate, withDates } from "./dateService";
+import { ensurePlace, formatPlace, prunePlaces } from "./placeService";
+import { createCitationId, ExtractedCitation } from "./citationService";
+
+export const EVENT_TYPES: { type: EventType, label: string, icon: string }[] = [
+  { type: 'birth', label: 'Birth', icon: 'fa-baby' },
+  { type: 'baptism', label: 'Baptism', icon: 'fa-tint' },
+  { type: 'residence', label: 'Residence', icon: 'fa-home' },
+  { type: 'census', label: 'Census', icon: 'fa-clipboard-list' },
+  { type: 'occupation', label: 'Occupation', icon: 'fa-briefcase' },
+  { type: 'immigration', label: 'Immigration', icon: 'fa-ship' },
+  { type: 'military', label: 'Military Service', icon: 'fa-medal' },
+  { type: 'marriage', label: 'Marriage', icon: 'fa-ring' },
+  { type: 'divorce', label: 'Divorce', icon: 'fa-heart-broken' },
+  { type: 'death', label: 'Death', icon: 'fa-cross' },
+  { type: 'burial', label: 'Burial', icon: 'fa-monument' },
+  { type: 'probate', label: 'Probate', icon: 'fa-balance-scale' },
+  { type: 'other', label: 'Other', icon: 'fa-calendar' }
+];
+
+// Events recorded once per couple; they are stored on one spouse with partnerId.
+export const COUPLE_EVENTS: EventType[] = ['marriage', 'divorce'];
+
+// Events that happen at most once in a life; duplicates are merged by type.
+const SINGLE_EVENTS: EventType[] = ['birth', 'baptism', 'death', 'burial', 'probate'];
+
+const TYPE_ORDER = new Map(EVENT_TYPES.map((t, i) => [t.type, i]));
+
+export const eventLabel = (type: EventType) => EVENT_TYPES.find(t => t.type === type)?.label || type;
+export const eventIcon = (type: EventType) => EVENT_TYPES.find(t => t.type === type)?.icon || 'fa-calendar';
+
+export const createEventId = () => `e-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+const isVital = (type: EventType): type is LifeEvent => type === 'birth' || type === 'death';
+
+export interface TimelineEvent extends MemberEvent {
+  ownerId: string; // Member the event is stored on; differs for a partner's marriage
+}
+
+/**
+ * Everything that happened to a member in date order: their own events,
+ * marriages recorded on a partner, and birth/death even when only the date
+ * is known.
+ */
+export const memberTimeline = (member: FamilyMember, members: FamilyMember[]): TimelineEvent[] => {
+  const own: TimelineEvent[] = (member.events || []).map(e => ({ ...e, ownerId: member.id }));
+  const shared: TimelineEvent[] = members
+    .filter(m => m.id !== member.id)
+    .flatMap(m => (m.events || [])
+      .filter(e => e.partnerId === member.id && COUPLE_EVENTS.includes(e.type))
+      .map(e => ({ ...e, ownerId: m.id })));
+  const vital: TimelineEvent[] = (['birth', 'death'] as const).flatMap(type => {
+    const date = memberDate(member, type);
+    const recorded = own.find(e => e.type === type);
+    if (recorded) {
+      recorded.date = date;
+      return [];
+    }
+    return date ? [{ id: `${member.id}:${type}`, type, date, ownerId: member.id }] : [];
+  });
+
+  return [...own, ...shared, ...vital].sort((a, b) => compareDates(a.date, b.date) || TYPE_ORDER.get(a.type)! - TYPE_ORDER.get(b.type)!);
+};
+
+/**
+ * Birth and death dates live on the member, so their events only carry
+ * place and description. A date found on such an event fills the
+ * member's date when it is missing.
+ */
+export const normalizeMemberEvents = (member: FamilyMember): FamilyMember => {
+  if (!member.events?.length) return member;
+  let next = member;
+  const seen = new Set<EventType>();
+  const events = member.events
+    .filter(e => {
+      if (!isVital(e.type)) return true;
+      if (seen.has(e.type)) return false;
+      seen.add(e.type);
+      return true;
+    })
+    .map(e => {
+      if (!isVital(e.type)) return e;
+      const { date, ...rest } = e;
+      if (date && !memberDate(next, e.type)) {
+        next = withDates({ ...next, [e.type === 'birth' ? 'birthDate' : 'deathDate']: date });
+      }
+      return rest;
+    });
+  return { ...next, events };
+};
+
+// An event as read from a document, with free-text place and date and the
+// number of the grounding source it came from.
+export type ExtractedEvent = MemberEvent & { place?: string, dateText?: string, sourceNumber?: number };
+
+/**
+ * Turn events as extracted from a document (free-text place and date) into
+ * stored events: places are resolved into the result's place hierarchy and
+ * events of unknown types are dropped. Source numbers become numbered
+ * citations for resolveExtractedCitations to link up.
+ */
+export const resolveExtractedEvents = (result: ExtractionResult): ExtractionResult => {
+  let places = result.places || [];
+  const members = result.members.map(m => {
+    if (!Array.isArray(m.events)) return m;
+    const numbered: ExtractedCitation[] = [];
+    // Model output may omit IDs or use unknown types.
+    const events = (m.events as Partial<ExtractedEvent>[])
+      .filter(e => e && TYPE_ORDER.has(e.type as EventType))
+      .map(({ place, dateText, sourceNumber, ...e }) => {
+        const resolved = e.placeId && places.some(p => p.id === e.placeId) ? { places, placeId: e.placeId } : ensurePlace(places, place);
+        places = resolved.places;
+        const event: MemberEvent = { id: e.id || createEventId(), type: e.type! };
+        const date = isGenealogicalDate(e.date) ? e.date : parseDate(dateText);
+        if (date) event.date = date;
+        if (resolved.placeId) event.placeId = resolved.placeId;
+        if (e.description) event.description = e.description;
+        if (e.partnerId && COUPLE_EVENTS.includes(event.type)) event.partnerId = e.partnerId;
+        if (typeof sourceNumber === 'number') {
+          numbered.push(isVital(event.type)
+            ? { id: createCitationId(), source: sourceNumber, field: event.type }
+            : { id: createCitationId(), source: sourceNumber, field: 'event', eventId: event.id });
+        }
+        return event;
+      });
+    const citations = numbered.length ? [...(m.citations || []), ...numbered] as FamilyMember['citations'] : m.citations;
+    return normalizeMemberEvents({ ...m, events, citations });
+  });
+  return { ...result, members, places };
+};
+
+/**
+ * Add or replace one event on a member, resolving its place text. Saving a
+ * birth or death event also sets the member's birth or death date.
+ */
+export const saveEvent = (data: ExtractionResult, memberId: string, event: MemberEvent, placeText: string): ExtractionResult => {
+  const { places, placeId } = ensurePlace(data.places, placeText);
+  const stored: MemberEvent = { ...event, placeId };
+  if (!COUPLE_EVENTS.includes(stored.type)) delete stored.partnerId;
+
+  const members = data.members.map(m => {
+    if (m.id !== memberId) return m;
+    let next = m;
+    if (isVital(stored.type)) {
+      next = stored.type === 'birth'
+        ? withDates({ ...m, birthDate: stored.date, birthYear: stored.date && formatDate(stored.date) })
+        : withDates({ ...m, deathDate: stored.date, deathYear: stored.date && formatDate(stored.date) });
+      delete stored.date;
+    }
+    const events = next.events || [];
+    return {
+      ...next,
+      events: events.some(e => e.id === stored.id) ? events.map(e => e.id === stored.id ? stored : e) : [...events, stored]
+    };
+  });
+
+  return { ...data, members, places: prunePlaces(places, members) };
+};
+
+export const removeEvent = (data: ExtractionResult, memberId: string, eventId: string): ExtractionResult => {
+  // Citations of the event go with it.
+  const members = data.members.map(m => m.id !== memberId ? m : {
+    ...m,
+    events: (m.events || []).filter(e => e.id !== eventId),
+    citations: m.citations?.filter(c => c.eventId !== eventId)
+  });
+  return { ...data, members, places: prunePlaces(data.places, members) };
+};
+
+/**
+ * Fold incoming events into existing ones. Events of the same type and date
+ * (or the same one-off type, like burial) are one event; missing details are
+ * filled from the other record, and `remap` records which existing event an
+ * incoming one became so citations can follow it.
+ */
+export const mergeEvents = (current: MemberEvent[] = [], incoming: MemberEvent[] = [], remap?: Map<string, string>): MemberEvent[] => {
+  const merged = [...current];
+  incoming.forEach(event => {
+    const index = merged.findIndex(e => e.type === event.type
+      && (SINGLE_EVENTS.includes(e.type) || formatDate(e.date) === formatDate(event.date))
+      && (!COUPLE_EVENTS.includes(e.type) || e.partnerId === event.partnerId));
+    if (index < 0) {
+      merged.push(event);
+      return;
+    }
+    const existing = merged[index];
+    remap?.set(event.id, existing.id);
+    merged[index] = {
+      ...existing,
+      date: existing.date || event.date,
+      placeId: existing.placeId || event.placeId,
+      description: existing.description || event.description
+    };
+  });
+  return merged;
+};
+
+/**
+ * One-line summary, e.g. for reviewing proposed changes.
+ */
+export const describeEvents = (events: MemberEvent[] = [], places: Place[] = []) =>
+  events.map(e => [eventLabel(e.type), formatDate(e.date), formatPlace(places, e.placeId)].filter(Boolean).join(' ')).join('; ');
@@ -0,0 +1,91 @@
+import { FamilyMember, FamilyRelationship } from "../types";
+
+/**
+ * Flatten parents/partners references into relationship edges.
+ * Partner links are emitted once per couple regardless of direction.
+ */
+export const buildRelationships = (members: FamilyMember[]): FamilyRelationship[] => {
+  const ids = new Set(members.map(m => m.id));
+  const relationships: FamilyRelationship[] = [];
+  const seenPartners = new Set<string>();
+
+  members.forEach(m => {
+    (m.parents || []).filter(id => ids.has(id)).forEach(parentId => {
+      relationships.push({ sourceId: parentId, targetId: m.id, type: 'parent-child' });
+    });
+    (m.partners || []).filter(id => ids.has(id) && id !== m.id).forEach(partnerId => {
+      const key = [m.id, partnerId].sort().join('|');
+      if (seenPartners.has(key)) return;
+      seenPartners.add(key);
+      relationships.push({ sourceId: m.id, targetId: partnerId, type: 'partner' });
+    });
+  });
+
+  return relationships;
+};
+
+export type BranchDirection = 'ancestors' | 'descendants';
+
+export interface CollapsedBranch {
+  memberId: string;
+  direction: BranchDirection;
+}
+
+export interface CollapseResult {
+  members: FamilyMember[]; // Everyone still shown
+  hidden: Set<string>[]; // Who each collapsed branch hides, in the order given
+}
+
+/**
+ * Hide branches of the tree. Collapsing a person's ancestors cuts them off
+ * from their parents; collapsing their descendants cuts them and their
+ * partners off from their children. Everyone who can then only be reached
+ * across the cut is hidden, so a sibling married into the kept side stays.
+ */
+export const collapseBranches = (members: FamilyMember[], branches: CollapsedBranch[]): CollapseResult => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const neighbours = new Map<string, Set<string>>(members.map(m => [m.id, new Set()]));
+  const link = (a: string, b: string) => {
+    if (!byId.has(a) || !byId.has(b) || a === b) return;
+    neighbours.get(a)!.add(b);
+    neighbours.get(b)!.add(a);
+  };
+  members.forEach(m => {
+    (m.parents || []).forEach(p => link(m.id, p));
+    (m.partners || []).forEach(p => link(m.id, p));
+  });
+
+  // Links crossing each cut, both directions.
+  const cuts = branches.map(({ memberId, direction }) => {
+    const member = byId.get(memberId);
+    if (!member) return [];
+    if (direction === 'ancestors') return (member.parents || []).filter(p => byId.has(p)).map(p => [memberId, p] as const);
+    const couple = new Set([memberId, ...(member.partners || [])]);
+    return members
+      .filter(c => (c.parents || []).includes(memberId))
+      .flatMap(c => (c.parents || []).filter(p => couple.has(p)).map(p => [p, c.id] as const));
+  });
+  const cut = new Set(cuts.flat().flatMap(([a, b]) => [`${a}|${b}`, `${b}|${a}`]));
+
+  const reach = (starts: string[], blocked: Set<string>) => {
+    const found = new Set(starts.filter(id => !blocked.has(id)));
+    const queue = [...found];
+    while (queue.length > 0) {
+      const id = queue.pop()!;
+      neighbours.get(id)!.forEach(n => {
+        if (found.has(n) || blocked.has(n) || cut.has(`${id}|${n}`)) return;
+        found.add(n);
+        queue.push(n);
+      });
+    }
+    return found;
+  };
+
+  const hidden = branches.map((branch, i) => {
+    if (!byId.has(branch.memberId)) return new Set<string>();
+    const kept = reach([branch.memberId], new Set());
+    return reach(cuts[i].map(([a, b]) => kept.has(a) ? b : a), kept);
+  });
+  const allHidden = new Set(hidden.flatMap(h => [...h]));
+  return { members: members.filter(m => !allHidden.has(m.id)), hidden };
+};
@@ -0,0 +1,537 @@
+import { Citation, CitedField, DatePart, EventType, ExtractionResult, FamilyMember, GenealogicalDate, GroundingSource, MemberEvent, Place } from "../types";
+import { formatDate, LifeEvent, memberDate, parseDate } from "./dateService";
+import { COUPLE_EVENTS, createEventId, eventLabel, ExtractedEvent, resolveExtractedEvents } from "./eventService";
+import { formatPlace } from "./placeService";
+import { addSource, CITATION_QUALITIES, CITED_FIELDS, citationsFor, createCitationId, ensureSourceIds } from "./citationService";
+
+export type GedcomVersion = '5.5.1' | '7.0';
+
+interface GedcomNode {
+  level: number;
+  xref?: string;
+  tag: string;
+  value: string;
+  children: GedcomNode[];
+}
+
+interface GedcomFamily {
+  spouses: string[];
+  children: string[];
+  events: ExtractedEvent[];
+  citations: Citation[];
+}
+
+// Military service has no standard tag in either version, so it is an EVEN with a TYPE.
+const EVENT_TAGS: Record<EventType, string> = {
+  birth: 'BIRT',
+  baptism: 'BAPM',
+  marriage: 'MARR',
+  divorce: 'DIV',
+  residence: 'RESI',
+  census: 'CENS',
+  occupation: 'OCCU',
+  immigration: 'IMMI',
+  military: 'EVEN',
+  probate: 'PROB',
+  death: 'DEAT',
+  burial: 'BURI',
+  other: 'EVEN'
+};
+
+const TAG_EVENTS: Record<string, EventType> = {
+  ...Object.fromEntries(Object.entries(EVENT_TAGS).filter(([, tag]) => tag !== 'EVEN').map(([type, tag]) => [tag, type as EventType])),
+  CHR: 'baptism',
+  NATU: 'immigration',
+  _MILT: 'military',
+  MILI: 'military'
+};
+
+// 5.5.1 caps a physical line at 255 characters, so long values are split with CONC.
+const MAX_LINE_VALUE = 200;
+
+const LINE_PATTERN = /^\s*(\d+)\s+(?:(@[^@]+@)\s+)?(\S+)(?:\s(.*))?$/;
+
+const stripPointer = (value: string) => value.trim().replace(/^@|@$/g, '');
+
+/**
+ * Parse raw GEDCOM text into a node tree, one root per level-0 record.
+ */
+const parseLines = (text: string): GedcomNode[] => {
+  const roots: GedcomNode[] = [];
+  const stack: GedcomNode[] = [];
+
+  text.replace(/^\uFEFF/, '').split(/\r\n|\r|\n/).forEach(raw => {
+    const match = raw.match(LINE_PATTERN);
+    if (!match) return;
+    const node: GedcomNode = {
+      level: parseInt(match[1], 10),
+      xref: match[2] ? stripPointer(match[2]) : undefined,
+      tag: match[3].toUpperCase(),
+      value: match[4] ?? '',
+      children: []
+    };
+    while (stack.length > 0 && stack[stack.length - 1].level >= node.level) stack.pop();
+    if (stack.length === 0) {
+      roots.push(node);
+    } else {
+      stack[stack.length - 1].children.push(node);
+    }
+    stack.push(node);
+  });
+
+  return roots;
+};
+
+const child = (node: GedcomNode, tag: string) => node.children.find(c => c.tag === tag);
+const childrenOf = (node: GedcomNode, tag: string) => node.children.filter(c => c.tag === tag);
+
+/**
+ * Join a value with its CONT/CONC continuation lines.
+ */
+const readText = (node: GedcomNode): string => {
+  return node.children.reduce((text, c) => {
+    if (c.tag === 'CONT') return `${text}\n${c.value}`;
+    if (c.tag === 'CONC') return `${text}${c.value}`;
+    return text;
+  }, node.value);
+};
+
+const isPointer = (value: string) => /^@[^@]+@$/.test(value.trim());
+
+const readDate = (event?: GedcomNode): GenealogicalDate | undefined => {
+  const date = event && child(event, 'DATE');
+  return date ? parseDate(date.value) : undefined;
+};
+
+/**
+ * Read an INDI or FAM event structure. The date is kept as text and the
+ * place as the PLAC hierarchy; both are resolved after parsing. Citations
+ * are read separately.
+ */
+const readEvent = (node: GedcomNode): ExtractedEvent | undefined => {
+  const typeNode = child(node, 'TYPE');
+  const subtype = typeNode?.value.trim();
+  let type = TAG_EVENTS[node.tag];
+  if (node.tag === 'EVEN') type = subtype && /milit/i.test(subtype) ? 'military' : 'other';
+  if (!type) return undefined;
+
+  const note = child(node, 'NOTE');
+  const description = [
+    node.tag === 'OCCU' || node.tag === 'RESI' ? readText(node).trim() : '',
+    type === 'other' ? subtype : '',
+    note ? readText(note) : ''
+  ].filter(Boolean).join('\n');
+
+  return {
+    id: createEventId(),
+    type,
+    dateText: child(node, 'DATE')?.value,
+    place: child(node, 'PLAC')?.value,
+    description: description || undefined
+  };
+};
+
+const GEDCOM_QUALIFIERS: Record<GenealogicalDate['qualifier'], string> = {
+  exact: '',
+  about: 'ABT',
+  estimated: 'EST',
+  calculated: 'CAL',
+  before: 'BEF',
+  after: 'AFT',
+  between: 'BET'
+};
+
+const GEDCOM_MONTHS = ['JAN', 'FEB', 'MAR', 'APR', 'MAY', 'JUN', 'JUL', 'AUG', 'SEP', 'OCT', 'NOV', 'DEC'];
+
+/**
+ * 5.5.1 writes dual years ("1749/50") and the @#DJULIAN@ escape; 7.0 has
+ * no dual years, so the New Style year is used with the JULIAN keyword.
+ */
+const formatGedcomDate = (date: GenealogicalDate, version: GedcomVersion): string => {
+  const part = (p: DatePart) => {
+    const year = version === '7.0' || !p.dualYear
+      ? `${p.dualYear ?? p.year}`
+      : `${p.year}/${String(p.dualYear % 100).padStart(2, '0')}`;
+    return [p.month && p.day ? p.day : '', p.month ? GEDCOM_MONTHS[p.month - 1] : '', year].filter(Boolean).join(' ');
+  };
+  const calendar = date.calendar === 'julian' ? (version === '7.0' ? 'JULIAN ' : '@#DJULIAN@ ') : '';
+  if (date.qualifier === 'between' && date.end) return `BET ${calendar}${part(date.start)} AND ${calendar}${part(date.end)}`;
+  return [GEDCOM_QUALIFIERS[date.qualifier], `${calendar}${part(date.start)}`].filter(Boolean).join(' ');
+};
+
+const writeDate = (out: string[], member: FamilyMember, event: LifeEvent, version: GedcomVersion) => {
+  const date = memberDate(member, event);
+  const text = event === 'birth' ? member.birthYear : member.deathYear;
+  if (date) out.push(`2 DATE ${formatGedcomDate(date, version)}`);
+  else if (version === '7.0') out.push('2 DATE', `3 PHRASE ${text}`);
+  else out.push(`2 DATE (${text})`);
+};
+
+const readName = (indi: GedcomNode): string => {
+  const nameNode = child(indi, 'NAME');
+  if (!nameNode) return 'Unknown';
+  const full = nameNode.value.replace(/\//g, ' ').replace(/\s+/g, ' ').trim();
+  if (full) return full;
+  const parts = [child(nameNode, 'GIVN')?.value, child(nameNode, 'SURN')?.value].filter(Boolean);
+  return parts.join(' ').trim() || 'Unknown';
+};
+
+const readGender = (indi: GedcomNode): FamilyMember['gender'] => {
+  const sex = child(indi, 'SEX')?.value.trim().toUpperCase();
+  if (sex === 'M') return 'male';
+  if (sex === 'F') return 'female';
+  if (sex === 'X') return 'other';
+  return undefined;
+};
+
+const readUrl = (source: GedcomNode): string | undefined => {
+  const direct = child(source, 'WWW') || child(source, '_URL');
+  if (direct) return direct.value.trim();
+  const candidates = [...childrenOf(source, 'PUBL'), ...childrenOf(source, 'NOTE'), ...childrenOf(source, 'TEXT')];
+  for (const c of candidates) {
+    const url = readText(c).match(/https?:\/\/\S+/);
+    if (url) return url[0];
+  }
+  return undefined;
+};
+
+/**
+ * Convert a GEDCOM 5.5.1 or 7.0 file into an ExtractionResult.
+ * INDI records become members; FAM records (and the FAMC/FAMS links on
+ * each INDI) become parents/partners references.
+ */
+export const parseGedcom = (text: string): ExtractionResult => {
+  const records = parseLines(text);
+  if (!records.some(r => r.tag === 'HEAD')) {
+    throw new Error("This file does not look like a GEDCOM export (missing HEAD record).");
+  }
+
+  const sharedNotes = new Map<string, string>();
+  records
+    .filter(r => (r.tag === 'NOTE' || r.tag === 'SNOTE') && r.xref)
+    .forEach(r => sharedNotes.set(r.xref!, readText(r)));
+
+  const resolveNote = (note: GedcomNode) => {
+    return isPointer(note.value) ? sharedNotes.get(stripPointer(note.value)) ?? '' : readText(note);
+  };
+
+  // Source records keep their xref as library ID; inline 5.5.1 sources are added as they are found.
+  let sources: GroundingSource[] = records
+    .filter(r => r.tag === 'SOUR' && r.xref)
+    .map(source => ({
+      id: source.xref!,
+      title: (child(source, 'TITL') ? readText(child(source, 'TITL')!) : '') || child(source, 'ABBR')?.value || source.xref!,
+      uri: readUrl(source) || ''
+    }));
+
+  /**
+   * SOUR citations under a node. An INDI-level citation may name the fact it
+   * supports with our _FLD extension; 7.0 @VOID@ citations use PAGE as title.
+   */
+  const readCitations = (node: GedcomNode, field: CitedField, eventId?: string): Citation[] => {
+    return childrenOf(node, 'SOUR').flatMap(sour => {
+      const page = child(sour, 'PAGE')?.value.trim();
+      const isVoid = sour.value.trim() === '@VOID@';
+      let sourceId: string | undefined;
+      if (isVoid || !isPointer(sour.value)) {
+        const title = isVoid ? page : readText(sour).trim();
+        if (!title) return [];
+        ({ sources, sourceId } = addSource(sources, { title, uri: '' }));
+      } else {
+        sourceId = stripPointer(sour.value);
+        if (!sources.some(s => s.id === sourceId)) return [];
+      }
+      const data = child(sour, 'DATA');
+      const text = data && child(data, 'TEXT');
+      const quay = child(sour, 'QUAY')?.value.trim();
+      const custom = child(sour, '_FLD')?.value.trim().toLowerCase();
+      const citation: Citation = {
+        id: createCitationId(),
+        sourceId,
+        field: custom && CITED_FIELDS.some(f => f.field === custom) ? custom as CitedField : field
+      };
+      if (citation.field === 'event' && eventId) citation.eventId = eventId;
+      const quality = CITATION_QUALITIES.find(q => String(q.quay) === quay)?.quality;
+      if (quality) citation.quality = quality;
+      if (page && !isVoid) citation.page = page;
+      if (text) citation.excerpt = readText(text);
+      return [citation];
+    });
+  };
+
+  const families = new Map<string, GedcomFamily>();
+  const familyFor = (id: string) => {
+    if (!families.has(id)) families.set(id, { spouses: [], children: [], events: [], citations: [] });
+    return families.get(id)!;
+  };
+  const addUnique = (list: string[], id: string) => { if (!list.includes(id)) list.push(id); };
+
+  records.filter(r => r.tag === 'FAM' && r.xref).forEach(fam => {
+    const family = familyFor(fam.xref!);
+    [...childrenOf(fam, 'HUSB'), ...childrenOf(fam, 'WIFE')].forEach(s => addUnique(family.spouses, stripPointer(s.value)));
+    childrenOf(fam, 'CHIL').forEach(c => addUnique(family.children, stripPointer(c.value)));
+    ['MARR', 'DIV'].forEach(tag => childrenOf(fam, tag).forEach(e => {
+      const event = readEvent(e);
+      if (!event) return;
+      family.events.push(event);
+      family.citations.push(...readCitations(e, 'event', event.id));
+    }));
+  });
+
+  const members: FamilyMember[] = records.filter(r => r.tag === 'INDI' && r.xref).map(indi => {
+    const id = indi.xref!;
+    childrenOf(indi, 'FAMC').forEach(f => addUnique(familyFor(stripPointer(f.value)).children, id));
+    childrenOf(indi, 'FAMS').forEach(f => addUnique(familyFor(stripPointer(f.value)).spouses, id));
+
+    const birth = child(indi, 'BIRT');
+    const death = child(indi, 'DEAT');
+    const notes = childrenOf(indi, 'NOTE').map(resolveNote).filter(Boolean).join('\n\n');
+    const status = child(indi, '_CONF')?.value.trim().toLowerCase();
+
+    const birthDate = readDate(birth);
+    const deathDate = readDate(death);
+    const nameNode = child(indi, 'NAME');
+    const citations: Citation[] = [...(nameNode ? readCitations(nameNode, 'name') : []), ...readCitations(indi, 'general')];
+    // Birth and death dates live on the member; their events only matter for place or notes.
+    const events: ExtractedEvent[] = [];
+    indi.children.filter(c => c.tag in TAG_EVENTS || c.tag === 'EVEN').forEach(c => {
+      const event = readEvent(c);
+      if (!event) return;
+      if (event.type === 'birth' || event.type === 'death') {
+        citations.push(...readCitations(c, event.type));
+        if (!event.place && !event.description) return;
+      } else {
+        citations.push(...readCitations(c, 'event', event.id));
+      }
+      events.push(event);
+    });
+    const member: FamilyMember = {
+      id,
+      name: readName(indi),
+      birthYear: birthDate && formatDate(birthDate),
+      deathYear: deathDate && formatDate(deathDate),
+      birthDate,
+      deathDate,
+      gender: readGender(indi),
+      vitalStatus: death ? 'deceased' : 'unknown',
+      relationship: child(indi, '_REL')?.value.trim() || undefined,
+      notes: notes || undefined,
+      status: status === 'definitive' || status === 'probable' || status === 'possible' ? status : undefined,
+      parents: [],
+      partners: [],
+      events,
+      citations
+    };
+    return member;
+  });
+
+  const byId = new Map(members.map(m => [m.id, m]));
+  families.forEach(family => {
+    const spouses = family.spouses.filter(id => byId.has(id));
+    spouses.forEach(id => {
+      const member = byId.get(id)!;
+      spouses.filter(other => other !== id).forEach(other => addUnique(member.partners!, other));
+    });
+    family.children.forEach(childId => {
+      const member = byId.get(childId);
+      if (member) spouses.forEach(parentId => addUnique(member.parents!, parentId));
+    });
+    // A family's marriage or divorce is stored on the first spouse.
+    if (spouses.length > 0) {
+      const first = byId.get(spouses[0])!;
+      first.events!.push(...family.events.map(e => ({ ...e, partnerId: spouses[1] })));
+      first.citations!.push(...family.citations);
+    }
+  });
+
+  const head = records.find(r => r.tag === 'HEAD')!;
+  const headNote = child(head, 'NOTE');
+
+  return resolveExtractedEvents({
+    members: members.map(m => ({ ...m, events: m.events?.length ? m.events : undefined, citations: m.citations?.length ? m.citations : undefined })),
+    title: child(head, 'FILE')?.value.replace(/\.ged$/i, '') || undefined,
+    description: headNote ? readText(headNote) : undefined,
+    sources
+  });
+};
+
+/**
+ * Emit a tag and value, splitting multi-line and over-long values into
+ * CONT/CONC lines. GEDCOM 7.0 removed CONC, so long lines are kept whole there.
+ */
+const writeText = (out: string[], level: number, tag: string, value: string, version: GedcomVersion) => {
+  value.split(/\r\n|\r|\n/).forEach((line, index) => {
+    const chunks: string[] = [];
+    if (version === '5.5.1') {
+      for (let i = 0; i < line.length; i += MAX_LINE_VALUE) chunks.push(line.slice(i, i + MAX_LINE_VALUE));
+    }
+    if (chunks.length === 0) chunks.push(line);
+    chunks.forEach((chunk, chunkIndex) => {
+      const lineTag = index === 0 && chunkIndex === 0 ? `${level} ${tag}` : `${level + 1} ${chunkIndex === 0 ? 'CONT' : 'CONC'}`;
+      out.push(chunk ? `${lineTag} ${chunk}` : lineTag);
+    });
+  });
+};
+
+/**
+ * SOUR citation structures at `level`. Facts without a GEDCOM home of their
+ * own (parents, gender...) are cited on the INDI with our _FLD extension.
+ */
+const writeCitations = (out: string[], level: number, citations: Citation[], sourceXrefs: Map<string, string>, version: GedcomVersion, withField = false) => {
+  citations.filter(c => sourceXrefs.has(c.sourceId)).forEach(c => {
+    out.push(`${level} SOUR @${sourceXrefs.get(c.sourceId)}@`);
+    if (c.page) out.push(`${level + 1} PAGE ${c.page}`);
+    if (c.excerpt) {
+      out.push(`${level + 1} DATA`);
+      writeText(out, level + 2, 'TEXT', c.excerpt, version);
+    }
+    const quay = CITATION_QUALITIES.find(q => q.quality === c.quality)?.quay;
+    if (quay !== undefined) out.push(`${level + 1} QUAY ${quay}`);
+    if (withField && c.field !== 'general') out.push(`${level + 1} _FLD ${c.field}`);
+  });
+};
+
+/**
+ * DATE, PLAC and NOTE lines under an event. Birth and death dates are
+ * written by the caller from the member.
+ */
+const writeEventDetails = (out: string[], event: MemberEvent, places: Place[] | undefined, version: GedcomVersion) => {
+  if (event.type === 'military') out.push(`2 TYPE ${eventLabel(event.type)}`);
+  if (event.type === 'other' && event.description) out.push(`2 TYPE ${event.description.split('\n')[0]}`);
+  if (event.date) out.push(`2 DATE ${formatGedcomDate(event.date, version)}`);
+  const place = formatPlace(places, event.placeId);
+  if (place) out.push(`2 PLAC ${place}`);
+  if (event.description && event.type !== 'occupation' && event.type !== 'other') writeText(out, 2, 'NOTE', event.description, version);
+};
+
+const formatName = (name: string) => {
+  const parts = name.trim().split(/\s+/);
+  if (parts.length < 2) return name.trim();
+  const surname = parts.pop();
+  return `${parts.join(' ')} /${surname}/`;
+};
+
+/**
+ * Serialize an ExtractionResult as a lineage-linked GEDCOM file.
+ * Families are derived from shared parent sets and from partner links.
+ */
+export const toGedcom = (data: ExtractionResult, version: GedcomVersion = '5.5.1'): string => {
+  const out: string[] = [];
+  const xrefs = new Map(data.members.map((m, i) => [m.id, `I${i + 1}`]));
+  const byId = new Map(data.members.map(m => [m.id, m]));
+  const sources = ensureSourceIds(data.sources);
+  const sourceXrefs = new Map(sources.map((s, i) => [s.id!, `S${i + 1}`]));
+  const cite = (level: number, citations: Citation[], withField = false) => writeCitations(out, level, citations, sourceXrefs, version, withField);
+
+  out.push('0 HEAD', '1 GEDC', `2 VERS ${version}`);
+  if (version === '5.5.1') out.push('2 FORM LINEAGE-LINKED', '1 CHAR UTF-8');
+  out.push('1 SOUR AncestryFlow', '2 NAME AncestryFlow');
+  if (data.title) out.push(`1 FILE ${data.title}.ged`);
+  if (data.description) writeText(out, 1, 'NOTE', data.description, version);
+
+  // Group children by their parent set; childless couples get their own family.
+  const families: { key: string, spouses: string[], children: string[] }[] = [];
+  const familyByKey = new Map<string, typeof families[number]>();
+  const ensureFamily = (spouses: string[]) => {
+    const key = [...spouses].sort().join('|');
+    if (!familyByKey.has(key)) {
+      const family = { key, spouses, children: [] as string[] };
+      familyByKey.set(key, family);
+      families.push(family);
+    }
+    return familyByKey.get(key)!;
+  };
+
+  data.members.forEach(m => {
+    const parents = (m.parents || []).filter(id => byId.has(id));
+    for (let i = 0; i < parents.length; i += 2) {
+      ensureFamily(parents.slice(i, i + 2)).children.push(m.id);
+    }
+  });
+  data.members.forEach(m => {
+    (m.partners || []).filter(id => byId.has(id) && id !== m.id).forEach(pId => ensureFamily([m.id, pId]));
+  });
+  // Marriages and divorces with a known spouse belong on the couple's FAM record.
+  const isFamilyEvent = (m: FamilyMember, e: MemberEvent) => COUPLE_EVENTS.includes(e.type) && !!e.partnerId && byId.has(e.partnerId) && e.partnerId !== m.id;
+  const familyEvents = new Map<string, { owner: FamilyMember, event: MemberEvent }[]>();
+  data.members.forEach(m => (m.events || []).filter(e => isFamilyEvent(m, e)).forEach(e => {
+    const key = ensureFamily([m.id, e.partnerId!]).key;
+    familyEvents.set(key, [...(familyEvents.get(key) || []), { owner: m, event: e }]);
+  }));
+
+  const famXref = new Map(families.map((f, i) => [f.key, `F${i + 1}`]));
+
+  data.members.forEach(m => {
+    out.push(`0 @${xrefs.get(m.id)}@ INDI`);
+    out.push(`1 NAME ${formatName(m.name)}`);
+    cite(2, citationsFor(m, 'name'));
+    if (m.gender === 'male') out.push('1 SEX M');
+    else if (m.gender === 'female') out.push('1 SEX F');
+    else if (m.gender === 'other') out.push(version === '7.0' ? '1 SEX X' : '1 SEX U');
+
+    const birthEvent = m.events?.find(e => e.type === 'birth');
+    const deathEvent = m.events?.find(e => e.type === 'death');
+    const birthCitations = citationsFor(m, 'birth');
+    const deathCitations = citationsFor(m, 'death');
+    if (m.birthYear || m.birthDate || birthEvent || birthCitations.length) {
+      out.push('1 BIRT');
+      if (m.birthYear || m.birthDate) writeDate(out, m, 'birth', version);
+      if (birthEvent) writeEventDetails(out, birthEvent, data.places, version);
+      cite(2, birthCitations);
+    }
+    if (m.deathYear || m.deathDate || deathEvent || deathCitations.length) {
+      out.push('1 DEAT');
+      if (m.deathYear || m.deathDate) writeDate(out, m, 'death', version);
+      if (deathEvent) writeEventDetails(out, deathEvent, data.places, version);
+      cite(2, deathCitations);
+    } else if (m.vitalStatus === 'deceased') out.push('1 DEAT Y');
+
+    (m.events || []).filter(e => e.type !== 'birth' && e.type !== 'death' && !isFamilyEvent(m, e)).forEach(e => {
+      // A marriage without a known spouse cannot have a FAM record.
+      if (COUPLE_EVENTS.includes(e.type)) {
+        out.push('1 EVEN', `2 TYPE ${eventLabel(e.type)}`);
+      } else if (e.type === 'occupation' && e.description) {
+        out.push(`1 OCCU ${e.description.split('\n')[0]}`);
+      } else {
+        out.push(`1 ${EVENT_TAGS[e.type]}`);
+      }
+      writeEventDetails(out, e, data.places, version);
+      cite(2, citationsFor(m, 'event', e.id));
+    });
+    // Facts without a structure of their own are cited on the individual.
+    cite(1, (m.citations || []).filter(c => !['name', 'birth', 'death', 'event'].includes(c.field)), true);
+
+    if (m.relationship) out.push(`1 _REL ${m.relationship}`);
+    if (m.status) out.push(`1 _CONF ${m.status}`);
+    if (m.notes) writeText(out, 1, 'NOTE', m.notes, version);
+
+    families.forEach(f => {
+      if (f.children.includes(m.id)) out.push(`1 FAMC @${famXref.get(f.key)}@`);
+      if (f.spouses.includes(m.id)) out.push(`1 FAMS @${famXref.get(f.key)}@`);
+    });
+  });
+
+  families.forEach(f => {
+    out.push(`0 @${famXref.get(f.key)}@ FAM`);
+    const [first, second] = f.spouses.map(id => byId.get(id)!);
+    // Keep the conventional HUSB/WIFE slots when gender allows it.
+    const [husb, wife] = first?.gender === 'female' || second?.gender === 'male' ? [second, first] : [first, second];
+    if (husb) out.push(`1 HUSB @${xrefs.get(husb.id)}@`);
+    if (wife) out.push(`1 WIFE @${xrefs.get(wife.id)}@`);
+    f.children.forEach(id => out.push(`1 CHIL @${xrefs.get(id)}@`));
+    (familyEvents.get(f.key) || []).forEach(({ owner, event }) => {
+      out.push(`1 ${EVENT_TAGS[event.type]}`);
+      writeEventDetails(out, event, data.places, version);
+      cite(2, citationsFor(owner, 'event', event.id));
+    });
+  });
+
+  sources.forEach((source, i) => {
+    out.push(`0 @S${i + 1}@ SOUR`);
+    writeText(out, 1, 'TITL', source.title || source.uri, version);
+    if (source.uri) out.push(`1 WWW ${source.uri}`);
+  });
+
+  out.push('0 TRLR');
+  return out.join('\n') + '\n';
+};
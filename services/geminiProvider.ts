@@ -0,0 +1,77 @@
+import { GoogleGenAI, Schema } from "@google/genai";
+import { GroundingSource } from "../types";
+import { AiProvider } from "./aiProvider";
+
+/**
+ * Insert source numbers after each grounded passage so extraction can cite them.
+ */
+const annotateWithSources = (text: string, supports: any[], sourceNumbers: (number | undefined)[]) => {
+  const markers: { at: number, label: string }[] = [];
+  supports.forEach(support => {
+    const segment: string | undefined = support?.segment?.text;
+    const at = segment ? text.indexOf(segment) : -1;
+    const numbers = Array.from(new Set<number>((support?.groundingChunkIndices || []).map((i: number) => sourceNumbers[i]).filter(Boolean)));
+    if (at >= 0 && numbers.length) markers.push({ at: at + segment!.length, label: numbers.map(n => `[${n}]`).join('') });
+  });
+  return markers
+    .sort((a, b) => b.at - a.at)
+    .reduce((annotated, { at, label }) => annotated.slice(0, at) + label + annotated.slice(at), text);
+};
+
+/**
+ * Gemini through the Google GenAI SDK, with Google Search grounding.
+ */
+export const createGeminiProvider = (apiKey?: string): AiProvider => {
+  const ai = new GoogleGenAI({ apiKey });
+
+  return {
+    id: 'gemini',
+    search: async (prompt, model, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          tools: [{ googleSearch: {} }],
+          abortSignal: signal,
+        },
+      });
+      if (!response.text) throw new Error("Search returned no text.");
+      const metadata = response.candidates?.[0]?.groundingMetadata;
+      const webs = (metadata?.groundingChunks || []).map((chunk: any) => chunk.web);
+      const sources: GroundingSource[] = [];
+      const sourceNumbers = webs.map((web: any) => web && web.uri && web.title ? sources.push({ title: web.title, uri: web.uri }) : undefined);
+      return { text: response.text, sources, citedText: annotateWithSources(response.text, metadata?.groundingSupports || [], sourceNumbers) };
+    },
+    extract: async (prompt, schema, model, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: prompt,
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema as Schema,
+          abortSignal: signal,
+        },
+      });
+      return response.text || "{}";
+    },
+    extractImage: async (prompt, image, schema, model, signal) => {
+      const response = await ai.models.generateContent({
+        model,
+        contents: [
+          { text: prompt },
+          { inlineData: image }
+        ],
+        config: {
+          responseMimeType: "application/json",
+          responseSchema: schema as Schema,
+          abortSignal: signal,
+        },
+      });
+      return response.text || "{}";
+    },
+    chat: async (prompt, model, signal) => {
+      const response = await ai.models.generateContent({ model, contents: prompt, config: { abortSignal: signal } });
+      return response.text || "";
+    }
+  };
+};
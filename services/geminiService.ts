@@ -1,12 +1,68 @@
 
-import { GoogleGenAI, Type } from "@google/genai";
+import { Type } from "@google/genai";
 import { ExtractionResult, FamilyMember, GroundingSource } from "../types";
+import { repairIntegrity } from "./validationService";
+import { withDates } from "./dateService";
+import { resolveExtractedEvents } from "./eventService";
+import { resolveExtractedCitations } from "./citationService";
+import { AiTask, getProvider, InlineImage, loadAiSettings, SearchResult } from "./aiProvider";
+import { describeIssues, parseExtraction, ParsedExtraction, unfixedIssues } from "./responseService";
+import { isCancelled, RequestOptions, runRequest } from "./requestService";
+import { cachedResponse } from "./cacheService";
+
+const datePartSchema = {
+  type: Type.OBJECT,
+  properties: {
+    year: { type: Type.INTEGER },
+    month: { type: Type.INTEGER, description: "1-12, only if known." },
+    day: { type: Type.INTEGER, description: "Only if known." },
+    dualYear: { type: Type.INTEGER, description: "New Style year of a dual date, e.g. 1750 for 1749/50." }
+  },
+  required: ["year"]
+};
+
+const dateSchema = {
+  type: Type.OBJECT,
+  properties: {
+    qualifier: { type: Type.STRING, enum: ["exact", "about", "estimated", "calculated", "before", "after", "between"] },
+    calendar: { type: Type.STRING, enum: ["gregorian", "julian"] },
+    start: datePartSchema,
+    end: { ...datePartSchema, description: "Upper bound; only for 'between'." }
+  },
+  required: ["qualifier", "start"]
+};
+
+const eventSchema = {
+  type: Type.OBJECT,
+  properties: {
+    type: { type: Type.STRING, enum: ["birth", "baptism", "marriage", "divorce", "residence", "census", "occupation", "immigration", "military", "probate", "death", "burial", "other"] },
+    date: dateSchema,
+    place: { type: Type.STRING, description: "Most specific first, comma separated, e.g. 'Springfield, Sangamon County, Illinois, USA'." },
+    description: { type: Type.STRING, description: "E.g. the occupation, cemetery or census household." },
+    sourceNumber: { type: Type.INTEGER, description: "Number [n] of the source this event comes from." },
+    partnerId: { type: Type.STRING, description: "For marriage/divorce: ID of the spouse." }
+  },
+  required: ["type"]
+};
+
+const citationSchema = {
+  type: Type.OBJECT,
+  properties: {
+    source: { type: Type.INTEGER, description: "Number [n] of the source." },
+    field: { type: Type.STRING, enum: ["name", "birth", "death", "gender", "parents", "partners", "relationship", "general"] },
+    quality: { type: Type.STRING, enum: ["primary", "secondary", "questionable", "unreliable"], description: "primary for original records, secondary for compiled or derivative works." },
+    page: { type: Type.STRING, description: "Where in the source, if stated." },
+    excerpt: { type: Type.STRING, description: "Short verbatim passage supporting the fact." }
+  },
+  required: ["source", "field"]
+};
 
 const extractionSchema = {
   type: Type.OBJECT,
   properties: {
     title: { type: Type.STRING, description: "A title for this family tree." },
     description: { type: Type.STRING, description: "A short summary." },
+    estateInfo: { type: Type.STRING, description: "Probate or estate details if any: court, case number, will or intestacy, executor, assets." },
     members: {
       type: Type.ARRAY,
       items: {
@@ -14,15 +70,19 @@ const extractionSchema = {
         properties: {
           id: { type: Type.STRING, description: "Unique short identifier." },
           name: { type: Type.STRING, description: "Full name." },
-          birthYear: { type: Type.STRING },
-          deathYear: { type: Type.STRING },
+          birthYear: { type: Type.STRING, description: "Birth date as written in the source, e.g. 'abt. 1850'." },
+          deathYear: { type: Type.STRING, description: "Death date as written in the source." },
+          birthDate: dateSchema,
+          deathDate: dateSchema,
           gender: { type: Type.STRING, enum: ["male", "female", "other"] },
           relationship: { type: Type.STRING },
           vitalStatus: { type: Type.STRING, enum: ["living", "deceased", "unknown"] },
           notes: { type: Type.STRING },
           status: { type: Type.STRING, enum: ["definitive", "probable", "possible"] },
           parents: { type: Type.ARRAY, items: { type: Type.STRING } },
-          partners: { type: Type.ARRAY, items: { type: Type.STRING } }
+          partners: { type: Type.ARRAY, items: { type: Type.STRING } },
+          events: { type: Type.ARRAY, items: eventSchema },
+          citations: { type: Type.ARRAY, items: citationSchema }
         },
         required: ["id", "name"]
       }
@@ -31,139 +91,165 @@ const extractionSchema = {
   required: ["members"]
 };
 
+/**
+ * Every result leaving this module has a members array, unique IDs and
+ * structured dates, so merging and diffing can key on them. Numbered
+ * citations are linked to `grounding`, which becomes the source library.
+ * Other problems are left for review.
+ */
+const finalizeResult = (result: ExtractionResult, grounding: GroundingSource[] = []): ExtractionResult => {
+  const members = Array.isArray(result?.members) ? result.members.filter(m => m && m.id && m.name).map(withDates) : [];
+  return resolveExtractedCitations(resolveExtractedEvents(repairIntegrity({ ...result, members }, ['rename-duplicates'])), grounding);
+};
+
+const sourceList = (sources: GroundingSource[]) => sources.map((s, i) => `[${i + 1}] ${s.title} (${s.uri})`).join('\n');
+
+/**
+ * The configured provider, and the model it uses for a task. Read on every
+ * call so settings changes apply to the next request.
+ */
+const providerFor = (task: AiTask) => {
+  const settings = loadAiSettings();
+  return { provider: getProvider(settings), model: settings.models[task] };
+};
+
 /**
  * Perform a search with a strict timeout and fallback to internal knowledge.
+ * `subject` names what is being searched for in progress messages.
  */
-const performResilientSearch = async (prompt: string): Promise<{ text: string, sources: GroundingSource[] }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  // Try with Google Search Tool first
+const performResilientSearch = async (prompt: string, subject: string, request: RequestOptions = {}): Promise<SearchResult> => {
+  // Try grounded search first
   try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: prompt,
-      config: {
-        tools: [{ googleSearch: {} }],
-      },
+    const { provider, model } = providerFor('search');
+    return await cachedResponse({ kind: 'search', provider: provider.id, model, inputType: 'text', prompt }, request, () => {
+      request.onProgress?.({ stage: 'searching', message: `Searching public records for ${subject}...` });
+      return runRequest('search', signal => provider.search(prompt, model, signal), request);
     });
-    const sources = response.candidates?.[0]?.groundingMetadata?.groundingChunks
-      ?.map((chunk: any) => chunk.web)
-      .filter((web: any) => web && web.uri && web.title) || [];
-    
-    if (response.text) return { text: response.text, sources };
   } catch (err) {
+    if (isCancelled(err)) throw err;
     console.warn("Search tool failed, falling back to internal knowledge...", err);
   }
 
   // Fallback to high-speed internal model knowledge
-  const fallbackResponse = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Based on your historical database and general knowledge, provide details on: ${prompt}. Focus on family members, dates, and lineage.`,
-  });
-  
-  return { text: fallbackResponse.text || "No information found.", sources: [] };
+  const { provider, model } = providerFor('chat');
+  request.onProgress?.({ stage: 'fallback', message: `Search is unavailable; asking the model what it knows about ${subject}...` });
+  const text = await runRequest('chat', signal => provider.chat(`Based on your historical database and general knowledge, provide details on: ${prompt}. Focus on family members, dates, and lineage.`, model, signal), request);
+  return { text: text || "No information found.", sources: [] };
 };
 
+// One re-prompt with the problems found; after that, whatever is usable.
+const MAX_ATTEMPTS = 2;
+
 /**
- * Structured extraction from raw text.
+ * Ask for a structured tree and validate the answer, asking again with the
+ * problems found when it lost information. Throws with the details when no
+ * attempt produced a member list. `known` members are valid link targets.
  */
-const extractStructuredLineage = async (rawText: string): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Convert this genealogy research into a structured JSON family tree. 
-    TEXT: ${rawText}
-    Link parents and partners correctly using unique IDs.`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: extractionSchema,
-    },
-  });
+const requestExtraction = async (task: 'extraction' | 'vision', prompt: string, request: RequestOptions, options: { image?: InlineImage, known?: FamilyMember[] } = {}): Promise<ExtractionResult> => {
+  const { provider, model } = providerFor(task);
+  let parsed: ParsedExtraction = { issues: [] };
+  let text = prompt;
+  request.onProgress?.({ stage: 'extracting', message: task === 'vision' ? 'Reading the document...' : 'Turning the findings into a family tree...' });
+  for (let attempt = 1; attempt <= MAX_ATTEMPTS; attempt++) {
+    const answer = await runRequest(task, signal => options.image
+      ? provider.extractImage(text, options.image, extractionSchema, model, signal)
+      : provider.extract(text, extractionSchema, model, signal), request);
+    const next = parseExtraction(answer, options.known);
+    if (next.result || !parsed.result) parsed = next;
+    const problems = unfixedIssues(next.issues);
+    if (next.result && problems.length === 0) break;
+    if (attempt < MAX_ATTEMPTS) request.onProgress?.({ stage: 'repairing', message: `The answer had ${problems.length} problem${problems.length === 1 ? '' : 's'}; asking again...` });
+    text = `${prompt}\n\nYour previous answer could not be used as it was:\n${describeIssues(problems)}\nAnswer again with the complete, corrected JSON.`;
+  }
 
-  try {
-    const text = response.text || "{}";
-    const cleaned = text.replace(/```json/g, "").replace(/```/g, "").trim();
-    return JSON.parse(cleaned) as ExtractionResult;
-  } catch (e) {
-    console.error("JSON parsing error:", e);
-    return { members: [] };
+  const problems = unfixedIssues(parsed.issues);
+  if (!parsed.result) {
+    throw new Error(`The ${model} answer was not a usable family tree after ${MAX_ATTEMPTS} attempts: ${problems.slice(0, 3).map(i => `${i.path} ${i.message}`).join('; ')}.`);
   }
+  if (problems.length) console.warn(`Using the ${model} answer despite:\n${describeIssues(problems)}`);
+  return parsed.result;
+};
+
+/**
+ * Structured extraction from research text, citing its numbered sources.
+ */
+const extractStructuredLineage = async (research: SearchResult, request: RequestOptions): Promise<ExtractionResult> => {
+  const prompt = `Convert this genealogy research into a structured JSON family tree. 
+    TEXT: ${research.citedText || research.text}
+    ${research.sources.length ? `SOURCES (the [n] markers in the text refer to these):\n${sourceList(research.sources)}
+    For every fact you extract, add a citation with the number of the source that supports it.` : ''}
+    Link parents and partners correctly using unique IDs.`;
+  const { provider, model } = providerFor('extraction');
+  // Cached before finalizing, which assigns fresh event and citation IDs.
+  const result = await cachedResponse({ kind: 'extraction', provider: provider.id, model, inputType: 'text', prompt }, request,
+    () => requestExtraction('extraction', prompt, request),
+    value => value.members.length > 0);
+  return finalizeResult(result, research.sources);
 };
 
 export const extractFamilyData = async (
   content: string, 
   inputType: 'text' | 'image' | 'spreadsheet' = 'text',
-  mimeType: string = "image/jpeg"
+  mimeType: string = "image/jpeg",
+  request: RequestOptions = {}
 ): Promise<ExtractionResult> => {
   if (inputType === 'text') {
-    const research = await performResilientSearch(`Genealogy research for ${content}. Identify immediate family, ancestors, and dates.`);
-    const result = await extractStructuredLineage(research.text);
-    return { ...result, sources: research.sources };
+    const research = await performResilientSearch(`Genealogy research for ${content}. Identify immediate family, ancestors, and dates.`, content, request);
+    return extractStructuredLineage(research, request);
   }
 
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
   const prompt = inputType === 'spreadsheet' 
     ? `Convert this data into a JSON family tree: ${content}`
     : `Extract family tree from this document. Identify members, dates, and parent-child links.`;
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-flash-preview",
-      contents: inputType === 'spreadsheet' ? prompt : [
-        { text: prompt },
-        { inlineData: { mimeType, data: content.split(',')[1] } }
-      ],
-      config: {
-        responseMimeType: "application/json",
-        responseSchema: extractionSchema,
-      },
-    });
-    return JSON.parse(response.text || "{}");
-  } catch (error) {
-    throw new Error("Document analysis failed. Please ensure the file is a valid PDF or Image.");
-  }
+  return finalizeResult(inputType === 'spreadsheet'
+    ? await requestExtraction('extraction', prompt, request)
+    : await requestExtraction('vision', prompt, request, { image: { mimeType, data: content.split(',')[1] } }));
+};
+
+/**
+ * The person a result is about: whoever the model marked as "Self", else the
+ * best match for the searched name, else the first person.
+ */
+export const findSubject = (members: FamilyMember[], name?: string): FamilyMember | undefined => {
+  const self = members.find(m => m.relationship?.trim().toLowerCase() === 'self');
+  if (self) return self;
+  const wanted = name?.trim().toLowerCase();
+  return (wanted && (members.find(m => m.name.toLowerCase() === wanted) || members.find(m => m.name.toLowerCase().includes(wanted)))) || members[0];
+};
+
+// Name plus what tells namesakes apart: life dates and parents.
+const describeSubject = (target: FamilyMember, members: FamilyMember[]) => {
+  const dates = [target.birthYear && `b. ${target.birthYear}`, target.deathYear && `d. ${target.deathYear}`].filter(Boolean).join(', ');
+  const parents = (target.parents || []).map(id => members.find(m => m.id === id)?.name).filter(Boolean);
+  return `${target.name}${dates ? ` (${dates})` : ''}${parents.length ? `, child of ${parents.join(' and ')}` : ''}`;
+};
+
+export const discoverExtendedFamily = async (members: FamilyMember[], direction: 'forward' | 'backward' = 'forward', targetId?: string, request: RequestOptions = {}): Promise<ExtractionResult> => {
+  const target = targetId ? members.find(m => m.id === targetId) : findSubject(members);
+  if (!target) throw new Error("There is nobody in the tree to research.");
+  const query = `Find ${direction === 'forward' ? 'children and descendants' : 'parents and ancestors'} of ${describeSubject(target, members)}.`;
+  const research = await performResilientSearch(query, `the ${direction === 'forward' ? 'descendants' : 'ancestors'} of ${target.name}`, request);
+  return extractStructuredLineage(research, request);
+};
+
+export const researchDeathRecords = async (subject: string, request: RequestOptions = {}): Promise<ExtractionResult> => {
+  const research = await performResilientSearch(`Find vital death records, obituaries, and heirs for ${subject}.`, `death records of ${subject}`, request);
+  return extractStructuredLineage(research, request);
+};
+
+export const askGemini = async (question: string, context?: ExtractionResult | null, request: RequestOptions = {}): Promise<{ text: string, sources?: GroundingSource[] }> => {
+  return performResilientSearch(`${question} ${context ? `(Context: Looking at tree for ${context.members.slice(0,3).map(m => m.name).join(", ")})` : ''}`, 'an answer', request);
+};
+
+export const mergeChatInfo = async (currentData: ExtractionResult | null, chatText: string, userQuery: string, sources: GroundingSource[] = [], request: RequestOptions = {}): Promise<ExtractionResult> => {
+  const result = await requestExtraction('extraction', `Merge this information: "${chatText}" into this tree: ${JSON.stringify(currentData?.members || [])}. User asked: "${userQuery}".${sources.length ? `
+    The information came from these sources; cite them by number for the facts they support:\n${sourceList(sources)}` : ''}`, request, { known: currentData?.members });
+  // Existing citations in the tree refer to the current library.
+  return finalizeResult({ ...result, sources: currentData?.sources }, sources);
 };
 
-export const discoverExtendedFamily = async (members: FamilyMember[], direction: 'forward' | 'backward' = 'forward', targetId?: string): Promise<ExtractionResult> => {
-  const target = targetId ? members.find(m => m.id === targetId) : members[0];
-  const query = `Find ${direction === 'forward' ? 'children and descendants' : 'parents and ancestors'} of ${target?.name}.`;
-  const research = await performResilientSearch(query);
-  const result = await extractStructuredLineage(research.text);
-  return { ...result, sources: research.sources };
-};
-
-export const researchDeathRecords = async (subject: string): Promise<ExtractionResult> => {
-  const research = await performResilientSearch(`Find vital death records, obituaries, and heirs for ${subject}.`);
-  const result = await extractStructuredLineage(research.text);
-  return { ...result, sources: research.sources };
-};
-
-export const askGemini = async (question: string, context?: ExtractionResult | null): Promise<{ text: string, sources?: GroundingSource[] }> => {
-  return performResilientSearch(`${question} ${context ? `(Context: Looking at tree for ${context.members.slice(0,3).map(m => m.name).join(", ")})` : ''}`);
-};
-
-export const mergeChatInfo = async (currentData: ExtractionResult | null, chatText: string, userQuery: string): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Merge this information: "${chatText}" into this tree: ${JSON.stringify(currentData?.members || [])}. User asked: "${userQuery}".`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: extractionSchema,
-    },
-  });
-  return JSON.parse(response.text || "{}");
-};
-
-export const updateFamilyData = async (currentData: ExtractionResult, updateText: string): Promise<ExtractionResult> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const response = await ai.models.generateContent({
-    model: "gemini-3-flash-preview",
-    contents: `Update these records based on: "${updateText}". Existing: ${JSON.stringify(currentData.members)}`,
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: extractionSchema,
-    },
-  });
-  return JSON.parse(response.text || "{}");
+export const updateFamilyData = async (currentData: ExtractionResult, updateText: string, request: RequestOptions = {}): Promise<ExtractionResult> => {
+  const result = await requestExtraction('extraction', `Update these records based on: "${updateText}". Existing: ${JSON.stringify(currentData.members)}`, request, { known: currentData.members });
+  return finalizeResult({ ...result, sources: currentData.sources });
 };
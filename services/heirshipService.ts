@@ -0,0 +1,327 @@
+import { FamilyMember } from "../types";
+import { dateRange, memberDate } from "./dateService";
+import { PLAUSIBILITY_LIMITS } from "./plausibilityService";
+
+export type DistributionMethod = 'per-stirpes' | 'per-capita' | 'per-capita-each-generation';
+
+export const DISTRIBUTION_METHODS: { method: DistributionMethod, label: string, description: string }[] = [
+  { method: 'per-stirpes', label: 'Per stirpes', description: 'Split equally between the children; a predeceased child\'s share passes down their line.' },
+  { method: 'per-capita', label: 'Per capita', description: 'Split at the nearest generation with a survivor; a predeceased member\'s share passes down their line.' },
+  { method: 'per-capita-each-generation', label: 'Per capita at each generation', description: 'Split at the nearest generation with a survivor; shares of predeceased members are pooled and split equally at the next generation.' }
+];
+
+export type HeirClass = 'descendants' | 'parents' | 'grandparents';
+
+export interface HeirshipRules {
+  id: string;
+  label: string;
+  distribution: DistributionMethod;
+  // Fraction of the estate a surviving spouse takes next to each class of heirs.
+  spouseShare: Record<HeirClass, number>;
+  // The spouse takes everything when all descendants are also the spouse's (UPC §2-102).
+  spouseTakesAllWithSharedDescendants?: boolean;
+  // The spouse's "parents" share applies only if a parent survives; siblings alone leave the spouse everything (UPC §2-102(1)(A)).
+  spouseTakesAllWithoutParents?: boolean;
+  // Surviving parents (or grandparents) exclude their other descendants; otherwise each ancestor's part passes to their line.
+  ancestorsFirst: boolean;
+  // Half the estate goes to each side of the family at the grandparent level.
+  splitGrandparentsBySide: boolean;
+  note: string;
+}
+
+export const HEIRSHIP_RULES: HeirshipRules[] = [
+  {
+    id: 'upc',
+    label: 'Uniform Probate Code (US)',
+    distribution: 'per-capita-each-generation',
+    spouseShare: { descendants: 1 / 2, parents: 3 / 4, grandparents: 1 },
+    spouseTakesAllWithSharedDescendants: true,
+    spouseTakesAllWithoutParents: true,
+    ancestorsFirst: true,
+    splitGrandparentsBySide: true,
+    note: 'The fixed dollar amounts a spouse takes before the fraction are not modelled.'
+  },
+  {
+    id: 'england-wales',
+    label: 'England & Wales',
+    distribution: 'per-stirpes',
+    spouseShare: { descendants: 1 / 2, parents: 1, grandparents: 1 },
+    ancestorsFirst: true,
+    splitGrandparentsBySide: false,
+    note: 'The spouse\'s personal chattels and statutory legacy are not modelled, and half-blood relatives are not postponed to the whole blood.'
+  },
+  {
+    id: 'civil-law',
+    label: 'Civil law (German BGB)',
+    distribution: 'per-stirpes',
+    spouseShare: { descendants: 1 / 4, parents: 1 / 2, grandparents: 1 / 2 },
+    ancestorsFirst: false,
+    splitGrandparentsBySide: true,
+    note: 'The extra quarter under the community of accrued gains is not modelled.'
+  }
+];
+
+export interface Fraction {
+  numerator: number;
+  denominator: number;
+}
+
+export interface Heir {
+  memberId: string;
+  relation: string;
+  share: Fraction;
+  // Survival could not be established; the share assumes this person survived.
+  provisional?: boolean;
+  note?: string;
+}
+
+export interface HeirshipBlocker {
+  memberId: string;
+  message: string;
+}
+
+export interface HeirshipResult {
+  decedentId: string;
+  rules: HeirshipRules;
+  distribution: DistributionMethod;
+  heirs: Heir[];
+  blockers: HeirshipBlocker[];
+  notes: string[];
+}
+
+type Survival = 'survived' | 'predeceased' | 'unborn' | 'unknown';
+
+const gcd = (a: number, b: number): number => b === 0 ? Math.abs(a) : gcd(b, a % b);
+
+const fraction = (numerator: number, denominator = 1): Fraction => {
+  const divisor = gcd(numerator, denominator) || 1;
+  return { numerator: numerator / divisor, denominator: denominator / divisor };
+};
+
+const times = (a: Fraction, b: Fraction) => fraction(a.numerator * b.numerator, a.denominator * b.denominator);
+const plus = (a: Fraction, b: Fraction) => fraction(a.numerator * b.denominator + b.numerator * a.denominator, a.denominator * b.denominator);
+const minus = (a: Fraction, b: Fraction) => plus(a, { numerator: -b.numerator, denominator: b.denominator });
+
+// Spouse shares are simple fractions; turn 0.75 back into 3/4.
+const toFraction = (value: number): Fraction => {
+  for (let denominator = 1; denominator <= 24; denominator++) {
+    const numerator = Math.round(value * denominator);
+    if (Math.abs(numerator / denominator - value) < 1e-9) return fraction(numerator, denominator);
+  }
+  return fraction(Math.round(value * 1000), 1000);
+};
+
+export const formatFraction = (share: Fraction) => share.denominator === 1 ? `${share.numerator}` : `${share.numerator}/${share.denominator}`;
+
+export const formatPercent = (share: Fraction) => `${(share.numerator / share.denominator * 100).toFixed(2).replace(/\.?0+$/, '')}%`;
+
+// A child born up to about ten months after the death still inherits.
+const GESTATION_DAYS = 300;
+
+const DESCENDANT_LABELS = ['Child', 'Grandchild', 'Great-grandchild'];
+const SIBLING_LINE_LABELS = ['Parent', 'Sibling', 'Niece/Nephew', 'Grandniece/Grandnephew'];
+const GRANDPARENT_LINE_LABELS = ['Grandparent', 'Aunt/Uncle', 'First cousin', 'First cousin once removed', 'First cousin twice removed'];
+
+const relationLabel = (heirClass: HeirClass, depth: number) => {
+  if (heirClass === 'descendants') return DESCENDANT_LABELS[depth - 1] || `${depth - 2}× great-grandchild`;
+  if (heirClass === 'parents') return SIBLING_LINE_LABELS[depth] || 'Descendant of a sibling';
+  return GRANDPARENT_LINE_LABELS[depth] || 'Descendant of a grandparent';
+};
+
+/**
+ * Work out who inherits from a decedent who left no will, and in what
+ * shares, under a rule set. Heirs are looked for among the descendants,
+ * then the parents and their descendants, then the grandparents and theirs.
+ * People whose survival of the decedent cannot be established from vital
+ * status and dates are counted as heirs provisionally and reported as
+ * blockers.
+ */
+export const calculateHeirship = (members: FamilyMember[], decedentId: string, rules: HeirshipRules, distribution: DistributionMethod = rules.distribution): HeirshipResult => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const childrenOf = new Map<string, string[]>();
+  members.forEach(m => (m.parents || []).filter(id => byId.has(id)).forEach(parentId => {
+    childrenOf.set(parentId, [...(childrenOf.get(parentId) || []), m.id]);
+  }));
+  const children = (id: string) => (childrenOf.get(id) || []).filter(c => c !== decedentId);
+  const parents = (id: string) => (byId.get(id)?.parents || []).filter(p => byId.has(p));
+  const nameOf = (id: string) => byId.get(id)?.name || id;
+
+  const decedent = byId.get(decedentId);
+  const result: HeirshipResult = { decedentId, rules, distribution, heirs: [], blockers: [], notes: [rules.note] };
+  if (!decedent) {
+    result.blockers.push({ memberId: decedentId, message: 'This person is not in the tree.' });
+    return result;
+  }
+  if (decedent.vitalStatus === 'living') {
+    result.blockers.push({ memberId: decedentId, message: `${decedent.name} is recorded as living.` });
+  }
+  const deathDate = memberDate(decedent, 'death');
+  const death = deathDate && dateRange(deathDate);
+  if (!death) result.notes.push(`${decedent.name}'s date of death is not recorded, so survival is taken from vital status alone.`);
+
+  const maxLifespanDays = PLAUSIBILITY_LIMITS.maxLifespan * 365.25;
+  const survival = new Map<string, { state: Survival, reason?: string }>();
+  const survivalOf = (id: string) => {
+    if (survival.has(id)) return survival.get(id)!;
+    const m = byId.get(id)!;
+    const birthDate = memberDate(m, 'birth');
+    const born = birthDate && dateRange(birthDate);
+    const diedDate = memberDate(m, 'death');
+    const died = diedDate && dateRange(diedDate);
+    let value: { state: Survival, reason?: string };
+    if (id === decedentId) value = { state: 'predeceased' };
+    else if (born && death && born[0] > death[1] + GESTATION_DAYS) value = { state: 'unborn' };
+    else if (died && death) {
+      if (died[1] < death[0]) value = { state: 'predeceased' };
+      else if (died[0] > death[1]) value = { state: 'survived' };
+      else value = { state: 'unknown', reason: `${m.name} died around the same time as ${decedent.name}; the order of deaths is unclear.` };
+    }
+    else if (m.vitalStatus === 'living' && !died) value = { state: 'survived' };
+    else if (born && death && born[1] + maxLifespanDays < death[0]) value = { state: 'predeceased' };
+    else if (died || m.vitalStatus === 'deceased') value = { state: 'unknown', reason: `${m.name} has died, but it is not known whether before or after ${decedent.name}.` };
+    else value = { state: 'unknown', reason: `${m.name}'s vital status is unknown.` };
+    survival.set(id, value);
+    return value;
+  };
+  const takes = (id: string) => survivalOf(id).state === 'survived' || survivalOf(id).state === 'unknown';
+
+  // Whether someone, or anyone descended from them, can take a share.
+  const issueMemo = new Map<string, boolean>();
+  const hasHeirs = (id: string, path = new Set<string>()): boolean => {
+    if (issueMemo.has(id)) return issueMemo.get(id)!;
+    if (path.has(id)) return false;
+    path.add(id);
+    const value = takes(id) || children(id).some(c => hasHeirs(c, path));
+    path.delete(id);
+    issueMemo.set(id, value);
+    return value;
+  };
+
+  const shares = new Map<string, Heir>();
+  const give = (id: string, share: Fraction, relation: string) => {
+    const state = survivalOf(id);
+    const existing = shares.get(id);
+    if (existing) {
+      existing.share = plus(existing.share, share);
+      return;
+    }
+    const heir: Heir = { memberId: id, relation, share };
+    if (state.state === 'unknown') {
+      heir.provisional = true;
+      result.blockers.push({ memberId: id, message: state.reason! });
+    } else if (memberDate(byId.get(id)!, 'death')) {
+      heir.note = `Died after ${decedent.name}; the share passes to ${nameOf(id)}'s estate.`;
+    }
+    shares.set(id, heir);
+  };
+
+  const unique = (ids: string[]) => Array.from(new Set(ids));
+  const next = (ids: string[]) => unique(ids.flatMap(children)).filter(id => hasHeirs(id));
+
+  /**
+   * Divide `share` among the lines starting at `generation`, the first
+   * generation below the common ancestor at `depth`.
+   */
+  const distribute = (generation: string[], share: Fraction, heirClass: HeirClass, depth: number): boolean => {
+    let level = unique(generation).filter(id => hasHeirs(id));
+    if (level.length === 0) return false;
+    if (distribution === 'per-stirpes') {
+      const each = times(share, fraction(1, level.length));
+      level.forEach(id => takes(id) ? give(id, each, relationLabel(heirClass, depth)) : distribute(children(id), each, heirClass, depth + 1));
+      return true;
+    }
+    // Per capita methods divide at the nearest generation with a survivor.
+    while (level.length > 0 && !level.some(takes)) {
+      level = next(level);
+      depth++;
+    }
+    if (level.length === 0) return false;
+    const each = times(share, fraction(1, level.length));
+    const survivors = level.filter(takes);
+    const predeceased = level.filter(id => !takes(id));
+    survivors.forEach(id => give(id, each, relationLabel(heirClass, depth)));
+    if (distribution === 'per-capita') {
+      predeceased.forEach(id => distribute(children(id), each, heirClass, depth + 1));
+    } else if (predeceased.length > 0) {
+      distribute(predeceased.flatMap(children), times(each, fraction(predeceased.length)), heirClass, depth + 1);
+    }
+    return true;
+  };
+
+  const lineHasHeirs = (ancestors: string[]) => ancestors.some(a => takes(a) || children(a).some(c => hasHeirs(c)));
+
+  /**
+   * Give `share` to a set of ancestors (parents or grandparents) or the
+   * people descended from them.
+   */
+  const distributeLine = (ancestors: string[], share: Fraction, heirClass: HeirClass) => {
+    if (rules.ancestorsFirst) {
+      const survivors = ancestors.filter(takes);
+      if (survivors.length > 0) {
+        survivors.forEach(id => give(id, times(share, fraction(1, survivors.length)), relationLabel(heirClass, 0)));
+        return;
+      }
+      distribute(ancestors.flatMap(children), share, heirClass, 1);
+      return;
+    }
+    const eligible = ancestors.filter(a => lineHasHeirs([a]));
+    const each = times(share, fraction(1, eligible.length));
+    eligible.forEach(id => takes(id) ? give(id, each, relationLabel(heirClass, 0)) : distribute(children(id), each, heirClass, 1));
+  };
+
+  // A surviving partner is the spouse unless a divorce is recorded.
+  const divorced = (partnerId: string) => [decedent, byId.get(partnerId)!].some(m => (m.events || []).some(e => e.type === 'divorce' && (e.partnerId === partnerId || e.partnerId === decedentId)));
+  const spouses = (decedent.partners || []).filter(id => byId.has(id) && id !== decedentId && !divorced(id) && takes(id));
+  const spouseId = spouses[0];
+  if (spouses.length > 1) {
+    result.blockers.push({ memberId: decedentId, message: `More than one partner may have survived ${decedent.name} (${spouses.map(nameOf).join(', ')}); confirm who was the legal spouse.` });
+  }
+
+  const decedentParents = parents(decedentId);
+  if (decedentParents.length < 2) result.notes.push(`Only ${decedentParents.length === 0 ? 'no' : 'one'} parent of ${decedent.name} is recorded, so heirs on the other side may be missing.`);
+  const grandparentSides = decedentParents.map(parents).filter(side => side.length > 0);
+
+  const classes: { heirClass: HeirClass, found: boolean, distribute: (share: Fraction) => void }[] = [
+    {
+      heirClass: 'descendants',
+      found: children(decedentId).some(c => hasHeirs(c)),
+      distribute: share => { distribute(children(decedentId), share, 'descendants', 1); }
+    },
+    {
+      heirClass: 'parents',
+      found: lineHasHeirs(decedentParents),
+      distribute: share => distributeLine(decedentParents, share, 'parents')
+    },
+    {
+      heirClass: 'grandparents',
+      found: grandparentSides.some(lineHasHeirs),
+      distribute: share => {
+        if (!rules.splitGrandparentsBySide) return distributeLine(unique(grandparentSides.flat()), share, 'grandparents');
+        const sides = grandparentSides.filter(lineHasHeirs);
+        sides.forEach(side => distributeLine(side, times(share, fraction(1, sides.length)), 'grandparents'));
+      }
+    }
+  ];
+  const heirs = classes.find(c => c.found);
+
+  let remainder = fraction(1);
+  if (spouseId) {
+    const spouseChildren = childrenOf.get(spouseId) || [];
+    const allShared = !!heirs && heirs.heirClass === 'descendants'
+      && children(decedentId).filter(c => hasHeirs(c)).every(c => spouseChildren.includes(c))
+      && spouseChildren.every(c => (byId.get(c)?.parents || []).includes(decedentId));
+    const onlySiblings = heirs?.heirClass === 'parents' && !decedentParents.some(takes);
+    const spouseShare = !heirs || (allShared && rules.spouseTakesAllWithSharedDescendants) || (onlySiblings && rules.spouseTakesAllWithoutParents)
+      ? fraction(1)
+      : toFraction(rules.spouseShare[heirs.heirClass]);
+    give(spouseId, spouseShare, 'Spouse');
+    remainder = minus(remainder, spouseShare);
+  }
+  if (heirs && remainder.numerator > 0) heirs.distribute(remainder);
+  if (!heirs && !spouseId) {
+    result.notes.push('No heirs were found among the descendants of the grandparents; the estate may pass to more remote kin or to the state.');
+  }
+
+  result.heirs = Array.from(shares.values());
+  return result;
+};
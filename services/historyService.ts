@@ -0,0 +1,105 @@
+import { ExtractionResult, TreeSnapshot } from "../types";
+
+export type HistoryOperation = 'open' | 'search' | 'import' | 'merge' | 'update' | 'research' | 'manual-edit' | 'repair' | 'restore';
+
+export interface HistoryEntry {
+  id: string;
+  operation: HistoryOperation;
+  label: string;
+  timestamp: number;
+  result: ExtractionResult;
+}
+
+export interface TreeHistory {
+  past: HistoryEntry[];
+  present: HistoryEntry | null;
+  future: HistoryEntry[];
+  snapshots: TreeSnapshot[];
+}
+
+export const HISTORY_LIMIT = 50;
+
+export const OPERATION_LABELS: Record<HistoryOperation, string> = {
+  'open': 'Opened',
+  'search': 'Search',
+  'import': 'Import',
+  'merge': 'Chat Merge',
+  'update': 'AI Update',
+  'research': 'Research',
+  'manual-edit': 'Manual Edit',
+  'repair': 'Auto Repair',
+  'restore': 'Restore'
+};
+
+const entryId = () => `h-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+
+export const emptyHistory = (snapshots: TreeSnapshot[] = []): TreeHistory => ({ past: [], present: null, future: [], snapshots });
+
+/**
+ * Start a fresh undo stack at `result`, e.g. after opening a saved project.
+ */
+export const resetHistory = (result: ExtractionResult | null, snapshots: TreeSnapshot[] = []): TreeHistory => {
+  if (!result) return emptyHistory(snapshots);
+  return {
+    ...emptyHistory(snapshots),
+    present: { id: entryId(), operation: 'open', label: result.title || 'Loaded tree', timestamp: Date.now(), result }
+  };
+};
+
+/**
+ * Record a new version. Anything that was undone is discarded.
+ */
+export const pushHistory = (history: TreeHistory, result: ExtractionResult, operation: HistoryOperation, label: string): TreeHistory => {
+  const past = history.present ? [...history.past, history.present].slice(-HISTORY_LIMIT) : history.past;
+  return {
+    ...history,
+    past,
+    present: { id: entryId(), operation, label, timestamp: Date.now(), result },
+    future: []
+  };
+};
+
+export const canUndo = (history: TreeHistory) => history.past.length > 0;
+export const canRedo = (history: TreeHistory) => history.future.length > 0;
+
+export const undo = (history: TreeHistory): TreeHistory => {
+  if (!canUndo(history) || !history.present) return history;
+  const previous = history.past[history.past.length - 1];
+  return { ...history, past: history.past.slice(0, -1), present: previous, future: [history.present, ...history.future] };
+};
+
+export const redo = (history: TreeHistory): TreeHistory => {
+  if (!canRedo(history) || !history.present) return history;
+  const [next, ...future] = history.future;
+  return { ...history, past: [...history.past, history.present], present: next, future };
+};
+
+/**
+ * Move directly to any entry in the past or future stack.
+ */
+export const jumpTo = (history: TreeHistory, id: string): TreeHistory => {
+  const timeline = [...history.past, ...(history.present ? [history.present] : []), ...history.future];
+  const index = timeline.findIndex(e => e.id === id);
+  if (index < 0) return history;
+  return { ...history, past: timeline.slice(0, index), present: timeline[index], future: timeline.slice(index + 1) };
+};
+
+export const addSnapshot = (history: TreeHistory, name: string): TreeHistory => {
+  if (!history.present) return history;
+  const snapshot: TreeSnapshot = { id: `s-${Date.now().toString(36)}`, name, timestamp: Date.now(), result: history.present.result };
+  return { ...history, snapshots: [snapshot, ...history.snapshots] };
+};
+
+export const removeSnapshot = (history: TreeHistory, id: string): TreeHistory => ({
+  ...history,
+  snapshots: history.snapshots.filter(s => s.id !== id)
+});
+
+/**
+ * Restoring a snapshot is itself an undoable step.
+ */
+export const restoreSnapshot = (history: TreeHistory, id: string): TreeHistory => {
+  const snapshot = history.snapshots.find(s => s.id === id);
+  if (!snapshot) return history;
+  return pushHistory(history, snapshot.result, 'restore', `Restored "${snapshot.name}"`);
+};
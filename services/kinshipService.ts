@@ -0,0 +1,224 @@
+import { ExtractionResult, FamilyMember } from "../types";
+
+export type KinshipKind = 'self' | 'blood' | 'spouse' | 'step' | 'in-law';
+
+export interface Kinship {
+  fromId: string;
+  toId: string;
+  kind: KinshipKind;
+  // What `to` is to `from`, e.g. "second cousin once removed".
+  label: string;
+  // Member IDs from `from` to `to`, for highlighting.
+  path: string[];
+}
+
+type Gender = FamilyMember['gender'];
+
+const gendered = (gender: Gender, male: string, female: string, neutral: string) =>
+  gender === 'male' ? male : gender === 'female' ? female : neutral;
+
+const ORDINALS = ['first', 'second', 'third', 'fourth', 'fifth', 'sixth', 'seventh', 'eighth', 'ninth', 'tenth'];
+const ordinal = (n: number) => ORDINALS[n - 1] || `${n}th`;
+const TIMES = ['once', 'twice'];
+const times = (n: number) => TIMES[n - 1] || `${n} times`;
+
+// "great-great-" for two, "3× great-" beyond that.
+const greats = (n: number) => n <= 0 ? '' : n <= 2 ? 'great-'.repeat(n) : `${n}× great-`;
+
+/**
+ * Name a blood relationship from the generations each person sits below
+ * their nearest common ancestor: `up` for the person the relationship is
+ * seen from, `down` for the relative.
+ */
+const bloodLabel = (up: number, down: number, gender: Gender, half: boolean) => {
+  const halfPrefix = half ? 'half-' : '';
+  if (down === 0) {
+    const word = gendered(gender, 'father', 'mother', 'parent');
+    return up === 1 ? word : `${greats(up - 2)}grand${word}`;
+  }
+  if (up === 0) {
+    const word = gendered(gender, 'son', 'daughter', 'child');
+    return down === 1 ? word : `${greats(down - 2)}grand${word}`;
+  }
+  if (up === 1 && down === 1) return halfPrefix + gendered(gender, 'brother', 'sister', 'sibling');
+  if (up === 1) {
+    const word = gendered(gender, 'nephew', 'niece', 'niece/nephew');
+    return `${halfPrefix}${down === 3 ? 'grand-' : down > 3 ? `${greats(down - 3)}grand-` : ''}${word}`;
+  }
+  if (down === 1) {
+    const word = gendered(gender, 'uncle', 'aunt', 'aunt/uncle');
+    return `${halfPrefix}${up === 3 ? 'great-' : up > 3 ? `${greats(up - 3)}grand-` : ''}${word}`;
+  }
+  const degree = Math.min(up, down) - 1;
+  const removed = Math.abs(up - down);
+  return `${half ? 'half ' : ''}${ordinal(degree)} cousin${removed ? ` ${times(removed)} removed` : ''}`;
+};
+
+const spouseWord = (gender: Gender, former: boolean) =>
+  `${former ? 'former ' : ''}${gendered(gender, 'husband', 'wife', 'spouse')}`;
+
+/**
+ * Relationship calculator over a fixed set of members. Ancestor searches
+ * are cached, so labelling a whole tree from one person stays cheap.
+ */
+const createKinship = (members: FamilyMember[]) => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const parentsOf = (id: string) => (byId.get(id)?.parents || []).filter(p => byId.has(p) && p !== id);
+  const partnersOf = (id: string) => (byId.get(id)?.partners || []).filter(p => byId.has(p) && p !== id);
+
+  const divorced = (a: string, b: string) => [byId.get(a), byId.get(b)].some(m => (m?.events || []).some(e => e.type === 'divorce' && (e.partnerId === a || e.partnerId === b)));
+
+  // Breadth-first walk up the tree: each ancestor with its distance and the
+  // next person down towards the start.
+  const ancestorCache = new Map<string, Map<string, { depth: number, via?: string }>>();
+  const ancestors = (id: string) => {
+    if (ancestorCache.has(id)) return ancestorCache.get(id)!;
+    const found = new Map<string, { depth: number, via?: string }>([[id, { depth: 0 }]]);
+    const queue = [id];
+    while (queue.length > 0) {
+      const current = queue.shift()!;
+      const depth = found.get(current)!.depth;
+      parentsOf(current).forEach(p => {
+        if (found.has(p)) return;
+        found.set(p, { depth: depth + 1, via: current });
+        queue.push(p);
+      });
+    }
+    ancestorCache.set(id, found);
+    return found;
+  };
+
+  // From an ancestor back down to the person the search started from.
+  const lineDown = (found: Map<string, { depth: number, via?: string }>, ancestorId: string) => {
+    const line = [ancestorId];
+    let step = found.get(ancestorId)?.via;
+    while (step) {
+      line.push(step);
+      step = found.get(step)?.via;
+    }
+    return line;
+  };
+
+  const blood = (fromId: string, toId: string): Kinship | null => {
+    const fromAncestors = ancestors(fromId);
+    const toAncestors = ancestors(toId);
+    let best: { id: string, up: number, down: number } | null = null;
+    fromAncestors.forEach(({ depth: up }, id) => {
+      const other = toAncestors.get(id);
+      if (!other) return;
+      if (!best || up + other.depth < best.up + best.down) best = { id, up, down: other.depth };
+    });
+    if (!best) return null;
+    const { id, up, down } = best as { id: string, up: number, down: number };
+
+    const fromLine = lineDown(fromAncestors, id);
+    const toLine = lineDown(toAncestors, id);
+    // Collateral kin are half-blood when the two lines leave the common
+    // ancestor through children whose other parents are known and differ.
+    let half = false;
+    if (up > 0 && down > 0) {
+      const otherParent = (childId: string) => parentsOf(childId).filter(p => p !== id);
+      const a = otherParent(fromLine[1]);
+      const b = otherParent(toLine[1]);
+      half = fromLine[1] !== toLine[1] && a.length > 0 && b.length > 0 && !a.some(p => b.includes(p));
+    }
+    return {
+      fromId,
+      toId,
+      kind: 'blood',
+      label: bloodLabel(up, down, byId.get(toId)?.gender, half),
+      path: [...fromLine.reverse(), ...toLine.slice(1)]
+    };
+  };
+
+  const step = (fromId: string, toId: string): Kinship | null => {
+    const gender = byId.get(toId)?.gender;
+    const fromParents = parentsOf(fromId);
+    // A partner's child who is not one's own.
+    const viaPartner = partnersOf(fromId).find(p => parentsOf(toId).includes(p));
+    if (viaPartner && !parentsOf(toId).includes(fromId)) {
+      return { fromId, toId, kind: 'step', label: `step${gendered(gender, 'son', 'daughter', 'child')}`, path: [fromId, viaPartner, toId] };
+    }
+    // A parent's partner who is not one's parent.
+    const viaParent = fromParents.find(p => partnersOf(p).includes(toId));
+    if (viaParent) {
+      return { fromId, toId, kind: 'step', label: `step${gendered(gender, 'father', 'mother', 'parent')}`, path: [fromId, viaParent, toId] };
+    }
+    // A step-parent's child with no parent in common.
+    for (const parent of fromParents) {
+      const stepParent = partnersOf(parent).find(sp => !fromParents.includes(sp) && parentsOf(toId).includes(sp));
+      if (stepParent && !parentsOf(toId).some(p => fromParents.includes(p))) {
+        return { fromId, toId, kind: 'step', label: `step${gendered(gender, 'brother', 'sister', 'sibling')}`, path: [fromId, parent, stepParent, toId] };
+      }
+    }
+    return null;
+  };
+
+  const IN_LAW_WORDS: Record<string, [string, string, string]> = {
+    parent: ['father-in-law', 'mother-in-law', 'parent-in-law'],
+    child: ['son-in-law', 'daughter-in-law', 'child-in-law'],
+    sibling: ['brother-in-law', 'sister-in-law', 'sibling-in-law']
+  };
+
+  const inLaw = (fromId: string, toId: string): Kinship | null => {
+    const gender = byId.get(toId)?.gender;
+    // Blood relatives of one's partner.
+    for (const partner of partnersOf(fromId)) {
+      const relation = blood(partner, toId);
+      if (!relation) continue;
+      const partnerGender = byId.get(partner)?.gender;
+      const base = relation.label.replace(/^half-/, '');
+      const key = /^(father|mother|parent)$/.test(base) ? 'parent' : /^(brother|sister|sibling)$/.test(base) ? 'sibling' : undefined;
+      const label = key ? gendered(gender, ...IN_LAW_WORDS[key]) : `${spouseWord(partnerGender, divorced(fromId, partner))}'s ${relation.label}`;
+      return { fromId, toId, kind: 'in-law', label, path: [fromId, ...relation.path] };
+    }
+    // Partners of one's blood relatives.
+    for (const partner of partnersOf(toId)) {
+      const relation = blood(fromId, partner);
+      if (!relation) continue;
+      const base = relation.label.replace(/^half-/, '');
+      const key = /^(son|daughter|child)$/.test(base) ? 'child' : /^(brother|sister|sibling)$/.test(base) ? 'sibling' : undefined;
+      const label = key ? gendered(gender, ...IN_LAW_WORDS[key]) : `${relation.label}'s ${spouseWord(gender, divorced(partner, toId))}`;
+      return { fromId, toId, kind: 'in-law', label, path: [...relation.path, toId] };
+    }
+    return null;
+  };
+
+  /**
+   * What `toId` is to `fromId`: partner first, then blood, step and in-law
+   * relationships. Null when the two are not related in any of these ways.
+   */
+  const find = (fromId: string, toId: string): Kinship | null => {
+    if (!byId.has(fromId) || !byId.has(toId)) return null;
+    if (fromId === toId) return { fromId, toId, kind: 'self', label: 'self', path: [fromId] };
+    if (partnersOf(fromId).includes(toId)) {
+      return { fromId, toId, kind: 'spouse', label: spouseWord(byId.get(toId)?.gender, divorced(fromId, toId)), path: [fromId, toId] };
+    }
+    return blood(fromId, toId) || step(fromId, toId) || inLaw(fromId, toId);
+  };
+
+  return { find };
+};
+
+export const findRelationship = (members: FamilyMember[], fromId: string, toId: string): Kinship | null =>
+  createKinship(members).find(fromId, toId);
+
+// "second cousin once removed" -> "Second Cousin Once Removed", like the labels the model writes.
+const titleCase = (label: string) => label.replace(/(^|[\s/-])([a-z])/g, (_, sep: string, c: string) => sep + c.toUpperCase());
+
+/**
+ * Rewrite every member's relationship label relative to a home person.
+ * People with no blood, marriage or step relationship to them lose their label.
+ */
+export const labelRelationships = (data: ExtractionResult, homeId: string): ExtractionResult => {
+  const kinship = createKinship(data.members);
+  return {
+    ...data,
+    members: data.members.map(m => {
+      const relation = m.id === homeId ? 'home person' : kinship.find(homeId, m.id)?.label;
+      const next = { ...m, relationship: relation && titleCase(relation) };
+      if (!next.relationship) delete next.relationship;
+      return next;
+    })
+  };
+};
@@ -0,0 +1,612 @@
+import * as d3 from 'd3';
+import { FamilyMember } from "../types";
+import { compareDates, memberDate } from "./dateService";
+
+export type ChartType = 'family' | 'pedigree' | 'descendants' | 'hourglass' | 'fan';
+
+export const CHART_TYPES: { type: ChartType, label: string, icon: string }[] = [
+  { type: 'family', label: 'Family Tree', icon: 'fa-users' },
+  { type: 'pedigree', label: 'Pedigree', icon: 'fa-code-branch' },
+  { type: 'descendants', label: 'Descendants', icon: 'fa-sitemap' },
+  { type: 'hourglass', label: 'Hourglass', icon: 'fa-hourglass-half' },
+  { type: 'fan', label: 'Fan Chart', icon: 'fa-chart-pie' }
+];
+
+export const CARD_WIDTH = 240;
+export const CARD_HEIGHT = 120;
+
+const PADDING = 120;
+const GENERATION_GAP = 200; // Vertical distance between generations, card included
+const SIBLING_GAP = 80;
+const FAMILY_GAP = 160; // Between sibling groups with different parents
+const MAX_LANES = 4; // Connector bars stacked in one gap between generations
+const PEDIGREE_GAP = 100; // Horizontal gap between pedigree columns
+const FAN_CENTER_RADIUS = 110;
+const FAN_RING_WIDTH = 130;
+const FAN_SPAN = Math.PI * 1.5;
+
+export interface FanArc {
+  path: string; // SVG path around the chart center
+  labelX: number;
+  labelY: number;
+  labelAngle: number; // Degrees to rotate the label about its position
+  generation: number;
+}
+
+export interface LayoutNode {
+  key: string; // A person can appear more than once, e.g. through pedigree collapse
+  memberId: string;
+  x: number; // Top-left corner of a card, or the chart center for fan arcs
+  y: number;
+  arc?: FanArc;
+}
+
+export interface LayoutEdge {
+  key: string;
+  fromId: string; // Parent, or the first partner
+  toId: string;
+  kind: 'parent-child' | 'partner';
+  path: string;
+}
+
+export interface TreeLayout {
+  nodes: LayoutNode[];
+  edges: LayoutEdge[];
+  width: number;
+  height: number;
+}
+
+export interface LayoutOptions {
+  focusId?: string;
+  // Generations to show, counting the focus person.
+  generations?: number;
+}
+
+// Parent above, child below.
+const verticalElbow = (parent: { x: number, y: number }, child: { x: number, y: number }) => {
+  const startX = parent.x + CARD_WIDTH / 2;
+  const startY = parent.y + CARD_HEIGHT;
+  const endX = child.x + CARD_WIDTH / 2;
+  const endY = child.y;
+  const midY = startY + (endY - startY) * 0.5;
+  return `M ${startX} ${startY} L ${startX} ${midY} L ${endX} ${midY} L ${endX} ${endY}`;
+};
+
+// Child on the left, parent to the right.
+const horizontalElbow = (child: { x: number, y: number }, parent: { x: number, y: number }) => {
+  const startX = child.x + CARD_WIDTH;
+  const startY = child.y + CARD_HEIGHT / 2;
+  const endX = parent.x;
+  const endY = parent.y + CARD_HEIGHT / 2;
+  const midX = startX + (endX - startX) * 0.5;
+  return `M ${startX} ${startY} L ${midX} ${startY} L ${midX} ${endY} L ${endX} ${endY}`;
+};
+
+// Sorted parent IDs, the same for full siblings.
+const familyKey = (parents: string[]) => [...parents].sort().join('|');
+
+const mean = (values: number[]) => values.length > 0 ? values.reduce((a, b) => a + b, 0) / values.length : undefined;
+
+/**
+ * Layered layout of the whole tree, one row per generation:
+ * 1. partners are grouped into couple units, and each unit sits a row below
+ *    the lower of its members' parents;
+ * 2. barycentric sweeps reorder the rows to cut crossing connectors, keeping
+ *    full siblings together in birth order;
+ * 3. sibling groups are centered under their parents and couples over their
+ *    children, as close to that as the row allows without overlaps.
+ */
+const familyLayout = (members: FamilyMember[]): TreeLayout => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const parentsOf = new Map(members.map(m => [m.id, [...new Set(m.parents || [])].filter(p => byId.has(p) && p !== m.id)]));
+  const childrenOf = new Map<string, string[]>(members.map(m => [m.id, []]));
+  parentsOf.forEach((parents, id) => parents.forEach(p => childrenOf.get(p)!.push(id)));
+  // Partner links in both directions, whichever side recorded them.
+  const partnersOf = new Map(members.map(m => [m.id, new Set<string>()]));
+  members.forEach(m => (m.partners || []).forEach(p => {
+    if (!byId.has(p) || p === m.id) return;
+    partnersOf.get(m.id)!.add(p);
+    partnersOf.get(p)!.add(m.id);
+  }));
+  const births = new Map(members.map(m => [m.id, memberDate(m, 'birth')]));
+  const byBirth = (a: string, b: string) => compareDates(births.get(a), births.get(b));
+
+  // 1. Couple units and generations. Partners share a row unless that would
+  // put someone beside their own ancestor; those units are split up.
+  const single = new Set<string>();
+  let units: string[][] = [];
+  let unitOf = new Map<string, number>();
+  let upUnits: Set<number>[] = [];
+  let downUnits: Set<number>[] = [];
+  let unitGen: number[] = [];
+  let order: number[] = [];
+  for (let attempt = 0; attempt < 2; attempt++) {
+    units = [];
+    unitOf = new Map();
+    members.forEach(m => {
+      if (unitOf.has(m.id)) return;
+      const group = [m.id];
+      unitOf.set(m.id, units.length);
+      for (let i = 0; i < group.length; i++) {
+        if (single.has(group[i])) continue;
+        partnersOf.get(group[i])!.forEach(p => {
+          if (unitOf.has(p) || single.has(p)) return;
+          unitOf.set(p, units.length);
+          group.push(p);
+        });
+      }
+      units.push(group);
+    });
+    upUnits = units.map(group => new Set(group.flatMap(id => parentsOf.get(id)!.map(p => unitOf.get(p)!))));
+    downUnits = units.map(() => new Set<number>());
+    upUnits.forEach((ups, u) => ups.forEach(p => downUnits[p].add(u)));
+
+    // Longest path from the top (Kahn's algorithm).
+    const pending = upUnits.map(ups => ups.size);
+    const done = units.map(() => false);
+    const queue = units.map((_, u) => u).filter(u => pending[u] === 0);
+    unitGen = units.map(() => 0);
+    order = [];
+    for (let head = 0; order.length < units.length;) {
+      if (head === queue.length) {
+        if (attempt === 0) break;
+        // Only corrupt parent links (someone their own ancestor) get here.
+        queue.push(units.findIndex((_, u) => !done[u]));
+      }
+      const u = queue[head++];
+      if (done[u]) continue;
+      done[u] = true;
+      order.push(u);
+      upUnits[u].forEach(p => { if (done[p] && p !== u) unitGen[u] = Math.max(unitGen[u], unitGen[p] + 1); });
+      downUnits[u].forEach(c => { if (--pending[c] === 0) queue.push(c); });
+    }
+    if (order.length === units.length) break;
+
+    const reachesItself = (start: number) => {
+      const stack = [...downUnits[start]];
+      const seen = new Set(stack);
+      while (stack.length > 0) {
+        const u = stack.pop()!;
+        if (u === start) return true;
+        downUnits[u].forEach(c => { if (!seen.has(c) && !done[c]) { seen.add(c); stack.push(c); } });
+      }
+      return false;
+    };
+    units.forEach((group, u) => { if (!done[u] && group.length > 1 && reachesItself(u)) group.forEach(id => single.add(id)); });
+  }
+
+  // Founders move down to sit just above their highest child, so people who
+  // married in do not leave their parents stranded at the top.
+  [...order].reverse().forEach(u => {
+    if (upUnits[u].size === 0 && downUnits[u].size > 0) unitGen[u] = Math.min(...[...downUnits[u]].map(c => unitGen[c])) - 1;
+  });
+  const topGen = Math.min(...unitGen);
+  const genOf = (id: string) => unitGen[unitOf.get(id)!] - topGen;
+
+  // A person with several partners sits between them where possible.
+  units = units.map(group => {
+    if (group.length === 1) return group;
+    const partnersInUnit = (id: string) => [...partnersOf.get(id)!].filter(p => group.includes(p));
+    const ends = group.filter(id => partnersInUnit(id).length === 1);
+    if (ends.length === 2 && group.every(id => partnersInUnit(id).length <= 2)) {
+      const line = [byId.get(ends[1])?.gender === 'male' && byId.get(ends[0])?.gender !== 'male' ? ends[1] : ends[0]];
+      while (line.length < group.length) line.push(partnersInUnit(line[line.length - 1]).find(p => !line.includes(p))!);
+      return line;
+    }
+    const hub = group.reduce((a, b) => partnersInUnit(b).length > partnersInUnit(a).length ? b : a);
+    const reached = [hub];
+    for (let i = 0; i < reached.length; i++) partnersInUnit(reached[i]).forEach(p => { if (!reached.includes(p)) reached.push(p); });
+    const left: string[] = [];
+    const right: string[] = [];
+    reached.slice(1).forEach((id, i) => i % 2 === 0 ? left.unshift(id) : right.push(id));
+    return [...left, hub, ...right];
+  });
+
+  // 2. Row order. Start from a depth-first walk so families begin together.
+  const rows: number[][] = Array.from({ length: Math.max(...unitGen) - topGen + 1 }, () => []);
+  const visited = new Set<number>();
+  const visit = (u: number) => {
+    if (visited.has(u)) return;
+    visited.add(u);
+    rows[unitGen[u] - topGen].push(u);
+    units[u].flatMap(id => childrenOf.get(id)!).sort(byBirth).forEach(c => visit(unitOf.get(c)!));
+  };
+  units.forEach((_, u) => { if (upUnits[u].size === 0) visit(u); });
+  units.forEach((_, u) => visit(u));
+
+  const rank = new Map<string, number>();
+  const rankRow = (row: number[]) => row.flatMap(u => units[u]).forEach((id, i) => rank.set(id, i));
+  rows.forEach(rankRow);
+
+  // The person whose parents a unit hangs from, and their family.
+  const anchorOf = (u: number) => units[u].find(id => parentsOf.get(id)!.length > 0);
+  const familyOf = (u: number) => {
+    const anchor = anchorOf(u);
+    return anchor ? familyKey(parentsOf.get(anchor)!) : '';
+  };
+
+  const reorder = (row: number[], neighbours: (id: string) => string[]) => {
+    const barycenter = (ids: string[]) => mean(ids.flatMap(id => neighbours(id).map(n => rank.get(n)!)));
+    const keyed = row.map(u => ({
+      u,
+      position: barycenter(units[u]) ?? mean(units[u].map(id => rank.get(id)!))!,
+      family: familyOf(u),
+      anchor: anchorOf(u) || units[u][0]
+    }));
+    keyed.sort((a, b) => a.position - b.position || a.family.localeCompare(b.family) || byBirth(a.anchor, b.anchor));
+    // Turn couples so each partner is on the side of their own relatives.
+    keyed.forEach(({ u, position }) => {
+      const group = units[u];
+      const pull = (id: string) => (barycenter([id]) ?? position) - position;
+      if (group.length > 1 && pull(group[0]) > pull(group[group.length - 1])) group.reverse();
+    });
+    row.splice(0, row.length, ...keyed.map(k => k.u));
+    rankRow(row);
+  };
+
+  // Crossings between neighbouring rows, counted as inversions with a Fenwick tree.
+  const crossings = () => {
+    let total = 0;
+    for (let g = 0; g + 1 < rows.length; g++) {
+      const lower = rows[g + 1].flatMap(u => units[u]);
+      const edges: [number, number][] = [];
+      lower.forEach(child => parentsOf.get(child)!.forEach(p => { if (genOf(p) === g) edges.push([rank.get(p)!, rank.get(child)!]); }));
+      edges.sort((a, b) => a[0] - b[0] || a[1] - b[1]);
+      const tree = new Array(lower.length + 1).fill(0);
+      edges.forEach(([, child], i) => {
+        let atOrBelow = 0;
+        for (let j = child + 1; j > 0; j -= j & -j) atOrBelow += tree[j];
+        total += i - atOrBelow;
+        for (let j = child + 1; j <= lower.length; j += j & -j) tree[j]++;
+      });
+    }
+    return total;
+  };
+
+  let best = { crossings: crossings(), rows: rows.map(r => [...r]), units: units.map(g => [...g]) };
+  for (let sweep = 0; sweep < 8 && best.crossings > 0; sweep++) {
+    if (sweep % 2 === 0) for (let g = 1; g < rows.length; g++) reorder(rows[g], id => parentsOf.get(id)!);
+    else for (let g = rows.length - 2; g >= 0; g--) reorder(rows[g], id => childrenOf.get(id)!);
+    const count = crossings();
+    if (count < best.crossings) best = { crossings: count, rows: rows.map(r => [...r]), units: units.map(g => [...g]) };
+  }
+  best.rows.forEach((row, g) => { rows[g] = row; });
+  units = best.units;
+
+  // 3. Coordinates (left edge of each card).
+  const x = new Map<string, number>();
+  const families = units.map((_, u) => familyOf(u));
+  const unitWidth = (u: number) => units[u].length * CARD_WIDTH + (units[u].length - 1) * SIBLING_GAP;
+  const place = (u: number, left: number) => units[u].forEach((id, i) => x.set(id, left + i * (CARD_WIDTH + SIBLING_GAP)));
+  const center = (id: string) => x.get(id)! + CARD_WIDTH / 2;
+  const gapBefore = (row: number[], i: number) => i === 0 ? 0 : families[row[i]] && families[row[i]] === families[row[i - 1]] ? SIBLING_GAP : FAMILY_GAP;
+
+  rows.forEach(row => {
+    let cursor = 0;
+    row.forEach((u, i) => {
+      cursor += gapBefore(row, i);
+      place(u, cursor);
+      cursor += unitWidth(u);
+    });
+  });
+
+  // Sibling groups centered as a block under their parents.
+  const underParents = (row: number[]) => {
+    const desired: (number | undefined)[] = row.map(() => undefined);
+    for (let start = 0, end = 1; start < row.length; start = end, end = start + 1) {
+      const family = families[row[start]];
+      if (!family) continue;
+      while (end < row.length && families[row[end]] === family) end++;
+      const block = row.slice(start, end);
+      let cursor = mean(parentsOf.get(anchorOf(row[start])!)!.map(center))! - (block.reduce((w, u) => w + unitWidth(u), 0) + (block.length - 1) * SIBLING_GAP) / 2;
+      block.forEach((u, i) => {
+        desired[start + i] = cursor;
+        cursor += unitWidth(u) + SIBLING_GAP;
+      });
+    }
+    return desired;
+  };
+
+  const overChildren = (row: number[]) => row.map(u => {
+    const middle = mean(units[u].flatMap(id => childrenOf.get(id)!).map(center));
+    return middle === undefined ? undefined : middle - unitWidth(u) / 2;
+  });
+
+  // Least-squares fit to the desired positions that keeps the row's order
+  // and gaps (pool adjacent violators). Units with no wish barely resist.
+  const fit = (row: number[], desired: (number | undefined)[]) => {
+    const offsets: number[] = [];
+    row.reduce((offset, u, i) => {
+      offsets.push(offset + gapBefore(row, i));
+      return offsets[i] + unitWidth(u);
+    }, 0);
+    const pools: { weight: number, total: number, count: number }[] = [];
+    row.forEach((u, i) => {
+      const weight = desired[i] === undefined ? 0.01 : 1;
+      pools.push({ weight, total: weight * ((desired[i] ?? x.get(units[u][0])!) - offsets[i]), count: 1 });
+      while (pools.length > 1 && pools[pools.length - 2].total / pools[pools.length - 2].weight > pools[pools.length - 1].total / pools[pools.length - 1].weight) {
+        const last = pools.pop()!;
+        const previous = pools[pools.length - 1];
+        previous.weight += last.weight;
+        previous.total += last.total;
+        previous.count += last.count;
+      }
+    });
+    let i = 0;
+    pools.forEach(pool => {
+      for (let k = 0; k < pool.count; k++, i++) place(row[i], pool.total / pool.weight + offsets[i]);
+    });
+  };
+
+  for (let round = 0; round < 4; round++) {
+    for (let g = 1; g < rows.length; g++) fit(rows[g], underParents(rows[g]));
+    for (let g = rows.length - 2; g >= 0; g--) fit(rows[g], overChildren(rows[g]));
+  }
+  for (let g = 1; g < rows.length; g++) fit(rows[g], underParents(rows[g]));
+
+  const minX = Math.min(...members.map(m => x.get(m.id)!));
+  const positions = new Map(members.map(m => [m.id, { x: x.get(m.id)! - minX + PADDING, y: PADDING + genOf(m.id) * GENERATION_GAP }]));
+
+  // 4. Connectors
+  const edges: LayoutEdge[] = [];
+  const index = new Map(members.map((m, i) => [m.id, i]));
+  const adjacent = (a: string, b: string) => unitOf.get(a) === unitOf.get(b) && Math.abs(units[unitOf.get(a)!].indexOf(a) - units[unitOf.get(b)!].indexOf(b)) === 1;
+  partnersOf.forEach((partners, id) => partners.forEach(pId => {
+    if (index.get(id)! > index.get(pId)!) return;
+    const a = positions.get(id)!;
+    const b = positions.get(pId)!;
+    const [left, right] = a.x <= b.x ? [a, b] : [b, a];
+    // Partners kept apart by another spouse are joined over the top of the cards.
+    const path = left.y === right.y && unitOf.get(id) === unitOf.get(pId) && !adjacent(id, pId)
+      ? `M ${left.x + CARD_WIDTH / 2} ${left.y} C ${left.x + CARD_WIDTH / 2} ${left.y - 60} ${right.x + CARD_WIDTH / 2} ${right.y - 60} ${right.x + CARD_WIDTH / 2} ${right.y}`
+      : `M ${left.x + CARD_WIDTH} ${left.y + CARD_HEIGHT / 2} L ${right.x} ${right.y + CARD_HEIGHT / 2}`;
+    edges.push({ key: `partner:${id}:${pId}`, fromId: id, toId: pId, kind: 'partner', path });
+  }));
+
+  // Each family drops from its couple's connector (or a lone parent's card)
+  // to a bar in the gap below, on its own lane where bars would overlap.
+  const familyStarts = new Map<string, { parents: string[], children: string[], starts: { x: number, y: number }[] }>();
+  members.forEach(m => {
+    const parents = parentsOf.get(m.id)!;
+    if (parents.length === 0) return;
+    const key = familyKey(parents);
+    if (!familyStarts.has(key)) {
+      const couple = parents.length === 2 && adjacent(parents[0], parents[1]);
+      const starts = couple
+        ? [{ x: (center(parents[0]) + center(parents[1])) / 2 - minX + PADDING, y: positions.get(parents[0])!.y + CARD_HEIGHT / 2 }]
+        : parents.map(p => ({ x: positions.get(p)!.x + CARD_WIDTH / 2, y: positions.get(p)!.y + CARD_HEIGHT }));
+      familyStarts.set(key, { parents, children: [], starts });
+    }
+    familyStarts.get(key)!.children.push(m.id);
+  });
+
+  const lanes = new Map<string, number>();
+  const laneCounts: number[] = [];
+  const byGap = new Map<number, { key: string, from: number, to: number }[]>();
+  familyStarts.forEach(({ parents, children, starts }, key) => {
+    const xs = [...starts.map(s => s.x), ...children.map(c => positions.get(c)!.x + CARD_WIDTH / 2)];
+    const gap = Math.max(...parents.map(genOf));
+    byGap.set(gap, [...(byGap.get(gap) || []), { key, from: Math.min(...xs), to: Math.max(...xs) }]);
+  });
+  byGap.forEach((bars, gap) => {
+    const laneEnds: number[] = [];
+    bars.sort((a, b) => a.from - b.from).forEach(bar => {
+      let lane = laneEnds.findIndex(end => end + SIBLING_GAP / 2 < bar.from);
+      if (lane === -1) lane = laneEnds.length < MAX_LANES ? laneEnds.length : laneEnds.indexOf(Math.min(...laneEnds));
+      laneEnds[lane] = Math.max(laneEnds[lane] ?? -Infinity, bar.to);
+      lanes.set(bar.key, lane);
+    });
+    laneCounts[gap] = laneEnds.length;
+  });
+
+  familyStarts.forEach(({ parents, children, starts }, key) => {
+    const gap = Math.max(...parents.map(genOf));
+    const barY = PADDING + gap * GENERATION_GAP + CARD_HEIGHT + (GENERATION_GAP - CARD_HEIGHT) * (lanes.get(key)! + 1) / (laneCounts[gap] + 1);
+    children.forEach(childId => {
+      const child = positions.get(childId)!;
+      const endX = child.x + CARD_WIDTH / 2;
+      parents.forEach((parentId, i) => {
+        const start = starts[Math.min(i, starts.length - 1)];
+        edges.push({
+          key: `parent:${parentId}:${childId}`,
+          fromId: parentId,
+          toId: childId,
+          kind: 'parent-child',
+          path: `M ${start.x} ${start.y} L ${start.x} ${barY} L ${endX} ${barY} L ${endX} ${child.y}`
+        });
+      });
+    });
+  });
+
+  return {
+    nodes: members.map(m => ({ key: m.id, memberId: m.id, ...positions.get(m.id)! })),
+    edges,
+    width: Math.max(...[...positions.values()].map(p => p.x)) + CARD_WIDTH + PADDING,
+    height: Math.max(...[...positions.values()].map(p => p.y)) + CARD_HEIGHT + PADDING
+  };
+};
+
+interface Branch {
+  key: string;
+  memberId: string;
+  children?: Branch[];
+}
+
+/**
+ * Tree of a person's ancestors (`up`) or descendants, `depth` levels deep.
+ * A person reached twice along one line is not followed again.
+ */
+const buildBranch = (members: FamilyMember[], rootId: string, up: boolean, depth: number): Branch => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const childrenOf = new Map<string, FamilyMember[]>();
+  members.forEach(m => (m.parents || []).forEach(p => childrenOf.set(p, [...(childrenOf.get(p) || []), m])));
+
+  // Fathers before mothers; children in birth order.
+  const next = (id: string): string[] => up
+    ? [...(byId.get(id)?.parents || [])].filter(p => byId.has(p))
+      .sort((a, b) => Number(byId.get(a)?.gender === 'female') - Number(byId.get(b)?.gender === 'female'))
+    : [...(childrenOf.get(id) || [])]
+      .sort((a, b) => compareDates(memberDate(a, 'birth'), memberDate(b, 'birth')))
+      .map(c => c.id);
+
+  const grow = (id: string, key: string, level: number, line: Set<string>): Branch => ({
+    key,
+    memberId: id,
+    children: level + 1 >= depth ? undefined : next(id)
+      .filter(n => !line.has(n))
+      .map(n => grow(n, `${key}/${n}`, level + 1, new Set([...line, n])))
+  });
+
+  return grow(rootId, rootId, 0, new Set([rootId]));
+};
+
+// Tidy tree with the root at (0, 0); `breadth` runs across a generation.
+const tidy = (branch: Branch, breadth: number, depthGap: number) =>
+  d3.tree<Branch>().nodeSize([breadth, depthGap]).separation((a, b) => a.parent === b.parent ? 1 : 1.15)(d3.hierarchy(branch));
+
+/**
+ * Shift nodes so the chart starts at the padding and measure it.
+ */
+const normalize = (nodes: LayoutNode[], edgesFor: (position: (key: string) => { x: number, y: number }) => LayoutEdge[]): TreeLayout => {
+  const minX = Math.min(...nodes.map(n => n.x));
+  const minY = Math.min(...nodes.map(n => n.y));
+  const shifted = nodes.map(n => ({ ...n, x: n.x - minX + PADDING, y: n.y - minY + PADDING }));
+  const byKey = new Map(shifted.map(n => [n.key, n]));
+  return {
+    nodes: shifted,
+    edges: edgesFor(key => byKey.get(key)!),
+    width: Math.max(...shifted.map(n => n.x)) + CARD_WIDTH + PADDING,
+    height: Math.max(...shifted.map(n => n.y)) + CARD_HEIGHT + PADDING
+  };
+};
+
+/**
+ * Ancestors of the focus person, generations running left to right.
+ */
+const pedigreeLayout = (members: FamilyMember[], focusId: string, generations: number): TreeLayout => {
+  const root = tidy(buildBranch(members, focusId, true, generations), CARD_HEIGHT + 40, CARD_WIDTH + PEDIGREE_GAP);
+  const nodes = root.descendants().map(n => ({ key: n.data.key, memberId: n.data.memberId, x: n.y, y: n.x }));
+  return normalize(nodes, position => root.links().map(l => ({
+    key: `parent:${l.target.data.key}`,
+    fromId: l.target.data.memberId,
+    toId: l.source.data.memberId,
+    kind: 'parent-child' as const,
+    path: horizontalElbow(position(l.source.data.key), position(l.target.data.key))
+  })));
+};
+
+/**
+ * Descendants of the focus person, top down.
+ */
+const descendantLayout = (members: FamilyMember[], focusId: string, generations: number): TreeLayout => {
+  const root = tidy(buildBranch(members, focusId, false, generations), CARD_WIDTH + SIBLING_GAP, GENERATION_GAP);
+  const nodes = root.descendants().map(n => ({ key: n.data.key, memberId: n.data.memberId, x: n.x, y: n.y }));
+  return normalize(nodes, position => root.links().map(l => ({
+    key: `parent:${l.target.data.key}`,
+    fromId: l.source.data.memberId,
+    toId: l.target.data.memberId,
+    kind: 'parent-child' as const,
+    path: verticalElbow(position(l.source.data.key), position(l.target.data.key))
+  })));
+};
+
+/**
+ * Ancestors above and descendants below the focus person.
+ */
+const hourglassLayout = (members: FamilyMember[], focusId: string, generations: number): TreeLayout => {
+  const ancestors = tidy(buildBranch(members, focusId, true, generations), CARD_WIDTH + SIBLING_GAP, GENERATION_GAP);
+  const descendants = tidy(buildBranch(members, focusId, false, generations), CARD_WIDTH + SIBLING_GAP, GENERATION_GAP);
+  // Both trees share the root; ancestor keys are marked so they cannot clash with descendant keys.
+  const ancestorKey = (n: d3.HierarchyPointNode<Branch>) => n.depth === 0 ? n.data.key : `^${n.data.key}`;
+  const nodes: LayoutNode[] = [
+    ...ancestors.descendants().map(n => ({ key: ancestorKey(n), memberId: n.data.memberId, x: n.x, y: -n.y })),
+    ...descendants.descendants().slice(1).map(n => ({ key: n.data.key, memberId: n.data.memberId, x: n.x, y: n.y }))
+  ];
+  return normalize(nodes, position => [
+    ...ancestors.links().map(l => ({
+      key: `parent:${ancestorKey(l.target)}`,
+      fromId: l.target.data.memberId,
+      toId: l.source.data.memberId,
+      kind: 'parent-child' as const,
+      path: verticalElbow(position(ancestorKey(l.target)), position(ancestorKey(l.source)))
+    })),
+    ...descendants.links().map(l => ({
+      key: `parent:${l.target.data.key}`,
+      fromId: l.source.data.memberId,
+      toId: l.target.data.memberId,
+      kind: 'parent-child' as const,
+      path: verticalElbow(position(l.source.data.key), position(l.target.data.key))
+    }))
+  ]);
+};
+
+/**
+ * Ancestors in rings around the focus person. Each generation splits its
+ * child's slot in two, father first, so empty slots mark unknown ancestors.
+ */
+const fanLayout = (members: FamilyMember[], focusId: string, generations: number): TreeLayout => {
+  const root = d3.hierarchy(buildBranch(members, focusId, true, generations));
+  const byId = new Map(members.map(m => [m.id, m]));
+  const outer = FAN_CENTER_RADIUS + (generations - 1) * FAN_RING_WIDTH;
+  const center = outer + PADDING;
+  const arc = d3.arc();
+  const nodes: LayoutNode[] = [];
+
+  const place = (node: d3.HierarchyNode<Branch>, slot: number) => {
+    const generation = node.depth;
+    if (generation === 0) {
+      nodes.push({
+        key: node.data.key,
+        memberId: node.data.memberId,
+        x: center,
+        y: center,
+        arc: { path: arc({ innerRadius: 0, outerRadius: FAN_CENTER_RADIUS, startAngle: 0, endAngle: 2 * Math.PI })!, labelX: 0, labelY: 0, labelAngle: 0, generation }
+      });
+    } else {
+      const size = FAN_SPAN / 2 ** generation;
+      const startAngle = -FAN_SPAN / 2 + slot * size;
+      const innerRadius = FAN_CENTER_RADIUS + (generation - 1) * FAN_RING_WIDTH;
+      const shape = { innerRadius, outerRadius: innerRadius + FAN_RING_WIDTH, startAngle, endAngle: startAngle + size };
+      const [labelX, labelY] = arc.centroid(shape);
+      const mid = (startAngle + size / 2) * 180 / Math.PI;
+      // Inner rings read along the arc, outer (narrow) ones along the radius; nothing upside down.
+      const labelAngle = generation <= 2
+        ? (Math.abs(mid) > 90 ? mid + 180 : mid)
+        : (mid < 0 ? mid + 90 : mid - 90);
+      nodes.push({ key: node.data.key, memberId: node.data.memberId, x: center, y: center, arc: { path: arc(shape)!, labelX, labelY, labelAngle, generation } });
+    }
+    (node.children || []).forEach(parent => {
+      // Mothers take the second half even when the father is unknown.
+      const isMother = byId.get(parent.data.memberId)?.gender === 'female' || (node.children!.length > 1 && parent !== node.children![0]);
+      place(parent, slot * 2 + (isMother ? 1 : 0));
+    });
+  };
+  place(root, 0);
+
+  return { nodes, edges: [], width: center * 2, height: center * 2 };
+};
+
+/**
+ * Position people for a chart type. Charts other than the family tree are
+ * drawn around a focus person (the first member when none is given).
+ */
+export const layoutTree = (members: FamilyMember[], type: ChartType, options: LayoutOptions = {}): TreeLayout => {
+  if (members.length === 0) return { nodes: [], edges: [], width: 0, height: 0 };
+  const focusId = members.some(m => m.id === options.focusId) ? options.focusId! : members[0].id;
+  const generations = Math.max(2, options.generations || 5);
+  switch (type) {
+    case 'pedigree': return pedigreeLayout(members, focusId, generations);
+    case 'descendants': return descendantLayout(members, focusId, generations);
+    case 'hourglass': return hourglassLayout(members, focusId, generations);
+    case 'fan': return fanLayout(members, focusId, generations);
+    default: return familyLayout(members);
+  }
+};
+
+/**
+ * Everything about the members that positions depend on. Edits that leave
+ * this unchanged, such as a new citation or a corrected name, keep the layout.
+ */
+export const layoutSignature = (members: FamilyMember[]) => members
+  .map(m => [m.id, m.gender, (m.parents || []).join(','), (m.partners || []).join(','), m.birthYear, JSON.stringify(m.birthDate)].join(';'))
+  .join('\n');
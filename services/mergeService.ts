@@ -0,0 +1,249 @@
+import { ExtractionResult, FamilyMember } from "../types";
+import { LifeEvent, memberYear } from "./dateService";
+import { mergeEvents } from "./eventService";
+import { mergePlaces, prunePlaces } from "./placeService";
+import { mergeCitations, mergeSourceLibraries } from "./citationService";
+
+export interface MergeOptions {
+  // Drop current members that the incoming result no longer contains.
+  removeMissing?: boolean;
+  // Drop these current member IDs regardless of the incoming result.
+  removeIds?: string[];
+  // Let incoming field values overwrite existing ones, for user-requested corrections.
+  preferIncoming?: boolean;
+}
+
+export interface MergeOutcome {
+  result: ExtractionResult;
+  added: string[];
+  updated: string[];
+  removed: string[];
+}
+
+const STATUS_RANK: Record<NonNullable<FamilyMember['status']>, number> = {
+  possible: 1,
+  probable: 2,
+  definitive: 3
+};
+
+const NAME_NOISE = /\b(mr|mrs|ms|miss|dr|rev|sir|jr|sr|ii|iii|iv)\b\.?/g;
+
+export const normalizeName = (name: string) => name
+  .toLowerCase()
+  .normalize('NFD').replace(/[\u0300-\u036f]/g, '')
+  .replace(NAME_NOISE, ' ')
+  .replace(/[^a-z\s]/g, ' ')
+  .split(/\s+/)
+  .filter(Boolean)
+  .join(' ');
+
+const bigrams = (value: string) => {
+  const grams: string[] = [];
+  for (let i = 0; i < value.length - 1; i++) grams.push(value.slice(i, i + 2));
+  return grams;
+};
+
+/**
+ * Dice coefficient over character bigrams, 0..1.
+ */
+export const nameSimilarity = (a: string, b: string): number => {
+  const na = normalizeName(a);
+  const nb = normalizeName(b);
+  if (!na || !nb) return 0;
+  if (na === nb) return 1;
+  const ga = bigrams(na.replace(/ /g, ''));
+  const gb = bigrams(nb.replace(/ /g, ''));
+  const pool = [...gb];
+  let overlap = 0;
+  ga.forEach(g => {
+    const index = pool.indexOf(g);
+    if (index >= 0) {
+      overlap++;
+      pool.splice(index, 1);
+    }
+  });
+  return (2 * overlap) / (ga.length + gb.length || 1);
+};
+
+const yearsCompatible = (a: FamilyMember, b: FamilyMember, event: LifeEvent, tolerance = 2) => {
+  const ya = memberYear(a, event);
+  const yb = memberYear(b, event);
+  return ya === undefined || yb === undefined || Math.abs(ya - yb) <= tolerance;
+};
+
+/**
+ * Same surname and compatible given names, plus no conflicting birth/death years.
+ */
+export const isLikelySamePerson = (a: FamilyMember, b: FamilyMember): boolean => {
+  if (!yearsCompatible(a, b, 'birth') || !yearsCompatible(a, b, 'death')) return false;
+  if (a.gender && b.gender && a.gender !== 'other' && b.gender !== 'other' && a.gender !== b.gender) return false;
+  const ta = normalizeName(a.name).split(' ');
+  const tb = normalizeName(b.name).split(' ');
+  if (!ta[0] || !tb[0]) return false;
+  const sameSurname = ta[ta.length - 1] === tb[tb.length - 1];
+  const givenMatch = ta[0] === tb[0] || (ta[0][0] === tb[0][0] && (ta[0].length === 1 || tb[0].length === 1));
+  if (sameSurname && givenMatch) return true;
+  return nameSimilarity(a.name, b.name) >= 0.85;
+};
+
+const union = (a: string[] = [], b: string[] = []) => Array.from(new Set([...a, ...b]));
+
+const strongerStatus = (a?: FamilyMember['status'], b?: FamilyMember['status']) => {
+  if (!a) return b;
+  if (!b) return a;
+  return STATUS_RANK[b] > STATUS_RANK[a] ? b : a;
+};
+
+const mergeNotes = (a?: string, b?: string) => {
+  if (!a) return b;
+  if (!b || a.includes(b)) return a;
+  if (b.includes(a)) return b;
+  return `${a}\n\n${b}`;
+};
+
+/**
+ * Fold one record into another. Existing values win unless the incoming
+ * record is more confident (or preferred); empty fields are always filled.
+ */
+const mergeMember = (current: FamilyMember, incoming: FamilyMember, preferIncoming = false): FamilyMember => {
+  const incomingWins = preferIncoming || (!!incoming.status && (!current.status || STATUS_RANK[incoming.status] > STATUS_RANK[current.status]));
+  const pick = <K extends keyof FamilyMember>(key: K): FamilyMember[K] => {
+    if (incomingWins) return incoming[key] || current[key];
+    return current[key] || incoming[key];
+  };
+  // A date's text and structure must come from the same record.
+  const pickDate = (text: 'birthYear' | 'deathYear', date: 'birthDate' | 'deathDate') => {
+    const source = incomingWins ? (incoming[text] ? incoming : current) : (current[text] ? current : incoming);
+    return { [text]: source[text], [date]: source[date] };
+  };
+  // Citations of an incoming event that folded into an existing one follow it.
+  const eventRemap = new Map<string, string>();
+  const events = current.events || incoming.events ? mergeEvents(current.events, incoming.events, eventRemap) : undefined;
+  const incomingCitations = incoming.citations?.map(c => c.eventId && eventRemap.has(c.eventId) ? { ...c, eventId: eventRemap.get(c.eventId) } : c);
+  const vitalStatus = current.vitalStatus && current.vitalStatus !== 'unknown' && !preferIncoming
+    ? (incoming.vitalStatus === 'deceased' && incoming.deathYear ? 'deceased' : current.vitalStatus)
+    : (incoming.vitalStatus && incoming.vitalStatus !== 'unknown' ? incoming.vitalStatus : current.vitalStatus || incoming.vitalStatus);
+
+  return {
+    ...current,
+    name: pick('name'),
+    ...pickDate('birthYear', 'birthDate'),
+    ...pickDate('deathYear', 'deathDate'),
+    gender: pick('gender'),
+    relationship: pick('relationship'),
+    vitalStatus,
+    notes: mergeNotes(current.notes, incoming.notes),
+    parents: union(current.parents, incoming.parents),
+    partners: union(current.partners, incoming.partners),
+    events,
+    citations: current.citations || incomingCitations ? mergeCitations(current.citations, incomingCitations) : undefined,
+    status: preferIncoming ? incoming.status || current.status : strongerStatus(current.status, incoming.status)
+  };
+};
+
+const sameMember = (a: FamilyMember, b: FamilyMember) => JSON.stringify(a) === JSON.stringify(b);
+
+/**
+ * Reconcile an AI result with the current tree instead of replacing it.
+ * Incoming people are matched by ID (when the names agree) and otherwise by
+ * fuzzy name plus birth/death years; unmatched people are added with a
+ * non-colliding ID. Nobody is removed unless the options ask for it.
+ */
+export const mergeExtractionResults = (current: ExtractionResult | null, incoming: ExtractionResult, options: MergeOptions = {}): MergeOutcome => {
+  const existing = current?.members || [];
+  const merged = new Map(existing.map(m => [m.id, { ...m }]));
+  const claimed = new Set<string>();
+  const idMap = new Map<string, string>();
+  const added: string[] = [];
+
+  const uniqueId = (preferred: string) => {
+    let id = preferred;
+    for (let n = 2; merged.has(id); n++) id = `${preferred}-${n}`;
+    return id;
+  };
+
+  const incomingMembers = (incoming.members || []).filter(m => m && m.id && m.name);
+
+  // First pass: decide which current member (if any) each incoming record is.
+  incomingMembers.forEach(m => {
+    const byId = merged.get(m.id);
+    if (byId && !claimed.has(byId.id) && (nameSimilarity(byId.name, m.name) >= 0.5 || isLikelySamePerson(byId, m))) {
+      idMap.set(m.id, byId.id);
+      claimed.add(byId.id);
+      return;
+    }
+    const candidate = existing.find(e => !claimed.has(e.id) && isLikelySamePerson(e, m));
+    if (candidate) {
+      idMap.set(m.id, candidate.id);
+      claimed.add(candidate.id);
+      return;
+    }
+    const id = uniqueId(m.id);
+    idMap.set(m.id, id);
+    merged.set(id, { id, name: m.name });
+    added.push(id);
+  });
+
+  const remap = (ids?: string[]) => (ids || []).map(id => idMap.get(id) || (merged.has(id) ? id : undefined)).filter((id): id is string => !!id);
+  const { places, remap: placeMap } = mergePlaces(current?.places, incoming.places);
+  const { sources, remap: sourceMap } = mergeSourceLibraries(current?.sources, incoming.sources);
+  const remapEvents = (events?: FamilyMember['events']) => events?.map(e => ({
+    ...e,
+    placeId: e.placeId && placeMap.get(e.placeId),
+    partnerId: e.partnerId && remap([e.partnerId])[0]
+  }));
+  const remapCitations = (citations?: FamilyMember['citations']) => citations
+    ?.map(c => ({ ...c, sourceId: sourceMap.get(c.sourceId) || '' }))
+    .filter(c => c.sourceId);
+
+  // Second pass: merge fields with references translated to current IDs.
+  const updated: string[] = [];
+  incomingMembers.forEach(m => {
+    const id = idMap.get(m.id)!;
+    const target = merged.get(id)!;
+    const translated: FamilyMember = { ...m, id, parents: remap(m.parents).filter(p => p !== id), partners: remap(m.partners).filter(p => p !== id), events: remapEvents(m.events), citations: remapCitations(m.citations) };
+    const next = added.includes(id) ? { ...translated } : mergeMember(target, translated, options.preferIncoming);
+    if (!added.includes(id) && !sameMember(target, next) && !updated.includes(id)) updated.push(id);
+    merged.set(id, next);
+  });
+
+  const removed = new Set(options.removeIds || []);
+  if (options.removeMissing) {
+    existing.filter(e => !claimed.has(e.id)).forEach(e => removed.add(e.id));
+  }
+
+  const members = Array.from(merged.values())
+    .filter(m => !removed.has(m.id))
+    .map(m => removed.size === 0 ? m : {
+      ...m,
+      parents: m.parents?.filter(id => !removed.has(id)),
+      partners: m.partners?.filter(id => !removed.has(id))
+    });
+
+  return {
+    result: {
+      ...current,
+      members,
+      title: current?.title || incoming.title,
+      description: current?.description || incoming.description,
+      estateInfo: mergeNotes(current?.estateInfo, incoming.estateInfo),
+      sources,
+      places: prunePlaces(places, members)
+    },
+    added,
+    updated,
+    removed: existing.filter(e => removed.has(e.id)).map(e => e.id)
+  };
+};
+
+/**
+ * Short human summary of a merge, e.g. for history labels.
+ */
+export const describeMerge = (outcome: MergeOutcome) => {
+  const parts = [
+    outcome.added.length && `${outcome.added.length} added`,
+    outcome.updated.length && `${outcome.updated.length} updated`,
+    outcome.removed.length && `${outcome.removed.length} removed`
+  ].filter(Boolean);
+  return parts.length ? parts.join(', ') : 'no changes';
+};
@@ -0,0 +1,72 @@
+import { GroundingSource } from "../types";
+
+/**
+ * A canned research answer for the offline mock provider. `extraction` is
+ * written the way a model answers the extraction schema (numbered source
+ * citations, place names), so it runs through the same pipeline as live
+ * responses.
+ */
+export interface MockFixture {
+  keywords: string[]; // Any of these in a prompt selects the fixture, ignoring case
+  research: string; // Search answer with [n] markers for sources[n - 1]
+  sources: GroundingSource[];
+  extraction: Record<string, unknown>;
+}
+
+export interface MockFixtureSet {
+  fixtures: MockFixture[];
+  document: Record<string, unknown>; // Returned for any uploaded image or PDF
+  latency: number; // Milliseconds per call, so loading states show
+}
+
+const exact = (year: number, month?: number, day?: number) => ({ qualifier: "exact", start: { year, month, day } });
+
+const LINCOLN: MockFixture = {
+  keywords: ["lincoln"],
+  research: `Abraham Lincoln was born on February 12, 1809, near Hodgenville, Kentucky, to Thomas Lincoln and Nancy Hanks.[1] His older sister Sarah was born in 1807.[1] He married Mary Todd in Springfield, Illinois, on November 4, 1842.[2] They had four sons: Robert Todd (1843-1926), Edward Baker (1846-1850), William Wallace (1850-1862) and Thomas "Tad" (1853-1871).[2] Lincoln died in Washington, D.C., on April 15, 1865.[1]`,
+  sources: [
+    { title: "Abraham Lincoln Birthplace - National Park Service", uri: "https://www.nps.gov/abli/" },
+    { title: "Lincoln Home - Family", uri: "https://www.nps.gov/liho/" }
+  ],
+  extraction: {
+    title: "The Lincoln Family",
+    description: "Abraham Lincoln with his parents, sister, wife and sons.",
+    members: [
+      { id: "thomas-sr", name: "Thomas Lincoln", birthDate: exact(1778, 1, 6), deathDate: exact(1851, 1, 17), gender: "male", relationship: "Father", vitalStatus: "deceased", status: "definitive", partners: ["nancy"], citations: [{ source: 1, field: "name", quality: "secondary" }] },
+      { id: "nancy", name: "Nancy Hanks Lincoln", birthDate: exact(1784, 2, 5), deathDate: exact(1818, 10, 5), gender: "female", relationship: "Mother", vitalStatus: "deceased", status: "definitive", partners: ["thomas-sr"] },
+      { id: "sarah", name: "Sarah Lincoln Grigsby", birthDate: exact(1807, 2, 10), deathDate: exact(1828, 1, 20), gender: "female", relationship: "Sister", vitalStatus: "deceased", status: "probable", parents: ["thomas-sr", "nancy"], citations: [{ source: 1, field: "birth", quality: "secondary" }] },
+      {
+        id: "abraham", name: "Abraham Lincoln", birthDate: exact(1809, 2, 12), deathDate: exact(1865, 4, 15), gender: "male", relationship: "Self", vitalStatus: "deceased", status: "definitive",
+        parents: ["thomas-sr", "nancy"], partners: ["mary"], notes: "16th President of the United States.",
+        events: [
+          { type: "birth", date: exact(1809, 2, 12), place: "Hodgenville, LaRue County, Kentucky, USA", sourceNumber: 1 },
+          { type: "marriage", date: exact(1842, 11, 4), place: "Springfield, Sangamon County, Illinois, USA", partnerId: "mary", sourceNumber: 2 },
+          { type: "death", date: exact(1865, 4, 15), place: "Washington, District of Columbia, USA", sourceNumber: 1 }
+        ],
+        citations: [{ source: 1, field: "birth", quality: "secondary", excerpt: "born on February 12, 1809, near Hodgenville, Kentucky" }, { source: 1, field: "death", quality: "secondary" }]
+      },
+      { id: "mary", name: "Mary Todd Lincoln", birthDate: exact(1818, 12, 13), deathDate: exact(1882, 7, 16), gender: "female", relationship: "Wife", vitalStatus: "deceased", status: "definitive", partners: ["abraham"], citations: [{ source: 2, field: "partners", quality: "secondary" }] },
+      { id: "robert", name: "Robert Todd Lincoln", birthDate: exact(1843, 8, 1), deathDate: exact(1926, 7, 26), gender: "male", relationship: "Son", vitalStatus: "deceased", status: "definitive", parents: ["abraham", "mary"], citations: [{ source: 2, field: "parents", quality: "secondary" }] },
+      { id: "edward", name: "Edward Baker Lincoln", birthDate: exact(1846, 3, 10), deathDate: exact(1850, 2, 1), gender: "male", relationship: "Son", vitalStatus: "deceased", status: "definitive", parents: ["abraham", "mary"] },
+      { id: "william", name: "William Wallace Lincoln", birthDate: exact(1850, 12, 21), deathDate: exact(1862, 2, 20), gender: "male", relationship: "Son", vitalStatus: "deceased", status: "definitive", parents: ["abraham", "mary"] },
+      { id: "tad", name: "Thomas \"Tad\" Lincoln", birthDate: exact(1853, 4, 4), deathDate: exact(1871, 7, 15), gender: "male", relationship: "Son", vitalStatus: "deceased", status: "definitive", parents: ["abraham", "mary"] }
+    ]
+  }
+};
+
+// A fictional baptism entry, so document uploads have something to show.
+const PARISH_REGISTER = {
+  title: "St. Mary's Baptism Register",
+  description: "Baptism entry transcribed from an uploaded register page.",
+  members: [
+    { id: "friedrich", name: "Friedrich Weber", birthYear: "abt. 1820", birthDate: { qualifier: "about", start: { year: 1820 } }, gender: "male", relationship: "Father", status: "probable", partners: ["anna"], notes: "Occupation given as weaver." },
+    { id: "anna", name: "Anna Müller Weber", birthYear: "abt. 1824", birthDate: { qualifier: "about", start: { year: 1824 } }, gender: "female", relationship: "Mother", status: "probable", partners: ["friedrich"] },
+    { id: "johann", name: "Johann Weber", birthDate: exact(1852, 3, 2), gender: "male", relationship: "Child", status: "definitive", parents: ["friedrich", "anna"], events: [{ type: "baptism", date: exact(1852, 3, 7), place: "St. Mary's, Bremen, Germany" }] }
+  ]
+};
+
+export const MOCK_FIXTURES: MockFixtureSet = {
+  fixtures: [LINCOLN],
+  document: PARISH_REGISTER,
+  latency: 400
+};
@@ -0,0 +1,68 @@
+import { AiProvider } from "./aiProvider";
+import { MOCK_FIXTURES, MockFixture, MockFixtureSet } from "./mockFixtures";
+
+// Update and merge prompts carry the current tree as a JSON member array.
+const TREE_JSON = /\[\{[\s\S]*\}\]/;
+
+const cancelledError = () => Object.assign(new Error("Mock request cancelled."), { name: 'AbortError' });
+
+const findFixture = (fixtures: MockFixture[], text: string) => {
+  const lower = text.toLowerCase();
+  return fixtures.find(f => f.keywords.some(k => lower.includes(k.toLowerCase())));
+};
+
+/**
+ * Deterministic offline provider answering from fixtures, so every research
+ * flow can run without a network or key. Prompts that match no fixture find
+ * nothing; prompts carrying a tree get it back, plus any matching fixture
+ * members it lacks.
+ */
+export const createMockProvider = (set: MockFixtureSet = MOCK_FIXTURES): AiProvider => {
+  const wait = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const done = () => {
+      signal?.removeEventListener('abort', cancel);
+      resolve();
+    };
+    const timer = setTimeout(done, set.latency);
+    const cancel = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    signal?.addEventListener('abort', cancel, { once: true });
+  });
+
+  return {
+    id: 'mock',
+    search: async (prompt, _model, signal) => {
+      await wait(signal);
+      const fixture = findFixture(set.fixtures, prompt);
+      if (!fixture) throw new Error("No mock fixture matches this search.");
+      return { text: fixture.research.replace(/\[\d+\]/g, ''), citedText: fixture.research, sources: fixture.sources };
+    },
+    extract: async (prompt, _schema, _model, signal) => {
+      await wait(signal);
+      const treeJson = prompt.match(TREE_JSON)?.[0];
+      let tree: { id: string }[] = [];
+      try {
+        tree = treeJson ? JSON.parse(treeJson) : [];
+      } catch {
+        // Not a member array after all; treat the prompt as plain text.
+      }
+      const fixture = findFixture(set.fixtures, treeJson ? prompt.replace(treeJson, '') : prompt);
+      const found = (fixture?.extraction.members || []) as { id: string }[];
+      if (tree.length === 0) return JSON.stringify(fixture?.extraction || { members: [] });
+      const ids = new Set(tree.map(m => m.id));
+      return JSON.stringify({ members: [...tree, ...found.filter(m => !ids.has(m.id))] });
+    },
+    extractImage: async (_prompt, _image, _schema, _model, signal) => {
+      await wait(signal);
+      return JSON.stringify(set.document);
+    },
+    chat: async (prompt, _model, signal) => {
+      await wait(signal);
+      const fixture = findFixture(set.fixtures, prompt);
+      return fixture ? fixture.research.replace(/\[\d+\]/g, '') : "The offline mock archive has no records for this query.";
+    }
+  };
+};
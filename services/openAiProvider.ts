@@ -0,0 +1,54 @@
+import { AiProvider, ResponseSchema } from "./aiProvider";
+
+/**
+ * Gemini schema type names ("OBJECT", "STRING", ...) as JSON Schema.
+ */
+const toJsonSchema = (schema: ResponseSchema): ResponseSchema => {
+  const converted: ResponseSchema = { ...schema };
+  if (typeof schema.type === 'string') converted.type = schema.type.toLowerCase();
+  if (schema.items) converted.items = toJsonSchema(schema.items as ResponseSchema);
+  if (schema.properties) {
+    converted.properties = Object.fromEntries(Object.entries(schema.properties as Record<string, ResponseSchema>).map(([key, value]) => [key, toJsonSchema(value)]));
+  }
+  return converted;
+};
+
+/**
+ * Any server speaking the OpenAI chat completions API: OpenAI itself, or a
+ * local one such as Ollama, llama.cpp or LM Studio. These have no web search,
+ * so research falls back to the model's own knowledge.
+ */
+export const createOpenAiProvider = (baseUrl: string, apiKey?: string): AiProvider => {
+  const complete = async (model: string, content: unknown, schema?: ResponseSchema, signal?: AbortSignal): Promise<string> => {
+    const response = await fetch(`${baseUrl.replace(/\/+$/, '')}/chat/completions`, {
+      method: 'POST',
+      signal,
+      headers: {
+        'Content-Type': 'application/json',
+        ...(apiKey ? { Authorization: `Bearer ${apiKey}` } : {})
+      },
+      body: JSON.stringify({
+        model,
+        messages: [{ role: 'user', content }],
+        ...(schema ? { response_format: { type: 'json_schema', json_schema: { name: 'family_tree', schema: toJsonSchema(schema) } } } : {})
+      })
+    });
+    // `status` lets the request layer retry rate limits and server errors.
+    if (!response.ok) throw Object.assign(new Error(`${model} at ${baseUrl} failed with ${response.status}: ${await response.text()}`), { status: response.status });
+    const data = await response.json();
+    return data?.choices?.[0]?.message?.content || '';
+  };
+
+  return {
+    id: 'openai',
+    search: async () => {
+      throw new Error("OpenAI-compatible servers have no grounded search.");
+    },
+    extract: async (prompt, schema, model, signal) => (await complete(model, prompt, schema, signal)) || "{}",
+    extractImage: async (prompt, image, schema, model, signal) => (await complete(model, [
+      { type: 'text', text: prompt },
+      { type: 'image_url', image_url: { url: `data:${image.mimeType};base64,${image.data}` } }
+    ], schema, signal)) || "{}",
+    chat: (prompt, model, signal) => complete(model, prompt, undefined, signal)
+  };
+};
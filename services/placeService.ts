@@ -0,0 +1,82 @@
+import { FamilyMember, Place } from "../types";
+
+const normalizePart = (name: string) => name.trim().replace(/\s+/g, ' ').toLowerCase();
+
+const nextPlaceId = (places: Place[]) => {
+  const ids = new Set(places.map(p => p.id));
+  let n = places.length + 1;
+  while (ids.has(`p${n}`)) n++;
+  return `p${n}`;
+};
+
+/**
+ * The chain from a place up to its country, most specific first.
+ */
+export const placeChain = (places: Place[] = [], id?: string): Place[] => {
+  const byId = new Map(places.map(p => [p.id, p]));
+  const chain: Place[] = [];
+  const seen = new Set<string>();
+  let current = id ? byId.get(id) : undefined;
+  while (current && !seen.has(current.id)) {
+    seen.add(current.id);
+    chain.push(current);
+    current = current.parentId ? byId.get(current.parentId) : undefined;
+  }
+  return chain;
+};
+
+/**
+ * Full place name in GEDCOM order, e.g. "Springfield, Sangamon County, Illinois, USA".
+ */
+export const formatPlace = (places: Place[] = [], id?: string) => placeChain(places, id).map(p => p.name).join(', ');
+
+/**
+ * Resolve comma-separated place text to a place, reusing existing levels of
+ * the hierarchy (matched case-insensitively) and adding the missing ones.
+ */
+export const ensurePlace = (places: Place[] = [], text?: string): { places: Place[], placeId?: string } => {
+  const parts = (text || '').split(',').map(p => p.trim().replace(/\s+/g, ' ')).filter(Boolean);
+  if (parts.length === 0) return { places };
+
+  const next = [...places];
+  let parentId: string | undefined;
+  // Walk from the broadest level (country) down to the most specific.
+  [...parts].reverse().forEach(name => {
+    const found = next.find(p => p.parentId === parentId && normalizePart(p.name) === normalizePart(name));
+    if (found) {
+      parentId = found.id;
+      return;
+    }
+    const place: Place = { id: nextPlaceId(next), name, ...(parentId ? { parentId } : {}) };
+    next.push(place);
+    parentId = place.id;
+  });
+
+  return { places: next, placeId: parentId };
+};
+
+/**
+ * Fold another result's places into ours. The remap translates the other
+ * result's place IDs to IDs in the returned list.
+ */
+export const mergePlaces = (current: Place[] = [], incoming: Place[] = []): { places: Place[], remap: Map<string, string> } => {
+  let places = current;
+  const remap = new Map<string, string>();
+  incoming.forEach(place => {
+    const resolved = ensurePlace(places, formatPlace(incoming, place.id));
+    places = resolved.places;
+    if (resolved.placeId) remap.set(place.id, resolved.placeId);
+  });
+  return { places, remap };
+};
+
+/**
+ * Drop places no event refers to, keeping the ancestors of those still used.
+ */
+export const prunePlaces = (places: Place[] = [], members: FamilyMember[]): Place[] => {
+  const used = new Set<string>();
+  members.forEach(m => (m.events || []).forEach(e => {
+    placeChain(places, e.placeId).forEach(p => used.add(p.id));
+  }));
+  return places.filter(p => used.has(p.id));
+};
@@ -0,0 +1,102 @@
+import { FamilyMember } from "../types";
+import { displayDate, memberYear } from "./dateService";
+
+export type PlausibilityRule =
+  | 'death-before-birth'
+  | 'born-before-parent'
+  | 'born-after-parent-death'
+  | 'young-mother'
+  | 'old-mother'
+  | 'long-lifespan'
+  | 'living-with-death'
+  | 'partner-age-gap';
+
+export interface PlausibilityWarning {
+  memberId: string;
+  rule: PlausibilityRule;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export const PLAUSIBILITY_LIMITS = {
+  minMotherAge: 12,
+  maxMotherAge: 55,
+  maxLifespan: 110,
+  maxPartnerGap: 30,
+  // A father can die up to ~9 months before the birth; with year precision that is one year.
+  paternalGraceYears: 1
+};
+
+/**
+ * Flag impossible or suspicious dates: children born before a parent or
+ * after their death, implausible maternal ages, very long lifespans, living
+ * people with a death year, and large age gaps between partners.
+ */
+export const checkPlausibility = (members: FamilyMember[]): PlausibilityWarning[] => {
+  const warnings: PlausibilityWarning[] = [];
+  const byId = new Map(members.map(m => [m.id, m]));
+  const seenCouples = new Set<string>();
+  const warn = (memberId: string, rule: PlausibilityRule, severity: PlausibilityWarning['severity'], message: string) => {
+    warnings.push({ memberId, rule, severity, message });
+  };
+
+  members.forEach(m => {
+    const born = memberYear(m, 'birth');
+    const died = memberYear(m, 'death');
+
+    if (born !== undefined && died !== undefined) {
+      if (died < born) warn(m.id, 'death-before-birth', 'error', `Died (${died}) before being born (${born}).`);
+      else if (died - born > PLAUSIBILITY_LIMITS.maxLifespan) warn(m.id, 'long-lifespan', 'warning', `Lifespan of ${died - born} years exceeds ${PLAUSIBILITY_LIMITS.maxLifespan}.`);
+    }
+    if (m.vitalStatus === 'living' && displayDate(m, 'death')) {
+      warn(m.id, 'living-with-death', 'error', `Marked living but has a death date (${displayDate(m, 'death')}).`);
+    }
+    if (born === undefined) return;
+
+    (m.parents || []).forEach(parentId => {
+      const parent = byId.get(parentId);
+      if (!parent) return;
+      const parentBorn = memberYear(parent, 'birth');
+      const parentDied = memberYear(parent, 'death');
+
+      if (parentBorn !== undefined) {
+        const age = born - parentBorn;
+        if (age <= 0) {
+          warn(m.id, 'born-before-parent', 'error', `Born (${born}) before parent ${parent.name} (${parentBorn}).`);
+        } else if (parent.gender === 'female' && age < PLAUSIBILITY_LIMITS.minMotherAge) {
+          warn(m.id, 'young-mother', 'error', `Mother ${parent.name} would have been ${age} at the birth.`);
+        } else if (parent.gender === 'female' && age > PLAUSIBILITY_LIMITS.maxMotherAge) {
+          warn(m.id, 'old-mother', 'warning', `Mother ${parent.name} would have been ${age} at the birth.`);
+        }
+      }
+      if (parentDied !== undefined) {
+        const grace = parent.gender === 'male' ? PLAUSIBILITY_LIMITS.paternalGraceYears : 0;
+        if (born > parentDied + grace) {
+          warn(m.id, 'born-after-parent-death', 'error', `Born (${born}) after parent ${parent.name} died (${parentDied}).`);
+        }
+      }
+    });
+
+    (m.partners || []).forEach(partnerId => {
+      const couple = [m.id, partnerId].sort().join('|');
+      if (seenCouples.has(couple)) return;
+      seenCouples.add(couple);
+      const partner = byId.get(partnerId);
+      const partnerBorn = partner && memberYear(partner, 'birth');
+      if (!partner || partnerBorn === undefined) return;
+      const gap = Math.abs(born - partnerBorn);
+      if (gap > PLAUSIBILITY_LIMITS.maxPartnerGap) {
+        warn(m.id, 'partner-age-gap', 'warning', `${gap}-year age gap with partner ${partner.name}.`);
+      }
+    });
+  });
+
+  return warnings;
+};
+
+export const groupWarningsByMember = (warnings: PlausibilityWarning[]): Record<string, PlausibilityWarning[]> => {
+  return warnings.reduce<Record<string, PlausibilityWarning[]>>((groups, w) => {
+    (groups[w.memberId] ||= []).push(w);
+    return groups;
+  }, {});
+};
@@ -0,0 +1,128 @@
+import { ChatMessage, ExtractionResult, SavedProject, TreeSnapshot } from "../types";
+import { migrateEventSources } from "./citationService";
+
+const DB_NAME = 'ancestryflow';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';
+const LAST_PROJECT_KEY = 'ancestryflow:lastProject';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) {
+          db.createObjectStore(PROJECTS, { keyPath: 'id' }).createIndex('updatedAt', 'updatedAt');
+        }
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const wrap = <T>(request: IDBRequest<T>): Promise<T> => new Promise((resolve, reject) => {
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => Promise<T>): Promise<T> => {
+  const db = await openDatabase();
+  const tx = db.transaction(PROJECTS, mode);
+  const done = new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+  // Together, so a transaction that aborts while run is pending still rejects.
+  const [result] = await Promise.all([run(tx.objectStore(PROJECTS)), done]);
+  return result;
+};
+
+export const createProjectId = () => `p-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+
+/**
+ * All saved projects, most recently edited first.
+ */
+export const listProjects = async (): Promise<SavedProject[]> => {
+  const projects = await withStore('readonly', store => wrap(store.getAll() as IDBRequest<SavedProject[]>));
+  return projects.sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+/**
+ * A saved project, brought up to the current data model; it is stored that
+ * way on its next autosave.
+ */
+export const getProject = async (id: string): Promise<SavedProject | undefined> => {
+  const project = await withStore('readonly', store => wrap(store.get(id) as IDBRequest<SavedProject | undefined>));
+  if (!project) return undefined;
+  return {
+    ...project,
+    data: migrateEventSources(project.data),
+    snapshots: project.snapshots?.map(s => ({ ...s, result: migrateEventSources(s.result) }))
+  };
+};
+
+/**
+ * Autosave entry point: writes the tree and chat into an existing project,
+ * or creates it (named after the tree title) on first save.
+ */
+export const saveProjectData = (id: string, data: ExtractionResult, chatHistory: ChatMessage[], snapshots: TreeSnapshot[] = []): Promise<SavedProject> => {
+  return withStore('readwrite', async store => {
+    const existing = await wrap(store.get(id) as IDBRequest<SavedProject | undefined>);
+    const now = Date.now();
+    const project: SavedProject = {
+      id,
+      name: existing?.name || data.title || 'Untitled Tree',
+      createdAt: existing?.createdAt ?? now,
+      updatedAt: now,
+      data,
+      chatHistory,
+      snapshots
+    };
+    await wrap(store.put(project));
+    return project;
+  });
+};
+
+export const renameProject = (id: string, name: string): Promise<void> => {
+  return withStore('readwrite', async store => {
+    const existing = await wrap(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing) throw new Error("Project not found.");
+    await wrap(store.put({ ...existing, name, updatedAt: Date.now() }));
+  });
+};
+
+export const duplicateProject = (id: string): Promise<SavedProject> => {
+  return withStore('readwrite', async store => {
+    const existing = await wrap(store.get(id) as IDBRequest<SavedProject | undefined>);
+    if (!existing) throw new Error("Project not found.");
+    const now = Date.now();
+    const copy: SavedProject = { ...structuredClone(existing), id: createProjectId(), name: `${existing.name} (copy)`, createdAt: now, updatedAt: now };
+    await wrap(store.put(copy));
+    return copy;
+  });
+};
+
+export const deleteProject = (id: string): Promise<void> => {
+  return withStore('readwrite', async store => {
+    await wrap(store.delete(id));
+  });
+};
+
+/**
+ * The project open at last reload, so a refresh returns to it.
+ */
+export const getLastProjectId = () => localStorage.getItem(LAST_PROJECT_KEY);
+
+export const setLastProjectId = (id: string | null) => {
+  if (id) localStorage.setItem(LAST_PROJECT_KEY, id);
+  else localStorage.removeItem(LAST_PROJECT_KEY);
+};
@@ -0,0 +1,179 @@
+import { AiTask } from "./aiProvider";
+
+export type ProgressStage = 'searching' | 'fallback' | 'extracting' | 'repairing' | 'retrying' | 'waiting' | 'cached' | 'rendering';
+
+/**
+ * What a long-running request is doing now, for the processing overlay.
+ */
+export interface ResearchProgress {
+  stage: ProgressStage;
+  message: string;
+  step?: { current: number, total: number }; // For flows made of several requests
+}
+
+export interface RequestOptions {
+  signal?: AbortSignal; // Aborting cancels the request, including any retry it is waiting on
+  onProgress?: (progress: ResearchProgress) => void;
+  bypassCache?: boolean; // Ask the model even if a cached answer exists; the fresh one replaces it
+}
+
+export const PROGRESS_STAGE_LABELS: Record<ProgressStage, string> = {
+  searching: 'Searching Archives',
+  fallback: 'Consulting the Model',
+  extracting: 'Reading Records',
+  repairing: 'Checking the Answer',
+  retrying: 'Retrying',
+  waiting: 'Queued',
+  cached: 'From Cache',
+  rendering: 'Rendering'
+};
+
+// Per attempt; grounded search and long documents are the slow ones.
+export const REQUEST_TIMEOUTS: Record<AiTask, number> = {
+  search: 90_000,
+  extraction: 120_000,
+  vision: 120_000,
+  chat: 60_000
+};
+
+/**
+ * Options for one step of a multi-request flow: its progress carries the
+ * step number.
+ */
+export const withStep = (request: RequestOptions, current: number, total: number): RequestOptions => ({
+  ...request,
+  onProgress: (progress) => request.onProgress?.({ ...progress, step: { current, total } })
+});
+
+const MAX_RETRIES = 3;
+const BASE_DELAY = 1_000;
+const MAX_DELAY = 30_000;
+const MAX_CONCURRENT = 2;
+
+export const cancelledError = () => Object.assign(new Error("Research cancelled."), { name: 'AbortError' });
+
+export const isCancelled = (err: any) => err?.name === 'AbortError';
+
+const throwIfCancelled = (signal?: AbortSignal) => {
+  if (signal?.aborted) throw cancelledError();
+};
+
+/**
+ * HTTP status of a provider error: the Gemini SDK and the OpenAI-compatible
+ * provider both set `status`.
+ */
+const errorStatus = (err: any): number | undefined => typeof err?.status === 'number' ? err.status : undefined;
+
+// Rate limits, server errors, timeouts and dropped connections are worth
+// another try; bad requests and auth failures are not.
+const isRetryable = (err: any) => {
+  const status = errorStatus(err);
+  if (status !== undefined) return status === 429 || status >= 500;
+  return err?.name === 'TimeoutError' || err instanceof TypeError;
+};
+
+const describeFailure = (err: any) => {
+  const status = errorStatus(err);
+  if (status === 429) return 'Rate limited';
+  if (status !== undefined) return `Server error ${status}`;
+  return err?.name === 'TimeoutError' ? 'Timed out' : 'Connection failed';
+};
+
+const delay = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const done = () => {
+    signal?.removeEventListener('abort', cancel);
+    resolve();
+  };
+  const timer = setTimeout(done, ms);
+  const cancel = () => {
+    clearTimeout(timer);
+    reject(cancelledError());
+  };
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+let active = 0;
+const queue: (() => void)[] = [];
+
+/**
+ * A slot among the MAX_CONCURRENT requests allowed at once; released with
+ * `release`. Waiting requests start in order.
+ */
+const acquire = (signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  if (active < MAX_CONCURRENT) {
+    active++;
+    resolve();
+    return;
+  }
+  const start = () => {
+    signal?.removeEventListener('abort', cancel);
+    active++;
+    resolve();
+  };
+  const cancel = () => {
+    queue.splice(queue.indexOf(start), 1);
+    reject(cancelledError());
+  };
+  queue.push(start);
+  signal?.addEventListener('abort', cancel, { once: true });
+});
+
+const release = () => {
+  active--;
+  queue.shift()?.();
+};
+
+/**
+ * Run one attempt with its own signal, aborted by the caller's signal or
+ * after `timeout`. Settles as soon as either fires, even if the provider
+ * ignores the signal.
+ */
+const attempt = <T>(call: (signal: AbortSignal) => Promise<T>, timeout: number, signal?: AbortSignal): Promise<T> => {
+  const controller = new AbortController();
+  return new Promise<T>((resolve, reject) => {
+    const finish = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener('abort', cancel);
+    };
+    const cancel = () => {
+      finish();
+      controller.abort();
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      finish();
+      controller.abort();
+      reject(Object.assign(new Error(`No answer within ${Math.round(timeout / 1000)} seconds.`), { name: 'TimeoutError' }));
+    }, timeout);
+    signal?.addEventListener('abort', cancel, { once: true });
+    call(controller.signal).then(
+      value => { finish(); resolve(value); },
+      err => { finish(); reject(controller.signal.aborted ? cancelledError() : err); }
+    );
+  });
+};
+
+/**
+ * Call a model through the request layer: at most MAX_CONCURRENT calls at
+ * once, a timeout per attempt, and exponential backoff with jitter on rate
+ * limits, server errors, timeouts and dropped connections. Retries are
+ * reported through `onProgress`.
+ */
+export const runRequest = async <T>(task: AiTask, call: (signal: AbortSignal) => Promise<T>, { signal, onProgress }: RequestOptions = {}): Promise<T> => {
+  for (let retry = 0; ; retry++) {
+    throwIfCancelled(signal);
+    if (active >= MAX_CONCURRENT) onProgress?.({ stage: 'waiting', message: 'Waiting for other requests to finish...' });
+    await acquire(signal);
+    let wait: number;
+    try {
+      return await attempt(call, REQUEST_TIMEOUTS[task], signal);
+    } catch (err) {
+      if (isCancelled(err) || retry >= MAX_RETRIES || !isRetryable(err)) throw err;
+      wait = Math.min(MAX_DELAY, BASE_DELAY * 2 ** retry) * (0.5 + Math.random() / 2);
+      onProgress?.({ stage: 'retrying', message: `${describeFailure(err)}. Trying again in ${Math.ceil(wait / 1000)}s (attempt ${retry + 2} of ${MAX_RETRIES + 1})...` });
+    } finally {
+      release();
+    }
+    await delay(wait, signal);
+  }
+};
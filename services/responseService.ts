@@ -0,0 +1,233 @@
+import { ExtractionResult, FamilyMember } from "../types";
+import { isGenealogicalDate, parseDate } from "./dateService";
+import { normalizeName } from "./mergeService";
+
+export interface ResponseIssue {
+  path: string; // e.g. "members[2].gender"
+  message: string;
+  fixed: boolean; // Coerced or dropped here; unfixed issues are worth asking the model again
+}
+
+export interface ParsedExtraction {
+  result?: ExtractionResult; // Missing when nothing usable came back
+  issues: ResponseIssue[];
+}
+
+const GENDERS: Record<string, FamilyMember['gender']> = {
+  m: 'male', male: 'male', man: 'male', boy: 'male',
+  f: 'female', female: 'female', woman: 'female', girl: 'female',
+  other: 'other'
+};
+
+export const VITAL_STATUSES: Record<string, FamilyMember['vitalStatus']> = {
+  living: 'living', alive: 'living',
+  deceased: 'deceased', dead: 'deceased', died: 'deceased',
+  unknown: 'unknown'
+};
+
+export const STATUSES: Record<string, FamilyMember['status']> = {
+  definitive: 'definitive', confirmed: 'definitive', certain: 'definitive',
+  probable: 'probable', likely: 'probable',
+  possible: 'possible', uncertain: 'possible', speculative: 'possible'
+};
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+
+const asInteger = (value: unknown) =>
+  typeof value === 'number' && Number.isInteger(value) ? value
+    : typeof value === 'string' && /^\s*\d+\s*$/.test(value) ? Number(value)
+    : value;
+
+/**
+ * Models wrap JSON in code fences or add a sentence before it. Falls back to
+ * the outermost braces or brackets.
+ */
+const parseJson = (text: string): { value?: unknown, error?: string } => {
+  const cleaned = text.replace(/```(?:json)?/gi, '').trim();
+  try {
+    return { value: JSON.parse(cleaned) };
+  } catch (err: any) {
+    const start = cleaned.search(/[{[]/);
+    const end = Math.max(cleaned.lastIndexOf('}'), cleaned.lastIndexOf(']'));
+    if (start >= 0 && end > start) {
+      try {
+        return { value: JSON.parse(cleaned.slice(start, end + 1)) };
+      } catch {
+        // Report the error for the whole text below.
+      }
+    }
+    return { error: err?.message || 'not valid JSON' };
+  }
+};
+
+const coerceDate = (value: unknown, path: string, issues: ResponseIssue[]) => {
+  if (value === undefined || value === null) return undefined;
+  if (isGenealogicalDate(value)) return value;
+  let date: unknown = value;
+  if (typeof value === 'string') date = parseDate(value);
+  else if (typeof value === 'number') date = { qualifier: 'exact', start: { year: value } };
+  else if (isObject(value)) {
+    const part = (p: unknown) => isObject(p) ? Object.fromEntries(Object.entries(p).map(([k, v]) => [k, asInteger(v)]).filter(([, v]) => v !== null && v !== undefined)) : p;
+    date = { ...value, qualifier: typeof value.qualifier === 'string' ? value.qualifier.toLowerCase() : 'exact', start: part(value.start), ...(value.end ? { end: part(value.end) } : {}) };
+  }
+  if (isGenealogicalDate(date)) {
+    issues.push({ path, message: 'date rewritten in the structured form', fixed: true });
+    return date;
+  }
+  issues.push({ path, message: 'not a valid date; dropped', fixed: true });
+  return undefined;
+};
+
+const coerceList = (value: unknown, path: string, issues: ResponseIssue[]): unknown[] | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (Array.isArray(value)) return value;
+  issues.push({ path, message: 'expected a list', fixed: true });
+  return [value];
+};
+
+const coerceEnum = <T>(value: unknown, values: Record<string, T>, path: string, issues: ResponseIssue[]): T | undefined => {
+  if (value === undefined || value === null || value === '') return undefined;
+  const key = String(value).trim().toLowerCase();
+  const coerced = values[key];
+  if (coerced === undefined) issues.push({ path, message: `unknown value "${value}"; dropped`, fixed: true });
+  else if (coerced !== value) issues.push({ path, message: `"${value}" read as "${coerced}"`, fixed: true });
+  return coerced;
+};
+
+const optionalText = (value: unknown) =>
+  typeof value === 'string' ? value : typeof value === 'number' ? String(value) : undefined;
+
+/**
+ * Check a model's extraction answer against the FamilyMember shape and fix
+ * what can be fixed: years given as numbers, enum values in the wrong case
+ * or with synonyms, single values where lists belong, and parents or
+ * partners given by name instead of ID. `known` members (the tree being
+ * updated) are valid link targets too.
+ *
+ * Unfixed issues mean the answer lost information: it was not JSON, had no
+ * member list, or a member had no name or linked to nobody.
+ */
+export const parseExtraction = (text: string, known: FamilyMember[] = []): ParsedExtraction => {
+  const issues: ResponseIssue[] = [];
+  const parsed = parseJson(text);
+  if (parsed.error) return { issues: [{ path: '$', message: `not valid JSON (${parsed.error})`, fixed: false }] };
+
+  let root = parsed.value;
+  if (Array.isArray(root)) {
+    issues.push({ path: '$', message: 'bare member list wrapped in an object', fixed: true });
+    root = { members: root };
+  }
+  if (!isObject(root)) return { issues: [{ path: '$', message: 'expected a JSON object', fixed: false }] };
+  if (!Array.isArray(root.members)) return { issues: [{ path: 'members', message: 'missing or not a list', fixed: false }] };
+
+  // IDs and names first, so links given by name can be resolved.
+  const entries = root.members.map((raw: unknown, i: number) => {
+    const path = `members[${i}]`;
+    if (!isObject(raw)) {
+      issues.push({ path, message: 'not an object; dropped', fixed: false });
+      return undefined;
+    }
+    const name = optionalText(raw.name)?.trim();
+    if (!name) {
+      issues.push({ path: `${path}.name`, message: 'missing; member dropped', fixed: false });
+      return undefined;
+    }
+    let id = optionalText(raw.id)?.trim();
+    if (!id) {
+      id = `m${i + 1}`;
+      issues.push({ path: `${path}.id`, message: `missing; assigned "${id}"`, fixed: true });
+    } else if (typeof raw.id !== 'string') {
+      issues.push({ path: `${path}.id`, message: 'number turned into text', fixed: true });
+    }
+    return { raw, path, id, name };
+  });
+  const valid = entries.filter((e: unknown): e is { raw: Record<string, any>, path: string, id: string, name: string } => !!e);
+
+  const ids = new Set([...known.map(m => m.id), ...valid.map(e => e.id)]);
+  const idsByName = new Map<string, string[]>();
+  [...known, ...valid].forEach(m => {
+    const key = normalizeName(m.name);
+    if (!idsByName.get(key)?.includes(m.id)) idsByName.set(key, [...(idsByName.get(key) || []), m.id]);
+  });
+
+  const links = (value: unknown, path: string) => coerceList(value, path, issues)
+    ?.map((ref, j) => {
+      const text = optionalText(ref)?.trim();
+      if (!text) {
+        issues.push({ path: `${path}[${j}]`, message: 'empty link; dropped', fixed: true });
+        return undefined;
+      }
+      if (ids.has(text)) return text;
+      const byName = idsByName.get(normalizeName(text)) || [];
+      if (byName.length === 1) {
+        issues.push({ path: `${path}[${j}]`, message: `"${text}" is a name; linked to ID "${byName[0]}"`, fixed: true });
+        return byName[0];
+      }
+      issues.push({ path: `${path}[${j}]`, message: `"${text}" is not the ID${byName.length > 1 ? ' or unique name' : ''} of anyone in the list`, fixed: false });
+      return text;
+    })
+    .filter((ref): ref is string => !!ref);
+
+  const members = valid.map(({ raw, path, id, name }) => {
+    const member: FamilyMember = { ...raw, id, name } as FamilyMember;
+    (['birthYear', 'deathYear', 'relationship', 'notes'] as const).forEach(field => {
+      if (raw[field] === undefined || raw[field] === null) {
+        delete member[field];
+      } else if (typeof raw[field] !== 'string') {
+        const text = optionalText(raw[field]);
+        if (text) member[field] = text;
+        else delete member[field];
+        issues.push({ path: `${path}.${field}`, message: text ? 'number turned into text' : 'not text; dropped', fixed: true });
+      }
+    });
+    (['birthDate', 'deathDate'] as const).forEach(field => {
+      const date = coerceDate(raw[field], `${path}.${field}`, issues);
+      if (date) member[field] = date;
+      else delete member[field];
+    });
+    member.gender = coerceEnum(raw.gender, GENDERS, `${path}.gender`, issues);
+    member.vitalStatus = coerceEnum(raw.vitalStatus, VITAL_STATUSES, `${path}.vitalStatus`, issues);
+    member.status = coerceEnum(raw.status, STATUSES, `${path}.status`, issues);
+    member.parents = links(raw.parents, `${path}.parents`);
+    member.partners = links(raw.partners, `${path}.partners`);
+
+    const events = coerceList(raw.events, `${path}.events`, issues);
+    member.events = events?.filter(isObject).map((e, j) => {
+      const event: Record<string, any> = { ...e, type: typeof e.type === 'string' ? e.type.toLowerCase() : e.type };
+      const date = coerceDate(e.date, `${path}.events[${j}].date`, issues);
+      if (date) event.date = date;
+      else delete event.date;
+      if (e.sourceNumber !== undefined) event.sourceNumber = asInteger(e.sourceNumber);
+      if (e.place !== undefined && typeof e.place !== 'string') delete event.place;
+      return event;
+    }) as FamilyMember['events'];
+    const citations = coerceList(raw.citations, `${path}.citations`, issues);
+    member.citations = citations?.filter(isObject).map(c => ({
+      ...c,
+      ...(c.source !== undefined ? { source: asInteger(c.source) } : {}),
+      ...(typeof c.field === 'string' ? { field: c.field.toLowerCase() } : {})
+    })) as FamilyMember['citations'];
+
+    (Object.keys(member) as (keyof FamilyMember)[]).forEach(key => member[key] === undefined && delete member[key]);
+    return member;
+  });
+
+  const result: ExtractionResult = { members };
+  (['title', 'description', 'estateInfo'] as const).forEach(field => {
+    const text = optionalText(root[field]);
+    if (text) result[field] = text;
+  });
+  return { result, issues };
+};
+
+export const unfixedIssues = (issues: ResponseIssue[]) => issues.filter(i => !i.fixed);
+
+/**
+ * Issues as a list for a re-prompt or an error message; long lists are cut
+ * short.
+ */
+export const describeIssues = (issues: ResponseIssue[], max = 8) => {
+  const lines = issues.slice(0, max).map(i => `- ${i.path}: ${i.message}`);
+  if (issues.length > max) lines.push(`- ...and ${issues.length - max} more`);
+  return lines.join('\n');
+};
@@ -0,0 +1,179 @@
+import { FamilyMember } from "../types";
+import { dateYear, memberYear } from "./dateService";
+import { normalizeName } from "./mergeService";
+
+export type SearchMatchKind = 'name' | 'sounds-like' | 'year' | 'notes';
+
+export interface SearchMatch {
+  memberId: string;
+  kinds: SearchMatchKind[];
+  score: number; // Higher first
+}
+
+export interface MemberFilters {
+  status?: NonNullable<FamilyMember['status']> | 'unset';
+  vitalStatus?: NonNullable<FamilyMember['vitalStatus']>;
+  gender?: NonNullable<FamilyMember['gender']>;
+  generation?: number; // 1 for the earliest generation in the tree
+  surname?: string; // As returned by surnameOf
+  mode: 'dim' | 'hide'; // What happens to members outside the filters
+}
+
+export const EMPTY_FILTERS: MemberFilters = { mode: 'dim' };
+
+export const MATCH_KIND_LABELS: Record<SearchMatchKind, string> = {
+  'name': 'Name',
+  'sounds-like': 'Sounds like',
+  'year': 'Year',
+  'notes': 'Notes'
+};
+
+const SOUNDEX_CODES: Record<string, string> = {
+  b: '1', f: '1', p: '1', v: '1',
+  c: '2', g: '2', j: '2', k: '2', q: '2', s: '2', x: '2', z: '2',
+  d: '3', t: '3',
+  l: '4',
+  m: '5', n: '5',
+  r: '6'
+};
+
+/**
+ * American Soundex: first letter plus three digits, e.g. "Robert" and
+ * "Rupert" are both R163. H and W do not separate letters with the same code.
+ */
+export const soundex = (word: string): string => {
+  const letters = normalizeName(word).replace(/[^a-z]/g, '');
+  if (!letters) return '';
+  let code = letters[0].toUpperCase();
+  let previous = SOUNDEX_CODES[letters[0]] || '';
+  for (const letter of letters.slice(1)) {
+    const digit = SOUNDEX_CODES[letter] || '';
+    if (digit && digit !== previous) code += digit;
+    if (letter !== 'h' && letter !== 'w') previous = digit;
+    if (code.length === 4) break;
+  }
+  return code.padEnd(4, '0');
+};
+
+// Last word of the name, ignoring titles and suffixes such as "Jr".
+export const surnameOf = (member: FamilyMember) => normalizeName(member.name).split(' ').pop() || '';
+
+/**
+ * Surnames in the tree, most common first, for the surname filter.
+ */
+export const surnamesIn = (members: FamilyMember[]): { surname: string, count: number }[] => {
+  const counts = new Map<string, number>();
+  members.forEach(m => {
+    const surname = surnameOf(m);
+    if (surname) counts.set(surname, (counts.get(surname) || 0) + 1);
+  });
+  return [...counts.entries()]
+    .map(([surname, count]) => ({ surname, count }))
+    .sort((a, b) => b.count - a.count || a.surname.localeCompare(b.surname));
+};
+
+/**
+ * Generation numbers counted down from the earliest ancestors (1). Children
+ * sit below the lower of their parents; people who married in without
+ * recorded parents share their partner's generation.
+ */
+export const memberGenerations = (members: FamilyMember[]): Map<string, number> => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const generation = new Map<string, number>();
+  const resolving = new Set<string>();
+  const resolve = (id: string): number => {
+    if (generation.has(id)) return generation.get(id)!;
+    // A parent loop in bad data: treat the person as a root.
+    if (resolving.has(id)) return 1;
+    resolving.add(id);
+    const parents = (byId.get(id)?.parents || []).filter(p => byId.has(p) && p !== id);
+    const value = parents.length > 0 ? Math.max(...parents.map(resolve)) + 1 : 1;
+    resolving.delete(id);
+    generation.set(id, value);
+    return value;
+  };
+  members.forEach(m => resolve(m.id));
+  members.forEach(m => {
+    if ((m.parents || []).some(p => byId.has(p))) return;
+    const partnerGenerations = (m.partners || []).filter(p => byId.has(p) && (byId.get(p)!.parents || []).some(pp => byId.has(pp))).map(p => generation.get(p)!);
+    if (partnerGenerations.length > 0) generation.set(m.id, Math.max(...partnerGenerations));
+  });
+  return generation;
+};
+
+const memberYears = (member: FamilyMember) => [
+  memberYear(member, 'birth'),
+  memberYear(member, 'death'),
+  ...(member.events || []).map(e => dateYear(e.date))
+].filter((y): y is number => y !== undefined);
+
+/**
+ * Members matching every word of a query. Words match name parts (by prefix
+ * or by Soundex), years of birth, death or any event, and notes; a range such
+ * as "1850-1860" matches years inside it.
+ */
+export const searchMembers = (members: FamilyMember[], query: string): SearchMatch[] => {
+  const terms = query.toLowerCase().match(/\d{3,4}\s*-\s*\d{3,4}|[^\s,]+/g) || [];
+  if (terms.length === 0) return [];
+
+  const matches: SearchMatch[] = [];
+  members.forEach(m => {
+    const nameParts = normalizeName(m.name).split(' ').filter(Boolean);
+    const codes = nameParts.map(soundex);
+    const years = memberYears(m);
+    const notes = normalizeName(m.notes || '');
+    const kinds = new Set<SearchMatchKind>();
+    let score = 0;
+
+    const allMatch = terms.every(term => {
+      const range = term.match(/^(\d{3,4})\s*-\s*(\d{3,4})$/);
+      if (range || /^\d{3,4}$/.test(term)) {
+        const [from, to] = range ? [Number(range[1]), Number(range[2])] : [Number(term), Number(term)];
+        if (!years.some(y => y >= from && y <= to)) return false;
+        kinds.add('year');
+        score += 2;
+        return true;
+      }
+      const word = normalizeName(term);
+      if (!word) return true;
+      if (nameParts.some(part => part.startsWith(word))) {
+        kinds.add('name');
+        score += nameParts.includes(word) ? 4 : 3;
+        return true;
+      }
+      if (word.length >= 2 && codes.includes(soundex(word))) {
+        kinds.add('sounds-like');
+        score += 1;
+        return true;
+      }
+      if (notes.includes(word)) {
+        kinds.add('notes');
+        score += 0.5;
+        return true;
+      }
+      return false;
+    });
+    if (allMatch && kinds.size > 0) matches.push({ memberId: m.id, kinds: [...kinds], score });
+  });
+  const names = new Map(members.map(m => [m.id, m.name]));
+  return matches.sort((a, b) => b.score - a.score || names.get(a.memberId)!.localeCompare(names.get(b.memberId)!));
+};
+
+export const filtersActive = (filters: MemberFilters) =>
+  Boolean(filters.status || filters.vitalStatus || filters.gender || filters.generation || filters.surname);
+
+/**
+ * IDs of members outside the filters. Members without a vital status count
+ * as unknown, and without a gender as other.
+ */
+export const filterMembers = (members: FamilyMember[], filters: MemberFilters): Set<string> => {
+  if (!filtersActive(filters)) return new Set();
+  const generations = filters.generation ? memberGenerations(members) : undefined;
+  return new Set(members.filter(m =>
+    (filters.status && (m.status || 'unset') !== filters.status)
+    || (filters.vitalStatus && (m.vitalStatus || 'unknown') !== filters.vitalStatus)
+    || (filters.gender && (m.gender || 'other') !== filters.gender)
+    || (generations && generations.get(m.id) !== filters.generation)
+    || (filters.surname && surnameOf(m) !== filters.surname)
+  ).map(m => m.id));
+};
@@ -0,0 +1,353 @@
+import * as XLSX from 'xlsx';
+import { EventType, ExtractionResult, FamilyMember, GroundingSource } from "../types";
+import { buildRelationships } from "./familyGraph";
+import { displayDate, formatDate, parseDate } from "./dateService";
+import { COUPLE_EVENTS, createEventId, EVENT_TYPES, eventLabel, ExtractedEvent, memberTimeline, resolveExtractedEvents } from "./eventService";
+import { formatPlace } from "./placeService";
+import { citationsFor, citedFieldLabel, citeEventSources, ensureSourceIds, mergeCitations, qualityLabel } from "./citationService";
+import { STATUSES, VITAL_STATUSES } from "./responseService";
+
+export interface SheetData {
+  sheetName: string;
+  headers: string[];
+  rows: string[][];
+  csv: string;
+  events?: { headers: string[], rows: string[][] }; // The Events sheet of a workbook we exported
+}
+
+export type ColumnField = 'id' | 'name' | 'birth' | 'death' | 'gender' | 'relationship' | 'vitalStatus' | 'status' | 'parents' | 'partners' | 'notes';
+
+// Maps each field to a header index; undefined means the column is not present.
+export type ColumnMapping = Partial<Record<ColumnField, number>>;
+
+export const COLUMN_FIELDS: { field: ColumnField, label: string }[] = [
+  { field: 'id', label: 'ID' },
+  { field: 'name', label: 'Name' },
+  { field: 'birth', label: 'Birth' },
+  { field: 'death', label: 'Death' },
+  { field: 'gender', label: 'Gender' },
+  { field: 'relationship', label: 'Relationship' },
+  { field: 'vitalStatus', label: 'Vital Status (living, deceased)' },
+  { field: 'status', label: 'Confidence (definitive, probable, possible)' },
+  { field: 'parents', label: 'Parents (IDs or names, separated by ;)' },
+  { field: 'partners', label: 'Spouses (IDs or names, separated by ;)' },
+  { field: 'notes', label: 'Notes' }
+];
+
+const HEADER_HINTS: Record<ColumnField, RegExp> = {
+  id: /^(id|person ?id|ref|reference|record ?(id|no))$/,
+  name: /^(full ?name|name|person|individual)$/,
+  birth: /(birth|born|b\.|dob)/,
+  death: /(death|died|d\.|dod|deceased)/,
+  gender: /^(gender|sex)$/,
+  relationship: /^(relationship|relation)( to .+)?$/,
+  vitalStatus: /^(vital ?status|living|alive)$/,
+  status: /^(confidence|certainty|status)$/,
+  parents: /(parent|father|mother)/,
+  partners: /(spouse|partner|husband|wife|married)/,
+  notes: /(note|comment|remark)/
+};
+
+// Not commas: names are often written "Surname, Given".
+const LIST_SEPARATOR = /\s*[;|]\s*/;
+
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+// Cells our CSV export quoted to keep them from running as formulas.
+const unguard = (value: string) => value.startsWith("'") && FORMULA_START.test(value.slice(1)) ? value.slice(1) : value;
+
+const readTable = (sheet: XLSX.WorkSheet) => {
+  const table = (XLSX.utils.sheet_to_json(sheet, { header: 1, raw: false, defval: '', blankrows: false }) as unknown[][])
+    .map(row => row.map(cell => unguard(String(cell ?? '').trim()).trim()))
+    .filter(row => row.some(cell => cell !== ''));
+  const [headers = [], ...rows] = table;
+  return { headers, rows };
+};
+
+/**
+ * Read the first worksheet of an .xlsx, .xls or .csv file into header/rows
+ * form, plus the Events sheet when the workbook has one.
+ */
+export const readSpreadsheet = (data: ArrayBuffer): SheetData => {
+  const workbook = XLSX.read(data, { type: 'array' });
+  const sheetName = workbook.SheetNames[0];
+  if (!sheetName) throw new Error("The spreadsheet does not contain any sheets.");
+  const sheet = workbook.Sheets[sheetName];
+  const eventsName = workbook.SheetNames.slice(1).find(name => name.trim().toLowerCase() === 'events');
+
+  return {
+    sheetName,
+    ...readTable(sheet),
+    csv: XLSX.utils.sheet_to_csv(sheet),
+    events: eventsName ? readTable(workbook.Sheets[eventsName]) : undefined
+  };
+};
+
+/**
+ * Guess which column holds which field from the header labels.
+ */
+export const guessColumnMapping = (headers: string[]): ColumnMapping => {
+  const mapping: ColumnMapping = {};
+  const taken = new Set<number>();
+  COLUMN_FIELDS.forEach(({ field }) => {
+    const index = headers.findIndex((h, i) => !taken.has(i) && HEADER_HINTS[field].test(h.trim().toLowerCase()));
+    if (index >= 0) {
+      mapping[field] = index;
+      taken.add(index);
+    }
+  });
+  return mapping;
+};
+
+/**
+ * A sheet without a usable name column cannot be imported row-by-row and is
+ * handed to the model instead.
+ */
+export const isFreeFormSheet = (sheet: SheetData, mapping: ColumnMapping) => {
+  return sheet.headers.length === 0 || sheet.rows.length === 0 || mapping.name === undefined;
+};
+
+const parseGender = (value: string): FamilyMember['gender'] => {
+  const v = value.trim().toLowerCase();
+  if (!v || /^(u|unknown|\?)$/.test(v)) return undefined;
+  if (/^(m|male|man|boy|son|father|husband)$/.test(v)) return 'male';
+  if (/^(f|female|woman|girl|daughter|mother|wife)$/.test(v)) return 'female';
+  return 'other';
+};
+
+// Same words the model's answers are read with, so both imports agree.
+const parseEnum = <T>(value: string, values: Record<string, T>): T | undefined => {
+  const key = value.trim().toLowerCase();
+  return Object.prototype.hasOwnProperty.call(values, key) ? values[key] : undefined;
+};
+
+const normalizeName = (name: string) => name.toLowerCase().replace(/[^a-z0-9]+/g, ' ').trim();
+
+const eventType = (value: string): EventType | undefined => {
+  const v = value.trim().toLowerCase();
+  return EVENT_TYPES.find(t => t.type === v || t.label.toLowerCase() === v)?.type;
+};
+
+/**
+ * Attach the rows of an exported Events sheet to the imported members as
+ * events with free-text date and place, citing the sources named in the
+ * "Sources" column (or the single free-text "Source" of older exports).
+ * Returns the source library those citations refer to.
+ */
+const readEventRows = (events: NonNullable<SheetData['events']>, rowIds: Map<string, FamilyMember>, byName: Map<string, FamilyMember>): GroundingSource[] => {
+  const column = (...names: string[]) => events.headers.findIndex(h => names.includes(h.trim().toLowerCase()));
+  const columns = {
+    id: column('member id'),
+    name: column('member name'),
+    event: column('event'),
+    date: column('date'),
+    place: column('place'),
+    spouse: column('spouse'),
+    description: column('description'),
+    sources: column('sources'),
+    source: column('source')
+  };
+  const value = (row: string[], index: number) => index < 0 ? '' : (row[index] || '').trim();
+  let sources: GroundingSource[] = [];
+  // Marriages are listed under both spouses but stored once.
+  const couples = new Set<string>();
+
+  events.rows.forEach(row => {
+    const member = rowIds.get(value(row, columns.id)) || byName.get(normalizeName(value(row, columns.name)));
+    const type = eventType(value(row, columns.event));
+    if (!member || !type) return;
+    const spouse = COUPLE_EVENTS.includes(type) ? byName.get(normalizeName(value(row, columns.spouse))) : undefined;
+    if (spouse) {
+      const key = [type, ...[member.id, spouse.id].sort(), value(row, columns.date)].join('|');
+      if (couples.has(key)) return;
+      couples.add(key);
+    }
+    const event: ExtractedEvent = {
+      id: createEventId(),
+      type,
+      dateText: value(row, columns.date) || undefined,
+      place: value(row, columns.place) || undefined,
+      description: value(row, columns.description) || undefined,
+      partnerId: spouse?.id
+    };
+    const titles = columns.sources >= 0 ? value(row, columns.sources).split(';') : [value(row, columns.source)];
+    const cited = citeEventSources(sources, event, titles);
+    sources = cited.sources;
+    member.events = [...(member.events || []), event];
+    if (cited.citations.length) member.citations = mergeCitations(member.citations, cited.citations);
+  });
+
+  return sources;
+};
+
+/**
+ * Build family members from mapped spreadsheet rows without calling the model.
+ * Parent and spouse cells may hold IDs or names; names that match no row
+ * become placeholder members so the link is not lost.
+ */
+export const buildMembersFromSheet = (sheet: SheetData, mapping: ColumnMapping): ExtractionResult => {
+  const cell = (row: string[], field: ColumnField) => {
+    const index = mapping[field];
+    return index === undefined ? '' : (row[index] || '').trim();
+  };
+
+  const members: FamilyMember[] = [];
+  const byId = new Map<string, FamilyMember>();
+  const byName = new Map<string, FamilyMember>();
+  const rowIds = new Map<string, FamilyMember>(); // ID cells as written, before de-duplication
+
+  const register = (member: FamilyMember) => {
+    members.push(member);
+    byId.set(member.id, member);
+    const key = normalizeName(member.name);
+    if (!byName.has(key)) byName.set(key, member);
+  };
+
+  const uniqueId = (preferred: string) => {
+    let id = preferred;
+    for (let n = 2; byId.has(id); n++) id = `${preferred}-${n}`;
+    return id;
+  };
+
+  const pending: { member: FamilyMember, parents: string[], partners: string[] }[] = [];
+
+  sheet.rows.forEach((row, index) => {
+    const name = cell(row, 'name');
+    if (!name) return;
+    const birthDate = parseDate(cell(row, 'birth'));
+    const deathDate = parseDate(cell(row, 'death'));
+    const vitalStatus = parseEnum(cell(row, 'vitalStatus'), VITAL_STATUSES);
+    const member: FamilyMember = {
+      id: uniqueId(cell(row, 'id') || `r${index + 1}`),
+      name,
+      birthYear: birthDate && formatDate(birthDate),
+      deathYear: deathDate && formatDate(deathDate),
+      birthDate,
+      deathDate,
+      gender: parseGender(cell(row, 'gender')),
+      relationship: cell(row, 'relationship') || undefined,
+      vitalStatus: vitalStatus && vitalStatus !== 'unknown' ? vitalStatus : deathDate || cell(row, 'death') ? 'deceased' : 'unknown',
+      status: parseEnum(cell(row, 'status'), STATUSES),
+      notes: cell(row, 'notes') || undefined,
+      parents: [],
+      partners: []
+    };
+    register(member);
+    if (cell(row, 'id') && !rowIds.has(cell(row, 'id'))) rowIds.set(cell(row, 'id'), member);
+    pending.push({
+      member,
+      parents: cell(row, 'parents').split(LIST_SEPARATOR).filter(Boolean),
+      partners: cell(row, 'partners').split(LIST_SEPARATOR).filter(Boolean)
+    });
+  });
+
+  const resolve = (ref: string): string => {
+    const existing = byId.get(ref) || byName.get(normalizeName(ref));
+    if (existing) return existing.id;
+    const placeholder: FamilyMember = { id: uniqueId(`ref-${normalizeName(ref).replace(/ /g, '-') || 'unknown'}`), name: ref, parents: [], partners: [] };
+    register(placeholder);
+    return placeholder.id;
+  };
+
+  const link = (list: string[], id: string) => { if (!list.includes(id)) list.push(id); };
+
+  pending.forEach(({ member, parents, partners }) => {
+    parents.map(resolve).filter(id => id !== member.id).forEach(id => link(member.parents!, id));
+    partners.map(resolve).filter(id => id !== member.id).forEach(id => {
+      link(member.partners!, id);
+      link(byId.get(id)!.partners!, member.id);
+    });
+  });
+
+  const sources = sheet.events ? readEventRows(sheet.events, rowIds, byName) : undefined;
+  return resolveExtractedEvents({ members, title: sheet.sheetName, sources });
+};
+
+/**
+ * Build a workbook with one row per member, a sheet of relationship edges,
+ * a sheet of life events and a sheet of source citations.
+ */
+export const buildMembersWorkbook = (data: ExtractionResult): XLSX.WorkBook => {
+  const byId = new Map(data.members.map(m => [m.id, m]));
+  const namesOf = (ids?: string[]) => (ids || []).map(id => byId.get(id)?.name || id).join('; ');
+  const sources = ensureSourceIds(data.sources);
+  const sourceOf = (id: string) => sources.find(s => s.id === id);
+
+  const memberRows = data.members.map(m => ({
+    'ID': m.id,
+    'Name': m.name,
+    'Birth': displayDate(m, 'birth') || '',
+    'Death': displayDate(m, 'death') || '',
+    'Gender': m.gender || '',
+    'Vital Status': m.vitalStatus || '',
+    'Confidence': m.status || '',
+    'Relationship': m.relationship || '',
+    'Parents': namesOf(m.parents),
+    'Partners': namesOf(m.partners),
+    'Notes': m.notes || ''
+  }));
+
+  const relationshipRows = buildRelationships(data.members).map(r => ({
+    'Source ID': r.sourceId,
+    'Source Name': byId.get(r.sourceId)?.name || '',
+    'Target ID': r.targetId,
+    'Target Name': byId.get(r.targetId)?.name || '',
+    'Type': r.type
+  }));
+
+  // Marriages appear under both spouses, as they do in the biography panel.
+  const eventRows = data.members.flatMap(m => memberTimeline(m, data.members).map(e => ({
+    'Member ID': m.id,
+    'Member Name': m.name,
+    'Event': eventLabel(e.type),
+    'Date': formatDate(e.date),
+    'Place': formatPlace(data.places, e.placeId),
+    'Spouse': byId.get(e.ownerId !== m.id ? e.ownerId : e.partnerId || '')?.name || '',
+    'Description': e.description || '',
+    'Sources': (e.type === 'birth' || e.type === 'death' ? citationsFor(byId.get(e.ownerId), e.type) : citationsFor(byId.get(e.ownerId), 'event', e.id))
+      .map(c => sourceOf(c.sourceId)?.title || c.sourceId).join('; ')
+  })));
+
+  const citationRows = data.members.flatMap(m => (m.citations || []).map(c => {
+    const event = c.field === 'event' ? m.events?.find(e => e.id === c.eventId) : undefined;
+    return {
+      'Member ID': m.id,
+      'Member Name': m.name,
+      'Fact': event ? eventLabel(event.type) : citedFieldLabel(c.field),
+      'Source': sourceOf(c.sourceId)?.title || c.sourceId,
+      'URL': sourceOf(c.sourceId)?.uri || '',
+      'Quality': qualityLabel(c.quality) || '',
+      'Page': c.page || '',
+      'Excerpt': c.excerpt || ''
+    };
+  }));
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(memberRows), 'Members');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(relationshipRows, { header: ['Source ID', 'Source Name', 'Target ID', 'Target Name', 'Type'] }), 'Relationships');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(eventRows, { header: ['Member ID', 'Member Name', 'Event', 'Date', 'Place', 'Spouse', 'Description', 'Sources'] }), 'Events');
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(citationRows, { header: ['Member ID', 'Member Name', 'Fact', 'Source', 'URL', 'Quality', 'Page', 'Excerpt'] }), 'Citations');
+  return workbook;
+};
+
+/**
+ * Spreadsheet apps treat CSV text starting with these as a formula, so a
+ * name or note from an imported file could run one. A leading quote keeps
+ * the cell text.
+ */
+const guardFormulas = (sheet: XLSX.WorkSheet) => {
+  Object.keys(sheet).filter(key => !key.startsWith('!')).forEach(key => {
+    const cell = sheet[key] as XLSX.CellObject;
+    if (cell.t === 's' && typeof cell.v === 'string' && FORMULA_START.test(cell.v)) cell.v = `'${cell.v}`;
+  });
+};
+
+/**
+ * Download the member list. CSV only holds the first (Members) sheet: people
+ * with their parents and partners, but not events or citations.
+ */
+export const downloadSpreadsheet = (data: ExtractionResult, format: 'xlsx' | 'csv') => {
+  const workbook = buildMembersWorkbook(data);
+  if (format === 'csv') guardFormulas(workbook.Sheets[workbook.SheetNames[0]]);
+  XLSX.writeFile(workbook, `ancestry-members-${Date.now()}.${format}`, { bookType: format });
+};
@@ -0,0 +1,206 @@
+import * as d3 from 'd3';
+import { FamilyMember } from "../types";
+import { displayDate } from "./dateService";
+import { CARD_HEIGHT, CARD_WIDTH, LayoutEdge, LayoutNode, TreeLayout } from "./layoutService";
+
+// Level of detail by zoom: full HTML cards from CARD_ZOOM, boxes with names
+// from NAME_ZOOM, and plain dots below that.
+export const CARD_ZOOM = 0.5;
+export const NAME_ZOOM = 0.2;
+
+export interface TreeScene {
+  layout: TreeLayout;
+  // Card nodes indexed by their top-left corner, for viewport queries.
+  index: d3.Quadtree<LayoutNode>;
+  edges: { edge: LayoutEdge, path: Path2D, bounds: [number, number, number, number] }[];
+  arcs: { node: LayoutNode, path: Path2D }[];
+}
+
+export interface Highlight {
+  nodes: Set<string>; // Member IDs on the highlighted path
+  steps: Set<string>; // "fromId|toId" for each connector on it, both directions
+}
+
+export interface DrawOptions {
+  transform: d3.ZoomTransform;
+  width: number; // CSS pixels
+  height: number;
+  pixelRatio: number;
+  members: Map<string, FamilyMember>;
+  highlight: Highlight;
+  matches: Set<string>; // Search results, outlined
+  dimmed: Set<string>; // Members outside the active filters
+}
+
+// Edge paths only use absolute M/L/C commands, so their numbers are x/y pairs.
+const pathBounds = (path: string): [number, number, number, number] => {
+  const numbers = (path.match(/-?\d+(\.\d+)?(e-?\d+)?/g) || []).map(Number);
+  const xs = numbers.filter((_, i) => i % 2 === 0);
+  const ys = numbers.filter((_, i) => i % 2 === 1);
+  return [Math.min(...xs), Math.min(...ys), Math.max(...xs), Math.max(...ys)];
+};
+
+/**
+ * Prepare a layout for drawing. Built once per layout; panning, zooming and
+ * edits that do not move anyone reuse it.
+ */
+export const createScene = (layout: TreeLayout): TreeScene => ({
+  layout,
+  index: d3.quadtree<LayoutNode>().x(n => n.x).y(n => n.y).addAll(layout.nodes.filter(n => !n.arc)),
+  edges: layout.edges.map(edge => ({ edge, path: new Path2D(edge.path), bounds: pathBounds(edge.path) })),
+  arcs: layout.nodes.filter(n => n.arc).map(node => ({ node, path: new Path2D(node.arc!.path) }))
+});
+
+/**
+ * Card nodes overlapping a rectangle in layout coordinates.
+ */
+export const nodesInView = (scene: TreeScene, x0: number, y0: number, x1: number, y1: number): LayoutNode[] => {
+  const found: LayoutNode[] = [];
+  const left = x0 - CARD_WIDTH;
+  const top = y0 - CARD_HEIGHT;
+  scene.index.visit((node, qx0, qy0, qx1, qy1) => {
+    if (!node.length) {
+      let leaf: d3.QuadtreeLeaf<LayoutNode> | undefined = node as d3.QuadtreeLeaf<LayoutNode>;
+      do {
+        const n = leaf.data;
+        if (n.x >= left && n.x <= x1 && n.y >= top && n.y <= y1) found.push(n);
+      } while ((leaf = leaf.next));
+    }
+    return qx0 > x1 || qy0 > y1 || qx1 < left || qy1 < top;
+  });
+  return found;
+};
+
+let hitContext: CanvasRenderingContext2D | null = null;
+
+/**
+ * The node drawn at a point in layout coordinates, if any.
+ */
+export const nodeAt = (scene: TreeScene, x: number, y: number): LayoutNode | undefined => {
+  if (scene.arcs.length > 0) {
+    hitContext = hitContext || document.createElement('canvas').getContext('2d');
+    // Outer rings are drawn last, so search them first.
+    const hit = [...scene.arcs].reverse().find(a => hitContext?.isPointInPath(a.path, x - a.node.x, y - a.node.y));
+    if (hit) return hit.node;
+  }
+  return nodesInView(scene, x, y, x, y)[0];
+};
+
+export const edgeStyle = (edge: LayoutEdge, highlighted: boolean) => ({
+  color: highlighted ? '#6366f1' : edge.kind === 'partner' ? '#cbd5e1' : '#64748b',
+  width: highlighted ? 6 : 3,
+  dash: edge.kind === 'partner' && !highlighted ? [8, 8] : []
+});
+
+export const fanFill = (member?: FamilyMember) =>
+  member?.gender === 'male' ? '#eff6ff' : member?.gender === 'female' ? '#fff1f2' : '#f8fafc';
+
+const boxColors = (member?: FamilyMember) =>
+  member?.gender === 'male' ? { fill: '#eff6ff', stroke: '#bfdbfe', dot: '#60a5fa' }
+    : member?.gender === 'female' ? { fill: '#fff1f2', stroke: '#fecdd3', dot: '#fb7185' }
+    : { fill: '#ffffff', stroke: '#e2e8f0', dot: '#94a3b8' };
+
+const MATCH_COLOR = '#fbbf24';
+
+// Off the highlighted path, or outside the filters.
+const faded = (memberId: string, { highlight, dimmed }: DrawOptions) =>
+  (highlight.nodes.size > 0 && !highlight.nodes.has(memberId)) || dimmed.has(memberId);
+
+const truncate = (text: string, maxChars: number) => text.length > maxChars ? `${text.slice(0, maxChars - 1)}…` : text;
+
+const drawArcs = (ctx: CanvasRenderingContext2D, scene: TreeScene, options: DrawOptions) => {
+  const { members, transform, matches } = options;
+  scene.arcs.forEach(({ node, path }) => {
+    const member = members.get(node.memberId);
+    const arc = node.arc!;
+    ctx.save();
+    ctx.globalAlpha = faded(node.memberId, options) ? 0.3 : 1;
+    ctx.translate(node.x, node.y);
+    ctx.fillStyle = fanFill(member);
+    ctx.fill(path);
+    ctx.strokeStyle = matches.has(node.memberId) ? MATCH_COLOR : '#ffffff';
+    ctx.lineWidth = matches.has(node.memberId) ? 6 : 3;
+    ctx.stroke(path);
+
+    const fontSize = arc.generation <= 1 ? 15 : arc.generation <= 3 ? 12 : 10;
+    // Too small to read: skip the text.
+    if (fontSize * transform.k >= 5) {
+      ctx.translate(arc.labelX, arc.labelY);
+      ctx.rotate(arc.labelAngle * Math.PI / 180);
+      ctx.textAlign = 'center';
+      ctx.fillStyle = '#1e293b';
+      ctx.font = `900 ${fontSize}px Inter, sans-serif`;
+      ctx.fillText(truncate(member?.name || node.memberId, arc.generation === 0 ? 18 : arc.generation <= 2 ? 22 : 16), 0, -fontSize * 0.2);
+      const years = member ? [displayDate(member, 'birth'), displayDate(member, 'death')].filter(Boolean).join(' – ') : '';
+      if (years) {
+        ctx.fillStyle = '#64748b';
+        ctx.font = `900 ${fontSize * 0.8}px Inter, sans-serif`;
+        ctx.fillText(years, 0, fontSize * 1.1);
+      }
+    }
+    ctx.restore();
+  });
+};
+
+// Cards too small for HTML: a named box, or just a dot when zoomed far out.
+const drawCards = (ctx: CanvasRenderingContext2D, nodes: LayoutNode[], options: DrawOptions) => {
+  const { members, highlight, transform, matches } = options;
+  const dots = transform.k < NAME_ZOOM;
+  nodes.forEach(node => {
+    const member = members.get(node.memberId);
+    const colors = boxColors(member);
+    const onPath = highlight.nodes.has(node.memberId);
+    const matched = matches.has(node.memberId);
+    ctx.globalAlpha = faded(node.memberId, options) ? 0.3 : 1;
+    if (dots) {
+      ctx.beginPath();
+      // Search results stay findable as larger dots.
+      ctx.arc(node.x + CARD_WIDTH / 2, node.y + CARD_HEIGHT / 2, Math.max(CARD_HEIGHT / 3, (matched ? 6 : 3) / transform.k), 0, 2 * Math.PI);
+      ctx.fillStyle = onPath ? '#6366f1' : matched ? MATCH_COLOR : colors.dot;
+      ctx.fill();
+      return;
+    }
+    ctx.beginPath();
+    ctx.roundRect(node.x, node.y, CARD_WIDTH, CARD_HEIGHT, 32);
+    ctx.fillStyle = colors.fill;
+    ctx.fill();
+    ctx.strokeStyle = onPath ? '#6366f1' : matched ? MATCH_COLOR : colors.stroke;
+    ctx.lineWidth = onPath || matched ? 12 : 4;
+    ctx.stroke();
+    ctx.fillStyle = '#0f172a';
+    ctx.font = '900 30px Inter, sans-serif';
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    ctx.fillText(truncate(member?.name || node.memberId, 14), node.x + CARD_WIDTH / 2, node.y + CARD_HEIGHT / 2, CARD_WIDTH - 32);
+  });
+  ctx.globalAlpha = 1;
+};
+
+/**
+ * Draw connectors, fan segments and (below CARD_ZOOM) cards in the viewport.
+ * Cards at full detail are HTML and drawn by the caller.
+ */
+export const drawScene = (ctx: CanvasRenderingContext2D, scene: TreeScene, options: DrawOptions) => {
+  const { transform, width, height, pixelRatio, highlight } = options;
+  ctx.setTransform(pixelRatio, 0, 0, pixelRatio, 0, 0);
+  ctx.clearRect(0, 0, width, height);
+  ctx.translate(transform.x, transform.y);
+  ctx.scale(transform.k, transform.k);
+  const [x0, y0] = transform.invert([0, 0]);
+  const [x1, y1] = transform.invert([width, height]);
+
+  ctx.lineJoin = 'round';
+  scene.edges.forEach(({ edge, path, bounds }) => {
+    if (bounds[0] > x1 || bounds[1] > y1 || bounds[2] < x0 || bounds[3] < y0) return;
+    const style = edgeStyle(edge, highlight.steps.has(`${edge.fromId}|${edge.toId}`));
+    ctx.strokeStyle = style.color;
+    // Keep connectors at least a pixel wide when zoomed out.
+    ctx.lineWidth = Math.max(style.width, 1 / transform.k);
+    ctx.setLineDash(style.dash);
+    ctx.stroke(path);
+  });
+  ctx.setLineDash([]);
+
+  drawArcs(ctx, scene, options);
+  if (transform.k < CARD_ZOOM) drawCards(ctx, nodesInView(scene, x0, y0, x1, y1), options);
+};
@@ -0,0 +1,134 @@
+import { ExtractionResult, FamilyMember } from "../types";
+
+export type IntegrityFix = 'rename-duplicates' | 'drop-dangling' | 'symmetrize-partners' | 'break-cycles';
+
+export type IntegrityIssueType = 'duplicate-id' | 'dangling-parent' | 'dangling-partner' | 'self-reference' | 'one-sided-partner' | 'cycle';
+
+export interface IntegrityIssue {
+  type: IntegrityIssueType;
+  fix: IntegrityFix;
+  memberId: string;
+  relatedId?: string;
+  message: string;
+}
+
+export const INTEGRITY_FIXES: { fix: IntegrityFix, label: string }[] = [
+  { fix: 'rename-duplicates', label: 'Rename colliding IDs' },
+  { fix: 'drop-dangling', label: 'Drop links to missing people' },
+  { fix: 'symmetrize-partners', label: 'Make partner links two-sided' },
+  { fix: 'break-cycles', label: 'Break ancestry cycles' }
+];
+
+/**
+ * Parent links that close a cycle (someone as their own ancestor), found by
+ * depth-first search from every member. Each entry is [childId, parentId].
+ */
+const findCycleEdges = (members: FamilyMember[]): [string, string][] => {
+  const byId = new Map(members.map(m => [m.id, m]));
+  const state = new Map<string, 'visiting' | 'done'>();
+  const edges: [string, string][] = [];
+
+  const visit = (id: string) => {
+    state.set(id, 'visiting');
+    (byId.get(id)?.parents || []).forEach(parentId => {
+      if (!byId.has(parentId) || parentId === id) return;
+      const s = state.get(parentId);
+      if (s === 'visiting') edges.push([id, parentId]);
+      else if (!s) visit(parentId);
+    });
+    state.set(id, 'done');
+  };
+
+  members.forEach(m => { if (!state.has(m.id)) visit(m.id); });
+  return edges;
+};
+
+/**
+ * Check a tree for broken references: duplicate IDs, links to people who do
+ * not exist, self links, one-sided partnerships and ancestry cycles.
+ */
+export const validateIntegrity = (data: ExtractionResult | null): IntegrityIssue[] => {
+  if (!data) return [];
+  const issues: IntegrityIssue[] = [];
+  const seen = new Set<string>();
+  const byId = new Map<string, FamilyMember>();
+
+  data.members.forEach(m => {
+    if (seen.has(m.id)) {
+      issues.push({ type: 'duplicate-id', fix: 'rename-duplicates', memberId: m.id, message: `ID "${m.id}" is shared by more than one person (${m.name}).` });
+    } else {
+      byId.set(m.id, m);
+    }
+    seen.add(m.id);
+  });
+
+  data.members.forEach(m => {
+    (m.parents || []).forEach(p => {
+      if (p === m.id) issues.push({ type: 'self-reference', fix: 'drop-dangling', memberId: m.id, relatedId: p, message: `${m.name} is listed as their own parent.` });
+      else if (!byId.has(p)) issues.push({ type: 'dangling-parent', fix: 'drop-dangling', memberId: m.id, relatedId: p, message: `${m.name} has parent "${p}", who is not in the tree.` });
+    });
+    (m.partners || []).forEach(p => {
+      if (p === m.id) issues.push({ type: 'self-reference', fix: 'drop-dangling', memberId: m.id, relatedId: p, message: `${m.name} is listed as their own partner.` });
+      else if (!byId.has(p)) issues.push({ type: 'dangling-partner', fix: 'drop-dangling', memberId: m.id, relatedId: p, message: `${m.name} has partner "${p}", who is not in the tree.` });
+      else if (!byId.get(p)!.partners?.includes(m.id)) issues.push({ type: 'one-sided-partner', fix: 'symmetrize-partners', memberId: m.id, relatedId: p, message: `${m.name} lists ${byId.get(p)!.name} as a partner, but not the other way round.` });
+    });
+  });
+
+  findCycleEdges(Array.from(byId.values())).forEach(([childId, parentId]) => {
+    issues.push({ type: 'cycle', fix: 'break-cycles', memberId: childId, relatedId: parentId, message: `${byId.get(childId)!.name} and ${byId.get(parentId)!.name} form an ancestry loop.` });
+  });
+
+  return issues;
+};
+
+/**
+ * Apply the selected automatic fixes (all of them by default).
+ */
+export const repairIntegrity = (data: ExtractionResult, fixes: IntegrityFix[] = INTEGRITY_FIXES.map(f => f.fix)): ExtractionResult => {
+  let members = data.members.map(m => ({ ...m }));
+
+  if (fixes.includes('rename-duplicates')) {
+    const used = new Set<string>();
+    const allIds = new Set(members.map(m => m.id));
+    members = members.map(m => {
+      if (!used.has(m.id)) {
+        used.add(m.id);
+        return m;
+      }
+      let id = `${m.id}-2`;
+      for (let n = 3; used.has(id) || allIds.has(id); n++) id = `${m.id}-${n}`;
+      used.add(id);
+      return { ...m, id };
+    });
+  }
+
+  if (fixes.includes('drop-dangling')) {
+    const ids = new Set(members.map(m => m.id));
+    members = members.map(m => ({
+      ...m,
+      parents: m.parents?.filter(p => p !== m.id && ids.has(p)),
+      partners: m.partners?.filter(p => p !== m.id && ids.has(p))
+    }));
+  }
+
+  if (fixes.includes('symmetrize-partners')) {
+    const byId = new Map(members.map(m => [m.id, m]));
+    members.forEach(m => (m.partners || []).forEach(p => {
+      const other = byId.get(p);
+      if (other && other.id !== m.id && !other.partners?.includes(m.id)) other.partners = [...(other.partners || []), m.id];
+    }));
+  }
+
+  if (fixes.includes('break-cycles')) {
+    const byId = new Map(members.map(m => [m.id, m]));
+    // A tree may hold several independent loops, so search until none remain.
+    for (let edges = findCycleEdges(members); edges.length > 0; edges = findCycleEdges(members)) {
+      edges.forEach(([childId, parentId]) => {
+        const child = byId.get(childId)!;
+        child.parents = child.parents?.filter(p => p !== parentId);
+      });
+    }
+  }
+
+  return { ...data, members };
+};
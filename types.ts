@@ -1,9 +1,65 @@
 
+export type DateQualifier = 'exact' | 'about' | 'estimated' | 'calculated' | 'before' | 'after' | 'between';
+
+export type DateCalendar = 'gregorian' | 'julian';
+
+export interface DatePart {
+  year: number;
+  month?: number; // 1-12
+  day?: number;
+  dualYear?: number; // e.g. 1750 for "1749/50" (Old Style / New Style)
+}
+
+export interface GenealogicalDate {
+  qualifier: DateQualifier;
+  calendar?: DateCalendar; // Gregorian when omitted
+  start: DatePart;
+  end?: DatePart; // Only for "between"
+}
+
+export type EventType =
+  | 'birth' | 'baptism' | 'marriage' | 'divorce' | 'residence' | 'census'
+  | 'occupation' | 'immigration' | 'military' | 'probate' | 'death' | 'burial' | 'other';
+
+export interface MemberEvent {
+  id: string;
+  type: EventType;
+  date?: GenealogicalDate; // Birth and death dates live on the member instead
+  placeId?: string; // Place.id in ExtractionResult.places
+  description?: string;
+  partnerId?: string; // The other spouse of a marriage or divorce
+}
+
+// Evidence quality, mirroring GEDCOM QUAY 3 (primary) down to 0 (unreliable).
+export type CitationQuality = 'primary' | 'secondary' | 'questionable' | 'unreliable';
+
+export type CitedField = 'name' | 'birth' | 'death' | 'gender' | 'parents' | 'partners' | 'relationship' | 'event' | 'general';
+
+// Links one fact about a member to an entry in ExtractionResult.sources.
+export interface Citation {
+  id: string;
+  sourceId: string;
+  field: CitedField;
+  eventId?: string; // Only for field "event"
+  quality?: CitationQuality;
+  page?: string; // Where in the source, e.g. "p. 12, line 4"
+  excerpt?: string;
+}
+
+// Places form a hierarchy, e.g. Springfield -> Sangamon County -> Illinois -> USA.
+export interface Place {
+  id: string;
+  name: string;
+  parentId?: string;
+}
+
 export interface FamilyMember {
   id: string;
   name: string;
-  birthYear?: string;
+  birthYear?: string; // Date as displayed, e.g. "abt. 1850"; kept in sync with birthDate
   deathYear?: string;
+  birthDate?: GenealogicalDate;
+  deathDate?: GenealogicalDate;
   gender?: 'male' | 'female' | 'other';
   relationship?: string; // e.g., "Great-Granddaughter", "Son", etc.
   vitalStatus?: 'living' | 'deceased' | 'unknown';
@@ -11,6 +67,8 @@ export interface FamilyMember {
   parents?: string[]; // IDs of parents
   partners?: string[]; // IDs of spouses/partners
   status?: 'definitive' | 'probable' | 'possible'; // AI Confidence level
+  events?: MemberEvent[];
+  citations?: Citation[];
 }
 
 export interface FamilyData {
@@ -25,6 +83,7 @@ export interface FamilyRelationship {
 }
 
 export interface GroundingSource {
+  id?: string; // Assigned when the source enters a tree's library
   title: string;
   uri: string;
 }
@@ -35,4 +94,29 @@ export interface ExtractionResult {
   description?: string;
   sources?: GroundingSource[];
   estateInfo?: string; // New field for courthouse/probate info
+  places?: Place[];
+}
+
+export interface ChatMessage {
+  role: 'user' | 'ai';
+  text: string;
+  id: string;
+  sources?: GroundingSource[];
+}
+
+export interface TreeSnapshot {
+  id: string;
+  name: string;
+  timestamp: number;
+  result: ExtractionResult;
+}
+
+export interface SavedProject {
+  id: string;
+  name: string;
+  createdAt: number;
+  updatedAt: number;
+  data: ExtractionResult;
+  chatHistory: ChatMessage[];
+  snapshots?: TreeSnapshot[];
 }